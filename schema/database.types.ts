@@ -317,6 +317,35 @@ export interface Database {
           updated_at?: string | null
         }
       }
+      user_patterns: {
+        Row: {
+          id: string
+          user_id: string
+          vendor_name: string
+          definition: Json
+          is_active: boolean | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          vendor_name: string
+          definition: Json
+          is_active?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          vendor_name?: string
+          definition?: Json
+          is_active?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
       user_preferences: {
         Row: {
           id: string
@@ -0,0 +1,14 @@
+-- Migration: One processed_items row per user and Gmail message
+-- Date: 2026-10-19
+
+-- Keep the newest row of messages that were recorded more than once
+DELETE FROM public.processed_items p
+USING public.processed_items newer
+WHERE p.user_id = newer.user_id
+  AND p.message_id = newer.message_id
+  AND (p.processed_at, p.id) < (newer.processed_at, newer.id);
+
+-- Lets the extension upsert re-processed messages instead of adding rows,
+-- so the on_processed_item_created trigger charges a message only once
+CREATE UNIQUE INDEX IF NOT EXISTS processed_items_user_message_key
+  ON public.processed_items (user_id, message_id);
@@ -18,6 +18,7 @@ CREATE TABLE IF NOT EXISTS public.processed_items (
 CREATE INDEX IF NOT EXISTS processed_items_user_id_idx ON public.processed_items (user_id);
 CREATE INDEX IF NOT EXISTS processed_items_status_idx ON public.processed_items (status);
 CREATE INDEX IF NOT EXISTS processed_items_message_id_idx ON public.processed_items (message_id);
+CREATE UNIQUE INDEX IF NOT EXISTS processed_items_user_message_key ON public.processed_items (user_id, message_id);
 
 -- Enable RLS
 ALTER TABLE public.processed_items ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,36 @@
+-- Table: public.user_patterns
+
+-- Comment: Custom vendor patterns defined by users
+
+CREATE TABLE IF NOT EXISTS public.user_patterns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  vendor_name TEXT NOT NULL,
+  definition JSONB NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS user_patterns_user_id_idx ON public.user_patterns (user_id);
+
+-- Enable RLS
+ALTER TABLE public.user_patterns ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own patterns" ON public.user_patterns
+  FOR SELECT USING (auth.uid()::text = user_id::text OR 
+    user_id IN (SELECT id FROM public.users WHERE google_user_id = get_google_user_id()));
+
+CREATE POLICY "Users can insert their own patterns" ON public.user_patterns
+  FOR INSERT WITH CHECK (auth.uid()::text = user_id::text OR 
+    user_id IN (SELECT id FROM public.users WHERE google_user_id = get_google_user_id()));
+
+CREATE POLICY "Users can update their own patterns" ON public.user_patterns
+  FOR UPDATE USING (auth.uid()::text = user_id::text OR 
+    user_id IN (SELECT id FROM public.users WHERE google_user_id = get_google_user_id()));
+
+CREATE POLICY "Users can delete their own patterns" ON public.user_patterns
+  FOR DELETE USING (auth.uid()::text = user_id::text OR 
+    user_id IN (SELECT id FROM public.users WHERE google_user_id = get_google_user_id()));
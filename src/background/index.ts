@@ -9,7 +9,24 @@
 // Import core dependencies and types
 import { getEmailContent, getAttachments } from '../services/gmail/gmailApi';
 import { createSpreadsheet, appendBillData } from '../services/sheets/sheetsApi';
-import { Message, ScanEmailsRequest, ScanEmailsResponse, BillData } from '../types/Message';
+import {
+  Message,
+  ScanEmailsRequest,
+  ScanEmailsResponse,
+  ExtractMessageRequest,
+  ExtractMessageResponse,
+  ExtractThreadRequest,
+  ExtractThreadResponse,
+  SaveUserPatternRequest,
+  DeleteUserPatternRequest,
+  UserPatternsResponse,
+  RecordCorrectionRequest,
+  RecordCorrectionResponse,
+  PdfPasswordRequestsResponse,
+  ResolvePdfPasswordRequest,
+  ResolvePdfPasswordResponse,
+  BillData
+} from '../types/Message';
 import { 
   isAuthenticated,
   getAccessToken,
@@ -19,13 +36,59 @@ import {
 } from '../services/auth/googleAuth';
 import { authenticate } from '../services/api/auth';
 import { signInWithGoogle, syncAuthState, getSupabaseClient } from '../services/supabase/client';
-import { searchEmails } from '../services/gmail/gmailService';
-import { ensureUserRecord } from '../services/identity/userIdentityService';
+import { searchAllEmails } from '../services/gmail/gmailService';
+import { GmailBatchClient } from '../services/gmail/gmailBatchClient';
+import type { BillExtractor } from '../services/extraction/billExtractor';
+import type { LanguageCode } from '../services/multilingual/languageRegistry';
+import { DEFAULT_BILL_LABEL, isPaymentConfirmation, labelProcessedMessages } from '../services/gmail/gmailLabels';
+import { SCAN_LIMITS } from '../config/constants';
+import {
+  getCurrentHistoryId,
+  listMessagesAddedSince,
+  getHistoryCheckpoint,
+  saveHistoryCheckpoint,
+  clearHistoryCheckpoint,
+  restrictQueryToCheckpoint
+} from '../services/gmail/gmailHistory';
+import { filterUnprocessedMessages, recordExportedMessages, recordProcessedMessages } from '../services/scan/processedLedger';
+import { getBillAnnotations, markBillsExported, setPendingBillDetail } from '../services/scan/billAnnotations';
+import { listUserPatterns, loadUserPatterns, removeUserPattern, storeUserPattern } from '../services/extraction/userPatterns';
+import { vendorTemplateStore } from '../services/extraction/vendorTemplates';
+import { pdfPasswordVault } from '../services/pdf/pdfPasswordVault';
+import { getOcrImageType } from '../services/ocr/ocrSupport';
+import { isXmlAttachment } from '../services/extraction/xmlInvoice';
+import { preferXmlInvoiceBills } from '../services/extraction/strategies/xmlInvoiceExtractor';
+import {
+  MAX_STALLED_RESUMES,
+  SCAN_JOB_SAVE_INTERVAL,
+  ScanJob,
+  createScanJob,
+  getScanJob,
+  getScanJobWithProgress,
+  saveScanJob,
+  saveScanJobProgress,
+  summarizeScanJob
+} from '../services/scan/scanJob';
+import {
+  SCAN_PROGRESS_PORT,
+  ScanProgressEvent,
+  ScanProgressSnapshot,
+  scanProgressHub
+} from '../services/scan/scanProgress';
+import { ensureUserRecord, resolveUserIdentity } from '../services/identity/userIdentityService';
 import { handleError } from '../services/error/errorService';
-import { buildBillSearchQuery } from '../services/gmailSearchBuilder';
+import { buildBillSearchQuery, buildDateClause, SearchDateRange } from '../services/gmailSearchBuilder';
 import { Bill } from '../types/Bill';
 import { getTrustedSources } from '../services/trustedSources';
 import { getTrustedEmailSources } from '../services/supabase/client';
+import {
+  SCHEDULED_SCAN_ALARM,
+  loadScanSchedule,
+  getScheduleState,
+  hasMissedRun,
+  syncScheduledScanAlarm,
+  markScheduledRunCompleted
+} from '../services/schedule/scanScheduler';
 
 // Required OAuth scopes
 const SCOPES = [
@@ -64,9 +127,209 @@ chrome.alarms.create('keepAlive', { periodInMinutes: 1 });
 chrome.alarms.onAlarm.addListener((alarm) => {
   if (alarm.name === 'keepAlive') {
     console.warn('Background service worker is alive');
+  } else if (alarm.name === SCHEDULED_SCAN_ALARM) {
+    runScheduledScan();
   }
 });
 
+// Guard against overlapping scheduled runs
+let scheduledScanInProgress = false;
+
+/**
+ * Run a scan with the user's saved settings and schedule the next one
+ */
+async function runScheduledScan(): Promise<void> {
+  if (scheduledScanInProgress) {
+    console.warn('Scheduled scan already in progress, skipping');
+    return;
+  }
+  
+  scheduledScanInProgress = true;
+  
+  try {
+    const schedule = await loadScanSchedule();
+    if (!schedule?.enabled) {
+      console.log('Scheduled scanning is disabled, not running scan');
+      await syncScheduledScanAlarm(schedule);
+      return;
+    }
+    
+    console.log('Running scheduled scan...');
+    
+    // Without explicit options handleScanEmails uses the saved settings,
+    // including auto_export_to_sheets for the export step
+    await handleScanEmails({ incremental: true }, (response) => {
+      if (response.success) {
+        console.log('Scheduled scan completed:', response.stats);
+        
+        if (response.bills && response.bills.length > 0) {
+          chrome.notifications.create({
+            type: 'basic',
+            iconUrl: '/assets/icon-128.png',
+            title: 'Gmail Bill Scanner',
+            message: `Scheduled scan found ${response.bills.length} bill${response.bills.length === 1 ? '' : 's'}.`,
+            priority: 1
+          });
+        }
+      } else {
+        console.error('Scheduled scan failed:', response.error);
+      }
+    });
+    
+    await markScheduledRunCompleted();
+    await syncScheduledScanAlarm(schedule);
+  } catch (error) {
+    console.error('Error running scheduled scan:', error);
+  } finally {
+    scheduledScanInProgress = false;
+  }
+}
+
+/**
+ * Restore the scheduled scan alarm, catching up on a run missed while the browser was closed
+ */
+async function initializeScanSchedule(): Promise<void> {
+  try {
+    const schedule = await loadScanSchedule();
+    const state = await getScheduleState();
+    
+    if (schedule?.enabled && hasMissedRun(state)) {
+      console.log(`Missed scheduled scan due at ${new Date(state.nextRunAt!).toISOString()}, running now`);
+      await runScheduledScan();
+      return;
+    }
+    
+    await syncScheduledScanAlarm(schedule);
+  } catch (error) {
+    console.error('Error initializing scan schedule:', error);
+  }
+}
+
+chrome.runtime.onStartup.addListener(() => {
+  initializeScanSchedule();
+});
+
+// ID of the scan job being processed by this worker instance
+let activeScanJobId: string | null = null;
+
+// Stands in for activeScanJobId while a scan is set up, before its job exists
+const PENDING_SCAN_JOB_ID = 'pending';
+
+// Pending pause or cancel request for the active scan job, checked between messages
+let scanControlRequest: 'pause' | 'cancel' | null = null;
+
+/**
+ * Claim this worker for a new or resumed scan. Claims synchronously, so two
+ * requests arriving together can't both start a job.
+ * 
+ * @returns Whether no other scan is running or being set up
+ */
+function claimScanSlot(): boolean {
+  if (activeScanJobId) {
+    return false;
+  }
+  activeScanJobId = PENDING_SCAN_JOB_ID;
+  return true;
+}
+
+/**
+ * Release the claim of a scan that ended before its job started running
+ */
+function releaseScanSlot(): void {
+  if (activeScanJobId === PENDING_SCAN_JOB_ID) {
+    activeScanJobId = null;
+    scanControlRequest = null;
+  }
+}
+
+/**
+ * Resume a scan job left in the running state by a terminated service worker
+ */
+async function resumeInterruptedScanJob(): Promise<void> {
+  if (!claimScanSlot()) {
+    return;
+  }
+  
+  try {
+    const job = await getScanJob();
+    
+    // A running job that this worker didn't start was interrupted
+    if (!job || job.status !== 'running') {
+      return;
+    }
+    
+    // A message that terminates the worker stops every resume at the same place
+    const reachedCursor = (await getScanJobWithProgress())?.cursor ?? job.cursor;
+    job.stalledResumes = reachedCursor === job.resumeCursor ? (job.stalledResumes || 0) + 1 : 0;
+    job.resumeCursor = reachedCursor;
+    
+    if (job.stalledResumes >= MAX_STALLED_RESUMES) {
+      job.status = 'failed';
+      job.error = `Scan stopped: processing email ${reachedCursor + 1} of ${job.queue.length} interrupted the scan ${job.stalledResumes + 1} times`;
+      console.error(`Scan job ${job.id} failed: message ${job.queue[reachedCursor]} keeps interrupting it`);
+      await saveScanJob(job);
+      publishScanProgress(job, 'failed', { error: job.error });
+      return;
+    }
+    
+    job.resumeCount++;
+    console.log(`Resuming interrupted scan job ${job.id} at message ${job.cursor + 1} of ${job.queue.length} (resume #${job.resumeCount})`);
+    await saveScanJob(job);
+    
+    await runScanJob(job);
+  } catch (error) {
+    console.error('Error resuming interrupted scan job:', error);
+  } finally {
+    releaseScanSlot();
+  }
+}
+
+resumeInterruptedScanJob();
+
+/**
+ * Build the progress snapshot for a scan job
+ */
+function toProgressSnapshot(job: ScanJob, currentAttachment: string | null = null): ScanProgressSnapshot {
+  return {
+    jobId: job.id,
+    status: job.status,
+    total: job.queue.length,
+    current: Math.min(job.cursor + 1, job.queue.length),
+    billsFound: job.stats.billsFound,
+    errors: job.stats.errors,
+    currentAttachment
+  };
+}
+
+/**
+ * Publish a progress event for a scan job to connected popups
+ */
+function publishScanProgress(
+  job: ScanJob,
+  kind: ScanProgressEvent['kind'],
+  details: Omit<ScanProgressEvent, 'kind' | 'snapshot'> = {}
+) {
+  scanProgressHub.publish({
+    kind,
+    snapshot: toProgressSnapshot(job, details.fileName || null),
+    ...details
+  });
+}
+
+// Popups connect on this port to stream scan progress, reattaching to a running job
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== SCAN_PROGRESS_PORT) {
+    return;
+  }
+  
+  getScanJobWithProgress()
+    .then(job => scanProgressHub.attach(port, job ? toProgressSnapshot(job) : null))
+    .catch(error => {
+      console.error('Error attaching scan progress port:', error);
+      scanProgressHub.attach(port);
+    });
+});
+
 self.addEventListener('unload', () => {
   chrome.alarms.clear('keepAlive');
   console.log('Gmail Bill Scanner background service worker shutting down');
@@ -594,6 +857,185 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           await handleScanEmails(message.payload, sendResponse);
       break;
 
+    case 'EXTRACT_MESSAGE':
+          await handleExtractMessage(message.payload, sendResponse);
+      break;
+
+    case 'EXTRACT_THREAD':
+          await handleExtractThread(message.payload, sendResponse);
+      break;
+
+    case 'GET_BILL_ANNOTATIONS':
+          try {
+            const userId = await resolveLedgerUserId();
+            const annotations = await getBillAnnotations(userId, message.payload?.messageIds || []);
+            sendResponse({ success: true, annotations });
+          } catch (error) {
+            console.error('Error getting bill annotations:', error);
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to get bill annotations'
+            });
+          }
+      break;
+
+    case 'GET_USER_PATTERNS':
+    case 'SAVE_USER_PATTERN':
+    case 'DELETE_USER_PATTERN':
+          await handleUserPatternMessage(message.type, message.payload, sendResponse);
+      break;
+
+    case 'RECORD_CORRECTION':
+          await handleRecordCorrection(message.payload, sendResponse);
+      break;
+
+    case 'GET_PDF_PASSWORD_REQUESTS':
+          try {
+            sendResponse({ success: true, requests: await pdfPasswordVault.getRequests() } as PdfPasswordRequestsResponse);
+          } catch (error) {
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to load password requests'
+            } as PdfPasswordRequestsResponse);
+          }
+      break;
+
+    case 'RESOLVE_PDF_PASSWORD':
+          await handleResolvePdfPassword(message.payload, sendResponse);
+      break;
+
+    case 'DISMISS_PDF_PASSWORD_REQUEST':
+          try {
+            await pdfPasswordVault.removeRequest(message.payload.messageId, message.payload.attachmentId);
+            sendResponse({ success: true });
+          } catch (error) {
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to dismiss password request'
+            });
+          }
+      break;
+
+    case 'OPEN_BILL_DETAIL':
+          try {
+            await setPendingBillDetail(message.payload.annotation);
+            
+            // openPopup is only available in recent Chrome versions, the badge
+            // points the user to the popup otherwise
+            try {
+              await chrome.action.openPopup();
+            } catch (popupError) {
+              console.warn('Could not open popup, setting badge instead:', popupError);
+              await chrome.action.setBadgeText({ text: '1' });
+            }
+            sendResponse({ success: true });
+          } catch (error) {
+            console.error('Error opening bill detail:', error);
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to open bill detail'
+            });
+          }
+      break;
+
+    case 'PAUSE_SCAN':
+          if (activeScanJobId) {
+            scanControlRequest = 'pause';
+            sendResponse({ success: true });
+          } else {
+            sendResponse({ success: false, error: 'No scan is running' });
+          }
+      break;
+
+    case 'RESUME_SCAN':
+          if (!claimScanSlot()) {
+            sendResponse({ success: false, error: 'A scan is already in progress.' });
+            break;
+          }
+          
+          try {
+            const job = await getScanJob();
+            if (!job || job.status !== 'paused') {
+              sendResponse({ success: false, error: 'No paused scan to resume' });
+              break;
+            }
+            
+            job.status = 'running';
+            await saveScanJob(job);
+            sendResponse({ success: true });
+            
+            // Progress and completion are reported over the progress port
+            await runScanJob(job);
+          } catch (error) {
+            console.error('Error resuming scan:', error);
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to resume scan'
+            });
+          } finally {
+            releaseScanSlot();
+          }
+      break;
+
+    case 'CANCEL_SCAN':
+          if (activeScanJobId) {
+            // The running job stops before its next message and keeps what it has found
+            scanControlRequest = 'cancel';
+            sendResponse({ success: true });
+            break;
+          }
+          
+          // Hold the slot while a paused job is finished so no resume or new scan picks it up
+          claimScanSlot();
+          
+          try {
+            const job = await getScanJob();
+            if (job?.status === 'paused') {
+              job.status = 'cancelled';
+              job.unprocessed = job.queue.slice(job.cursor);
+              await finishScanJob(job);
+              sendResponse({ success: true });
+            } else {
+              sendResponse({ success: false, error: 'No scan is running' });
+            }
+          } catch (error) {
+            console.error('Error cancelling scan:', error);
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to cancel scan'
+            });
+          } finally {
+            releaseScanSlot();
+          }
+      break;
+
+    case 'GET_SCAN_JOB':
+          try {
+            const job = await getScanJobWithProgress();
+            sendResponse({ success: true, job: job ? summarizeScanJob(job) : null });
+          } catch (error) {
+            console.error('Error getting scan job:', error);
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to get scan job'
+            });
+          }
+      break;
+
+    case 'UPDATE_SCAN_SCHEDULE':
+          try {
+            const schedule = await loadScanSchedule();
+            const nextRunAt = await syncScheduledScanAlarm(schedule);
+            sendResponse({ success: true, nextRunAt });
+          } catch (error) {
+            console.error('Error updating scan schedule:', error);
+            sendResponse({
+              success: false,
+              error: error instanceof Error ? error.message : 'Failed to update scan schedule'
+            });
+          }
+      break;
+
     case 'EXPORT_TO_SHEETS':
           await handleExportToSheets(message.payload, sendResponse);
       break;
@@ -1528,6 +1970,24 @@ async function handleScanEmails(
   try {
     console.log('Starting email scan process...');
     
+    if (!claimScanSlot()) {
+      console.warn(`Scan job ${activeScanJobId} is already running`);
+      sendResponse({ success: false, error: 'A scan is already in progress.' });
+      return;
+    }
+    
+    const existingJob = await getScanJob();
+    if (existingJob?.status === 'paused') {
+      sendResponse({ success: false, error: 'A paused scan exists. Resume or cancel it before starting a new one.' });
+      return;
+    }
+    
+    // A running job this worker isn't processing was interrupted and is being resumed
+    if (existingJob?.status === 'running') {
+      sendResponse({ success: false, error: 'A scan is already in progress.' });
+      return;
+    }
+    
     // Get authentication token
     const token = await getAccessToken();
     if (!token) {
@@ -1549,7 +2009,6 @@ async function handleScanEmails(
     let getTrustedSources;
     let getTrustedEmailSources;
     let updateUserStats;
-    let resolveUserIdentity;
     let getSharedBillExtractor;
     
     try {
@@ -1560,11 +2019,9 @@ async function handleScanEmails(
         updateUserProcessingStats
       } = await import('../services/supabase/client');
       
-      const { resolveUserIdentity: resolveIdentity } = await import('../services/identity/userIdentityService');
       const { getSharedBillExtractor: getExtractor } = await import('../services/extraction/extractorFactory');
       const { getTrustedSources: getSources } = await import('../services/trustedSources');
       
-      resolveUserIdentity = resolveIdentity;
       supabaseClient = await getSupabaseClient();
       getUserSettings = getSettings;
       getTrustedSources = getSources;
@@ -1577,32 +2034,7 @@ async function handleScanEmails(
     }
 
     // Resolve user identity to get the correct Supabase ID
-    let userId = null;
-    if (resolveUserIdentity) {
-      try {
-        const identity = await resolveUserIdentity();
-        console.log('Resolved user identity for scan:', identity);
-        
-        // Use the Supabase ID for database operations
-        userId = identity.supabaseId;
-        
-        if (!userId) {
-          console.warn('No Supabase user ID found after identity resolution. Using Google ID as fallback.');
-          // Fall back to Google ID from storage only if necessary
-          const userData = await chrome.storage.local.get(['google_user_id']);
-          userId = userData?.google_user_id;
-        }
-      } catch (identityError) {
-        console.error('Error resolving user identity:', identityError);
-        // Fall back to Google ID from storage if identity resolution fails
-        const userData = await chrome.storage.local.get(['google_user_id']);
-        userId = userData?.google_user_id;
-      }
-    } else {
-      // Fallback if resolveUserIdentity couldn't be imported
-      const userData = await chrome.storage.local.get(['supabase_user_id', 'google_user_id']);
-      userId = userData?.supabase_user_id || userData?.google_user_id;
-    }
+    const userId = await resolveLedgerUserId();
     
     if (!userId) {
       console.warn('No user ID found for stats tracking');
@@ -1623,7 +2055,9 @@ async function handleScanEmails(
       notifyHighAmount: true,
       notifyErrors: true,
       highAmountThreshold: 100,
-      autoExportToSheets: true // Add the auto-export setting with default true
+      autoExportToSheets: true, // Add the auto-export setting with default true
+      applyLabels: false,
+      labelName: DEFAULT_BILL_LABEL
     };
     
     // Get user settings from Chrome storage
@@ -1726,59 +2160,580 @@ async function handleScanEmails(
       ? trustedSources.map(source => source.email_address)
       : undefined;
     
+    // An explicit date range (used by backfill scans) replaces the search_days window
+    const dateRange: SearchDateRange | null = payload.startDate
+      ? { startDate: payload.startDate, endDate: payload.endDate }
+      : null;
+    
     // Build the search query based on language and trusted sources settings
     let query = buildBillSearchQuery(
-      settings.scanDays || 30,
-      settings.inputLanguage as 'en' | 'hu' | undefined,
+      dateRange || settings.scanDays || 30,
+      settings.inputLanguage as LanguageCode | undefined,
       trustedEmailAddresses,
       settings.trustedSourcesOnly
     );
     
     // Add non-bill related email search if enabled and we're not restricting to trusted sources
-    // When trusted_sources_only is true, we should not add this OR condition
+    // When trusted_sources_only is true, we should not add this OR condition.
+    // Gmail binds OR tighter than the implicit AND, so both sides are grouped and
+    // the notices get the search window's date clause too
+    const noticeDateClause = settings.captureImportantNotices ? buildDateClause(dateRange || settings.scanDays || 30) : '';
     if (settings.captureImportantNotices && !settings.trustedSourcesOnly) {
-      query += ' OR subject:(price change OR service update OR important notice OR policy update)';
+      query = `(${query}) OR (subject:(price change OR service update OR important notice OR policy update) ${noticeDateClause})`;
     } else if (settings.captureImportantNotices && settings.trustedSourcesOnly && trustedEmailAddresses && trustedEmailAddresses.length > 0) {
       // If trusted_sources_only is true, we need to ensure important notices are still restricted to trusted sources
       const trustedSourcesQuery = trustedEmailAddresses.map(email => `from:${email}`).join(' OR ');
-      query += ` OR (subject:(price change OR service update OR important notice OR policy update) AND (${trustedSourcesQuery}))`;
+      query = `(${query}) OR (subject:(price change OR service update OR important notice OR policy update) AND (${trustedSourcesQuery}) ${noticeDateClause})`;
     }
     
     console.log('Gmail search query:', query);
     
-    // Search for emails using the constructed query
-    const messageIds = await searchEmails(query, settings.maxResults);
+    // Resolve which messages to process, either incrementally from the Gmail
+    // history checkpoint or with a full search over the search window
+    let messageIds: string[] | null = null;
+    let scanMode: 'full' | 'incremental' = 'full';
+    let nextHistoryId: string | null = null;
+    let searchTruncated = false;
+    const searchCap = Math.min(payload.searchCap || SCAN_LIMITS.MAX_SEARCH_RESULTS, SCAN_LIMITS.MAX_SEARCH_RESULTS);
+    const gmailClient = new GmailBatchClient();
+    
+    if (payload.incremental && userId && !dateRange) {
+      const checkpoint = await getHistoryCheckpoint(userId);
+      
+      if (checkpoint) {
+        const changes = await listMessagesAddedSince(checkpoint.historyId, gmailClient);
+        
+        if (changes.success) {
+          scanMode = 'incremental';
+          nextHistoryId = changes.historyId || checkpoint.historyId;
+          console.log(`Incremental scan: ${changes.messageIds.length} messages added since history ${checkpoint.historyId}`);
+          
+          if (changes.messageIds.length === 0) {
+            messageIds = [];
+          } else {
+            // Keep only the new messages that match the bill search query, searching
+            // just the days since the checkpoint rather than the whole search window
+            const addedIds = new Set(changes.messageIds);
+            const searchResult = await searchAllEmails(restrictQueryToCheckpoint(query, checkpoint), searchCap, gmailClient);
+            messageIds = searchResult.messageIds.filter(id => addedIds.has(id));
+            searchTruncated = searchResult.truncated;
+          }
+        } else {
+          console.warn('History checkpoint unusable, falling back to full scan:', changes.expired ? 'expired' : changes.error);
+          if (changes.expired) {
+            await clearHistoryCheckpoint(userId);
+          }
+        }
+      } else {
+        console.log('No history checkpoint stored yet, running full scan');
+      }
+    }
+    
+    if (messageIds === null) {
+      // Capture the historyId before searching so messages arriving mid-scan are picked up next time,
+      // date-range scans cover a past window and leave the checkpoint alone
+      nextHistoryId = userId && !dateRange ? await getCurrentHistoryId(gmailClient) : null;
+      const searchResult = await searchAllEmails(query, searchCap, gmailClient);
+      messageIds = searchResult.messageIds;
+      searchTruncated = searchResult.truncated;
+    }
+    
+    const matchedCount = messageIds.length;
+    
+    // Skip messages already recorded in the processed_items ledger unless reprocessing is forced
+    let skippedCount = 0;
+    if (messageIds.length > 0 && userId && !payload.forceReprocess) {
+      const { unprocessed, skipped } = await filterUnprocessedMessages(userId, messageIds);
+      skippedCount = skipped.length;
+      messageIds = unprocessed;
+      
+      if (skippedCount > 0) {
+        console.log(`Skipping ${skippedCount} already processed emails`);
+      }
+    }
+    
+    // Only process up to maxResults of the remaining matches
+    const limitReached = searchTruncated || messageIds.length > settings.maxResults;
+    messageIds = messageIds.slice(0, settings.maxResults);
+    
+    if (limitReached) {
+      console.warn(`Scan limit reached: processing ${messageIds.length} of ${matchedCount}${searchTruncated ? '+' : ''} matching emails`);
+      
+      // Don't advance the checkpoint past matches this scan leaves out, later
+      // incremental scans only list messages added after it
+      nextHistoryId = null;
+    }
+    
     if (!messageIds || messageIds.length === 0) {
       console.log('No matching emails found');
-      sendResponse({ success: true, bills: [] });
+      if (userId && nextHistoryId) {
+        await saveHistoryCheckpoint(userId, nextHistoryId);
+      }
+      sendResponse({ success: true, bills: [], scanMode, skipped: skippedCount, matched: matchedCount, limitReached });
       return;
     }
     
-    console.log(`Found ${messageIds.length} matching emails, processing...`);
+    console.log(`Found ${matchedCount} matching emails, processing ${messageIds.length}...`);
+    
+    // Persist the scan as a job so it can be resumed if the service worker is terminated
+    const job = createScanJob({
+      userId,
+      queue: messageIds,
+      settings,
+      trustedSources,
+      scanMode,
+      nextHistoryId,
+      skipped: skippedCount,
+      matched: matchedCount,
+      limitReached,
+      quotaUnitsUsed: gmailClient.quotaUnitsUsed
+    });
+    await saveScanJob(job);
     
-    // Get the bill extractor
-    const billExtractor = getSharedBillExtractor ? getSharedBillExtractor() : null;
-    if (!billExtractor) {
-      console.error('Bill extractor not available');
-      sendResponse({ success: false, error: 'Bill extractor not available' });
+    await runScanJob(job, sendResponse);
+  } catch (error) {
+    console.error('Error scanning emails:', error);
+    sendResponse({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  } finally {
+    releaseScanSlot();
+  }
+}
+
+/**
+ * Resolve the user ID the processed messages ledger is kept under
+ * 
+ * Scans, inbox annotations and exports all read and write the ledger, so they
+ * must agree on the ID: the Supabase ID, or the Google ID when there is none.
+ * 
+ * @returns User ID, or null when the user is unknown
+ */
+async function resolveLedgerUserId(): Promise<string | null> {
+  try {
+    const identity = await resolveUserIdentity();
+    if (identity.supabaseId) {
+      return identity.supabaseId;
+    }
+    console.warn('No Supabase user ID found after identity resolution. Using Google ID as fallback.');
+  } catch (identityError) {
+    console.error('Error resolving user identity:', identityError);
+  }
+  
+  const userData = await chrome.storage.local.get(['google_user_id']);
+  return userData?.google_user_id || null;
+}
+
+/**
+ * Extract bills from a single Gmail message without recording it in the ledger
+ * 
+ * The message is only recorded once its bills are exported, so looking at a
+ * message in Gmail doesn't stop later scans from picking it up.
+ * 
+ * @param email Full Gmail message
+ * @param gmailClient Client used to fetch attachment data
+ * @param billExtractor Bill extractor to run on the body and attachments
+ * @param options Language and whether to process attachments
+ * @returns Bills found in the body and attachments, tagged with their sender and subject, with the body extraction confidence
+ */
+async function extractMessageBills(
+  email: any,
+  gmailClient: GmailBatchClient,
+  billExtractor: BillExtractor,
+  options: { language?: LanguageCode; processAttachments: boolean }
+): Promise<{ bills: BillData[]; confidence: number }> {
+  const extractionResult = await billExtractor.extractFromEmail(email, { language: options.language });
+  const bills: BillData[] = extractionResult.success
+    ? extractionResult.bills.map(bill => transformBillToBillData(bill))
+    : [];
+  
+  if (options.processAttachments) {
+    bills.push(...await extractBillsFromAttachments(email, gmailClient, billExtractor, { language: options.language }));
+  }
+  
+  // Exporting records the message, which needs its sender
+  const headers = email.payload?.headers || [];
+  const from = headers.find((h: any) => h.name.toLowerCase() === 'from')?.value || '';
+  const subject = headers.find((h: any) => h.name.toLowerCase() === 'subject')?.value || '';
+  
+  return {
+    bills: preferXmlInvoiceBills(bills).map(bill => ({ ...bill, sourceEmail: extractEmailAddress(from), subject })),
+    confidence: extractionResult.confidence
+  };
+}
+
+/**
+ * Extract bills from a single Gmail message, such as the one open in Gmail
+ * 
+ * @param payload Message to extract
+ * @param sendResponse Function to send response back to caller
+ */
+async function handleExtractMessage(
+  payload: ExtractMessageRequest,
+  sendResponse: (response: ExtractMessageResponse) => void
+) {
+  try {
+    if (!payload?.messageId) {
+      sendResponse({ success: false, error: 'No message ID provided' });
       return;
     }
     
-    // Stats for tracking processing
-    const stats = {
-      totalProcessed: messageIds.length,
-      billsFound: 0,
-      errors: 0
-    };
+    const { messageId } = payload;
+    console.log(`Extracting bills from message ${messageId}...`);
     
-    // Process each email to extract bill data
+    const { getSharedBillExtractor } = await import('../services/extraction/extractorFactory');
+    const billExtractor = getSharedBillExtractor();
+    const gmailClient = new GmailBatchClient();
+    
+    const { supabase_user_id: userId } = await chrome.storage.local.get('supabase_user_id');
+    await loadUserPatterns(userId || null);
+    
+    const settings = await chrome.storage.sync.get({ inputLanguage: 'en', processAttachments: true });
+    const email = await gmailClient.getMessage(messageId);
+    const { bills, confidence } = await extractMessageBills(email, gmailClient, billExtractor, {
+      language: settings.inputLanguage as LanguageCode | undefined,
+      processAttachments: Boolean(settings.processAttachments)
+    });
+    
+    console.log(`Extracted ${bills.length} bills from message ${messageId}`);
+    sendResponse({
+      success: true,
+      messageId,
+      bills,
+      confidence
+    });
+  } catch (error) {
+    console.error('Error extracting bills from message:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Handle extracting bills from every message of a thread opened in Gmail
+ * 
+ * @param payload Request with the Gmail thread ID
+ * @param sendResponse Function to send response back to caller
+ */
+async function handleExtractThread(
+  payload: ExtractThreadRequest,
+  sendResponse: (response: ExtractThreadResponse) => void
+) {
+  try {
+    if (!payload?.threadId) {
+      sendResponse({ success: false, error: 'No thread ID provided' });
+      return;
+    }
+    
+    const { threadId } = payload;
+    console.log(`Extracting bills from thread ${threadId}...`);
+    
+    const { getSharedBillExtractor } = await import('../services/extraction/extractorFactory');
+    const billExtractor = getSharedBillExtractor();
+    const gmailClient = new GmailBatchClient();
+    
+    const { supabase_user_id: userId } = await chrome.storage.local.get('supabase_user_id');
+    await loadUserPatterns(userId || null);
+    
+    const settings = await chrome.storage.sync.get({ inputLanguage: 'en', processAttachments: true });
+    const thread = await gmailClient.getThread(threadId);
     const bills: BillData[] = [];
-    const processedResults: Record<string, any> = {};
     
-    for (const messageId of messageIds) {
+    for (const email of thread?.messages || []) {
+      try {
+        const result = await extractMessageBills(email, gmailClient, billExtractor, {
+          language: settings.inputLanguage as LanguageCode | undefined,
+          processAttachments: Boolean(settings.processAttachments)
+        });
+        bills.push(...result.bills);
+      } catch (messageError) {
+        // One failing message shouldn't hide the bills of the others
+        console.error(`Error extracting bills from message ${email.id}:`, messageError);
+      }
+    }
+    
+    console.log(`Extracted ${bills.length} bills from thread ${threadId}`);
+    sendResponse({ success: true, threadId, bills });
+  } catch (error) {
+    console.error('Error extracting bills from thread:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Handle listing, saving and deleting the user's custom vendor patterns
+ * 
+ * @param type Message type
+ * @param payload Pattern to save or ID of the pattern to delete
+ * @param sendResponse Function to send response back to caller
+ */
+async function handleUserPatternMessage(
+  type: 'GET_USER_PATTERNS' | 'SAVE_USER_PATTERN' | 'DELETE_USER_PATTERN',
+  payload: Partial<SaveUserPatternRequest & DeleteUserPatternRequest> | undefined,
+  sendResponse: (response: UserPatternsResponse) => void
+) {
+  try {
+    const { supabase_user_id: userId } = await chrome.storage.local.get('supabase_user_id');
+    if (!userId) {
+      sendResponse({ success: false, error: 'User not authenticated' });
+      return;
+    }
+    
+    let saved: UserPatternsResponse = { success: true };
+    
+    if (type === 'SAVE_USER_PATTERN') {
+      if (!payload?.pattern) {
+        sendResponse({ success: false, error: 'No pattern provided' });
+        return;
+      }
+      saved = await storeUserPattern(userId, payload.pattern);
+    } else if (type === 'DELETE_USER_PATTERN') {
+      if (!payload?.patternId) {
+        sendResponse({ success: false, error: 'No pattern ID provided' });
+        return;
+      }
+      saved = await removeUserPattern(userId, payload.patternId);
+    }
+    
+    if (!saved.success) {
+      sendResponse(saved);
+      return;
+    }
+    
+    sendResponse({ ...saved, patterns: await listUserPatterns(userId) });
+  } catch (error) {
+    console.error('Error handling user patterns:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to handle user patterns'
+    });
+  }
+}
+
+/**
+ * Handle a bill confirmed in the review UI, learning where its values are
+ * found in the emails of its sender
+ * 
+ * @param payload Message ID with the extracted and the confirmed bill
+ * @param sendResponse Function to send response back to caller
+ */
+async function handleRecordCorrection(
+  payload: RecordCorrectionRequest,
+  sendResponse: (response: RecordCorrectionResponse) => void
+) {
+  try {
+    if (!payload?.messageId || !payload.corrected) {
+      sendResponse({ success: false, error: 'No message ID or bill provided' });
+      return;
+    }
+    
+    // Templates are located in email bodies, values read from a PDF aren't there
+    if (payload.original?.attachmentId) {
+      sendResponse({ success: true, learnedFields: [] });
+      return;
+    }
+    
+    const { getSharedBillExtractor } = await import('../services/extraction/extractorFactory');
+    const gmailClient = new GmailBatchClient();
+    const email = await gmailClient.getMessage(payload.messageId);
+    
+    const headers = email.payload?.headers || [];
+    const from = headers.find((h: any) => h.name.toLowerCase() === 'from')?.value || '';
+    const body = getSharedBillExtractor().extractEmailBody(email);
+    
+    if (!from || !body) {
+      sendResponse({ success: false, error: 'Could not read the email of the bill' });
+      return;
+    }
+    
+    const { corrected } = payload;
+    const settings = await chrome.storage.sync.get({ inputLanguage: 'en' });
+    const dueDate = corrected.dueDate instanceof Date ? corrected.dueDate.toISOString() : corrected.dueDate;
+    
+    const learnedFields = await vendorTemplateStore.recordCorrection({
+      from,
+      body,
+      vendor: corrected.vendor,
+      category: corrected.category,
+      currency: corrected.currency,
+      amount: corrected.amount,
+      dueDate,
+      language: settings.inputLanguage as LanguageCode | undefined
+    });
+    
+    console.log(`Learned ${learnedFields.join(', ') || 'no fields'} for ${extractEmailAddress(from)}`);
+    sendResponse({ success: true, learnedFields });
+  } catch (error) {
+    console.error('Error recording bill correction:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record correction'
+    });
+  }
+}
+
+/**
+ * Handle a password the user entered for an encrypted PDF attachment
+ * 
+ * Extracts the attachment's bills with it and, when it opens the PDF, stores
+ * it for the sender or their domain so later scans open their PDFs unattended
+ */
+async function handleResolvePdfPassword(
+  payload: ResolvePdfPasswordRequest,
+  sendResponse: (response: ResolvePdfPasswordResponse) => void
+) {
+  try {
+    if (!payload?.messageId || !payload.password) {
+      sendResponse({ success: false, error: 'No message ID or password provided' });
+      return;
+    }
+    
+    const request = (await pdfPasswordVault.getRequests()).find(
+      existing => existing.messageId === payload.messageId && existing.attachmentId === payload.attachmentId
+    );
+    if (!request) {
+      sendResponse({ success: false, error: 'The password request no longer exists' });
+      return;
+    }
+    
+    const { getSharedBillExtractor } = await import('../services/extraction/extractorFactory');
+    const gmailClient = new GmailBatchClient();
+    const email = await gmailClient.getMessage(request.messageId);
+    
+    // The attachment ID of the request is stale once the message is fetched again
+    const attachmentData = extractAttachmentIds(email).find(attachment => attachment.fileName === request.fileName)
+      || extractAttachmentIds(email).find(attachment => attachment.id === request.attachmentId);
+    const attachment = attachmentData && await gmailClient.getAttachment(request.messageId, attachmentData.id);
+    if (!attachmentData || !attachment) {
+      sendResponse({ success: false, error: 'Could not download the attachment' });
+      return;
+    }
+    
+    const settings = await chrome.storage.sync.get({ inputLanguage: 'en' });
+    const result = await getSharedBillExtractor().extractFromPdf(
+      attachment,
+      request.messageId,
+      attachmentData.id,
+      attachmentData.fileName,
+      {
+        language: settings.inputLanguage as LanguageCode | undefined,
+        passwords: [payload.password]
+      }
+    );
+    
+    if (result.needsPassword) {
+      sendResponse({ success: false, needsPassword: true, error: 'The password does not open the PDF' });
+      return;
+    }
+    
+    await pdfPasswordVault.addPassword(request.from, payload.password, payload.scope);
+    await pdfPasswordVault.removeRequest(request.messageId, request.attachmentId);
+    
+    const bills: BillData[] = result.bills.map(bill => ({
+      ...transformBillToBillData(bill),
+      emailId: request.messageId,
+      attachmentId: attachmentData.id,
+      fileName: attachmentData.fileName
+    }));
+    
+    // Add them to the last scan's results the popup shows, an e-invoice replaces the message's other bills
+    if (bills.length > 0) {
+      const { extractedBills } = await chrome.storage.local.get('extractedBills');
+      const storedBills: BillData[] = extractedBills || [];
+      const messageBills = preferXmlInvoiceBills([
+        ...storedBills.filter(bill => bill.emailId === request.messageId),
+        ...bills
+      ]);
+      await chrome.storage.local.set({
+        extractedBills: [...storedBills.filter(bill => bill.emailId !== request.messageId), ...messageBills]
+      });
+    }
+    
+    sendResponse({ success: true, bills });
+  } catch (error) {
+    console.error('Error resolving PDF password:', error);
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to open the PDF'
+    });
+  }
+}
+
+/**
+ * Process the remaining messages of a scan job and finish it
+ * 
+ * @param job Scan job, processed from its cursor onwards
+ * @param sendResponse Optional callback for the SCAN_EMAILS caller (absent when resuming)
+ */
+async function runScanJob(
+  job: ScanJob,
+  sendResponse?: (response: ScanEmailsResponse) => void
+) {
+  const { userId, settings, trustedSources } = job;
+  
+  // Pause and cancel requests made while the scan was being set up still apply
+  if (activeScanJobId !== PENDING_SCAN_JOB_ID) {
+    scanControlRequest = null;
+  }
+  activeScanJobId = job.id;
+  
+  // Messages are prefetched through the Gmail batch endpoint ahead of the cursor
+  const gmailClient = new GmailBatchClient();
+  const quotaUnitsAtStart = job.quotaUnitsUsed || 0;
+  let prefetched = new Map<string, any>();
+  
+  try {
+    const { getSharedBillExtractor } = await import('../services/extraction/extractorFactory');
+    const billExtractor = getSharedBillExtractor();
+    
+    // Custom patterns live in Supabase, only a Supabase user ID can have any
+    const { supabase_user_id: supabaseUserId } = await chrome.storage.local.get('supabase_user_id');
+    await loadUserPatterns(supabaseUserId || null);
+    
+    publishScanProgress(job, job.cursor === 0 ? 'messages_found' : 'resumed');
+    
+    while (job.cursor < job.queue.length) {
+      // Honour pause and cancel requests between messages
+      if (scanControlRequest === 'cancel') {
+        break;
+      }
+      
+      if (scanControlRequest === 'pause') {
+        scanControlRequest = null;
+        job.status = 'paused';
+        await saveScanJob(job);
+        publishScanProgress(job, 'paused');
+        console.log(`Scan job ${job.id} paused at message ${job.cursor + 1} of ${job.queue.length}`);
+        
+        sendResponse?.({
+          success: true,
+          paused: true,
+          bills: job.bills,
+          stats: {
+            processed: job.cursor,
+            billsFound: job.stats.billsFound,
+            errors: job.stats.errors
+          },
+          jobId: job.id
+        });
+        return;
+      }
+      
+      const messageId = job.queue[job.cursor];
+      publishScanProgress(job, 'message_started', { messageId });
+      
       try {
-        // Get email content using Gmail API
-        const email = await getEmailById(messageId);
+        // Get email content, fetching the next batch when it isn't prefetched yet
+        if (!prefetched.has(messageId)) {
+          prefetched = await gmailClient.getMessages(job.queue.slice(job.cursor, job.cursor + SCAN_LIMITS.MESSAGE_BATCH_SIZE));
+        }
+        const email = prefetched.get(messageId) || await gmailClient.getMessage(messageId);
         
         // Check if this email is from a trusted source
         const headers = email.payload?.headers || [];
@@ -1791,7 +2746,7 @@ async function handleScanEmails(
         // Process with our unified bill extractor
         console.log(`Processing email with language setting: ${settings.inputLanguage}`);
         const extractionResult = await billExtractor.extractFromEmail(email, {
-          language: settings.inputLanguage as 'en' | 'hu' | undefined,
+          language: settings.inputLanguage as LanguageCode | undefined,
           isTrustedSource // Pass the trusted source flag to the extractor
         });
         
@@ -1802,17 +2757,13 @@ async function handleScanEmails(
           // Convert each Bill to BillData
           extractedBills = extractionResult.bills.map(bill => transformBillToBillData(bill));
           
-          // Add to bills array
-          bills.push(...extractedBills);
-          stats.billsFound += extractedBills.length;
-          
           // Get email metadata for logging
           const headers = email.payload?.headers || [];
           const from = headers.find((h: any) => h.name.toLowerCase() === 'from')?.value || '';
           const subject = headers.find((h: any) => h.name.toLowerCase() === 'subject')?.value || '';
           
           // Record processing result for stats
-          processedResults[messageId] = {
+          job.processedResults[messageId] = {
             message_id: messageId,
             from_address: from,
             subject: subject,
@@ -1835,7 +2786,7 @@ async function handleScanEmails(
           const subject = headers.find((h: any) => h.name.toLowerCase() === 'subject')?.value || '';
           
           // Record processing result with zero bills
-          processedResults[messageId] = {
+          job.processedResults[messageId] = {
             message_id: messageId,
             from_address: from,
             subject: subject,
@@ -1849,79 +2800,48 @@ async function handleScanEmails(
         }
         
         // Process attachments if enabled
+        let pdfBills: BillData[] = [];
         if (settings.processAttachments) {
-          try {
-            const headers = email.payload?.headers || [];
-            const fromHeader = headers.find((h: any) => h.name.toLowerCase() === 'from')?.value || '';
-            const fromEmail = extractEmailAddress(fromHeader);
-            const isTrustedSource = settings.trustedSourcesOnly && trustedSources.some(
-              source => source.email_address.toLowerCase() === fromEmail.toLowerCase()
-            );
-            const attachmentIds = extractAttachmentIds(email);
-            
-            if (attachmentIds.length > 0) {
-              console.log(`Found ${attachmentIds.length} attachments for message ${messageId}`);
-              
-              for (const attachmentData of attachmentIds) {
-                try {
-                  // Only process PDF attachments
-                  if (!attachmentData.fileName.toLowerCase().endsWith('.pdf')) {
-                    continue;
-                  }
-                  
-                  // Fetch the attachment content
-                  const attachment = await fetchAttachment(messageId, attachmentData.id);
-                  
-                  if (attachment) {
-                    console.log(`Processing PDF attachment: ${attachmentData.fileName}`);
-                    console.log(`Using language setting for PDF: ${settings.inputLanguage}`);
-                    console.log(`Is from trusted source: ${isTrustedSource}`);
-                    
-                    // Process with our unified bill extractor
-                    const pdfResult = await billExtractor.extractFromPdf(
-                      attachment,
-                      messageId,
-                      attachmentData.id,
-                      attachmentData.fileName,
-                      {
-                        language: settings.inputLanguage as 'en' | 'hu' | undefined,
-                        isTrustedSource: isTrustedSource // Pass the trusted source flag
-                      }
-                    );
-                    
-                    if (pdfResult.success && pdfResult.bills.length > 0) {
-                      // Convert each Bill to BillData
-                      const pdfBills = pdfResult.bills.map(bill => transformBillToBillData(bill));
-                      
-                      // Add to bills array
-                      bills.push(...pdfBills);
-                      stats.billsFound += pdfBills.length;
-                      
-                      console.log(`Successfully extracted ${pdfBills.length} bills from PDF attachment`);
-                    }
-                  }
-                } catch (pdfError) {
-                  console.error(`Error processing PDF attachment ${attachmentData.id}:`, pdfError);
-                }
-              }
-            }
-          } catch (attachmentError) {
-            console.error(`Error processing attachments for ${messageId}:`, attachmentError);
-          }
+          pdfBills = await extractBillsFromAttachments(
+            email,
+            gmailClient,
+            billExtractor,
+            {
+              language: settings.inputLanguage as LanguageCode | undefined,
+              isTrustedSource
+            },
+            (fileName) => publishScanProgress(job, 'attachment_started', { messageId, fileName })
+          );
+        }
+        
+        // An e-invoice attachment states the bill exactly, it replaces the body's guesses
+        const messageBills = preferXmlInvoiceBills([...extractedBills, ...pdfBills]);
+        if (messageBills.length > 0) {
+          job.bills.push(...messageBills);
+          job.stats.billsFound += messageBills.length;
+          publishScanProgress(job, 'bill_found', { messageId });
         }
       } catch (emailError) {
         console.error(`Error processing email ${messageId}:`, emailError);
-        stats.errors++;
+        job.stats.errors++;
+        job.errors.push({
+          messageId,
+          error: emailError instanceof Error ? emailError.message : String(emailError)
+        });
+        publishScanProgress(job, 'message_error', {
+          messageId,
+          error: emailError instanceof Error ? emailError.message : String(emailError)
+        });
         
         // Try to get minimal email info for logging
         try {
-          const email = await getEmailById(messageId);
+          const email = prefetched.get(messageId) || await gmailClient.getMessage(messageId, 'metadata');
           const headers = email.payload?.headers || [];
           const from = headers.find((h: any) => h.name.toLowerCase() === 'from')?.value || 'unknown';
           const subject = headers.find((h: any) => h.name.toLowerCase() === 'subject')?.value || 'unknown';
           
           // Record error for stats
-          processedResults[messageId] = {
+          job.processedResults[messageId] = {
             message_id: messageId,
             from_address: from,
             subject: subject,
@@ -1935,7 +2855,7 @@ async function handleScanEmails(
           console.error(`Could not get email headers for ${messageId}:`, headerError);
           
           // Record error with minimal info
-          processedResults[messageId] = {
+          job.processedResults[messageId] = {
             message_id: messageId,
             from_address: 'unknown',
             subject: 'unknown',
@@ -1947,81 +2867,189 @@ async function handleScanEmails(
           };
         }
       }
+      
+      // Checkpoint the cursor after every message and the collected results every few
+      prefetched.delete(messageId);
+      job.cursor++;
+      job.quotaUnitsUsed = quotaUnitsAtStart + gmailClient.quotaUnitsUsed;
+      if (job.cursor % SCAN_JOB_SAVE_INTERVAL === 0) {
+        await saveScanJob(job);
+      } else {
+        await saveScanJobProgress(job);
+      }
     }
     
-    // Cache extracted bills for later use
-    try {
-      await chrome.storage.local.set({ extractedBills: bills });
-    } catch (storageError) {
-      console.error('Error storing extracted bills in local storage:', storageError);
-    }
-    
-    // Save processing results to database if we have a user ID and Supabase client
-    if (userId && updateUserStats) {
-      try {
-        console.log('Updating user processing stats...');
-        await updateUserStats(userId, Object.values(processedResults));
-        console.log('Successfully updated user stats');
-      } catch (statsError) {
-        console.error('Error updating user stats:', statsError);
-      }
+    if (scanControlRequest === 'cancel') {
+      scanControlRequest = null;
+      job.status = 'cancelled';
+      job.unprocessed = job.queue.slice(job.cursor);
+      console.log(`Scan job ${job.id} cancelled with ${job.unprocessed.length} messages left unprocessed`);
     }
     
-    console.log('Scan completed with stats:', stats);
+    await finishScanJob(job, sendResponse);
+  } catch (error) {
+    console.error(`Error running scan job ${job.id}:`, error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'Unknown error';
+    await saveScanJob(job);
+    publishScanProgress(job, 'failed', { error: job.error });
     
-    // Send response with bills and stats
-    sendResponse({ 
-      success: true, 
-      bills,
-      stats: {
-        processed: stats.totalProcessed,
-        billsFound: stats.billsFound,
-        errors: stats.errors
-      }
+    sendResponse?.({ 
+      success: false, 
+      error: job.error
     });
+  } finally {
+    activeScanJobId = null;
+  }
+}
 
-    // If auto-export is enabled and we found bills, trigger export to sheets
-    if (settings.autoExportToSheets && bills.length > 0) {
-      try {
-        console.log('Auto-export is enabled and bills were found. Attempting to export to Google Sheets...');
-        
-        // Verify the access token again for sheets permission
-        const sheetsToken = await getAccessToken();
-        if (!sheetsToken) {
-          console.error('Auto-export failed: No valid authentication token for Sheets API');
-          return;
-        }
-        
-        // Attempt to export with a slight delay to let the UI update
-        setTimeout(async () => {
-          try {
-            console.log(`Auto-exporting ${bills.length} bills to Google Sheets...`);
-            const result = await handleExportToSheets({ bills }, (response) => {
-              if (response.success) {
-                console.log('Auto-export to Sheets successful');
-                
-                if (response.spreadsheetUrl) {
-                  console.log('Spreadsheet URL:', response.spreadsheetUrl);
-                  // We could send a notification here if needed
-                }
-              } else {
-                console.error('Auto-export to Sheets failed:', response.error);
-              }
-            });
-          } catch (exportError) {
-            console.error('Auto-export to Sheets failed with exception:', exportError);
-          }
-        }, 1000);
-      } catch (exportSetupError) {
-        console.error('Error setting up auto-export:', exportSetupError);
+/**
+ * Store the results of a finished or cancelled scan job and report them
+ * 
+ * @param job Scan job whose processing loop has ended
+ * @param sendResponse Optional callback for the SCAN_EMAILS caller
+ */
+async function finishScanJob(
+  job: ScanJob,
+  sendResponse?: (response: ScanEmailsResponse) => void
+) {
+  const { userId, settings } = job;
+  const cancelled = job.status === 'cancelled';
+  
+  // Cache extracted bills for later use
+  try {
+    await chrome.storage.local.set({ extractedBills: job.bills });
+  } catch (storageError) {
+    console.error('Error storing extracted bills in local storage:', storageError);
+  }
+  
+  // Record per-message outcomes so later scans can skip these messages
+  if (userId) {
+    await recordProcessedMessages(userId, Object.values(job.processedResults).map(result => {
+      const messageBills = job.bills.filter(bill => bill.emailId === result.message_id);
+      return {
+        message_id: result.message_id,
+        source_email: extractEmailAddress(result.from_address || ''),
+        status: messageBills.length > 0 ? 'success' : result.status,
+        extracted_data: messageBills.length > 0
+          ? { bills: messageBills, paid: isPaymentConfirmation(result.subject) }
+          : null,
+        error_message: result.error_message
+      };
+    }));
+  }
+  
+  // Label the processed messages in Gmail by extraction outcome if the user opted in
+  let labelled: number | undefined;
+  if (settings.applyLabels) {
+    const labelResult = await labelProcessedMessages(
+      Object.values(job.processedResults).map(result => ({
+        messageId: result.message_id,
+        status: result.status,
+        subject: result.subject,
+        confidence: result.confidence,
+        bills: job.bills.filter(bill => bill.emailId === result.message_id)
+      })),
+      settings.labelName
+    );
+    
+    if (labelResult.success) {
+      labelled = labelResult.labelled;
+    } else {
+      console.warn('Could not label processed messages:', labelResult.error);
+    }
+  }
+  
+  // Advance the history checkpoint now that the messages have been processed,
+  // a cancelled scan keeps the old one so its unprocessed messages are found again
+  if (userId && job.nextHistoryId && !cancelled) {
+    try {
+      await saveHistoryCheckpoint(userId, job.nextHistoryId);
+    } catch (checkpointError) {
+      console.error('Error saving history checkpoint:', checkpointError);
+    }
+  }
+  
+  // Save processing results to database if we have a user ID
+  if (userId) {
+    try {
+      console.log('Updating user processing stats...');
+      const { updateUserProcessingStats } = await import('../services/supabase/client');
+      await updateUserProcessingStats(userId, {
+        total_processed_items: job.cursor,
+        successful_processed_items: job.stats.billsFound,
+        last_processed_at: new Date().toISOString()
+      });
+      console.log('Successfully updated user stats');
+    } catch (statsError) {
+      console.error('Error updating user stats:', statsError);
+    }
+  }
+  
+  if (!cancelled) {
+    job.status = 'completed';
+  }
+  job.completedAt = new Date().toISOString();
+  await saveScanJob(job);
+  publishScanProgress(job, cancelled ? 'cancelled' : 'completed');
+  
+  console.log(`Scan ${cancelled ? 'cancelled' : 'completed'} with stats:`, job.stats, `(${job.quotaUnitsUsed} Gmail quota units)`);
+  
+  // Send response with bills and stats
+  sendResponse?.({ 
+    success: true, 
+    bills: job.bills,
+    stats: {
+      processed: job.cursor,
+      billsFound: job.stats.billsFound,
+      errors: job.stats.errors
+    },
+    scanMode: job.scanMode,
+    skipped: job.skipped,
+    matched: job.matched,
+    limitReached: job.limitReached,
+    quotaUnitsUsed: job.quotaUnitsUsed,
+    labelled,
+    jobId: job.id,
+    cancelled,
+    unprocessed: job.unprocessed
+  });
+
+  // If auto-export is enabled and we found bills, trigger export to sheets
+  if (settings.autoExportToSheets && job.bills.length > 0) {
+    try {
+      console.log('Auto-export is enabled and bills were found. Attempting to export to Google Sheets...');
+      
+      // Verify the access token again for sheets permission
+      const sheetsToken = await getAccessToken();
+      if (!sheetsToken) {
+        console.error('Auto-export failed: No valid authentication token for Sheets API');
+        return;
       }
+      
+      // Attempt to export with a slight delay to let the UI update
+      setTimeout(async () => {
+        try {
+          console.log(`Auto-exporting ${job.bills.length} bills to Google Sheets...`);
+          const result = await handleExportToSheets({ bills: job.bills }, (response) => {
+            if (response.success) {
+              console.log('Auto-export to Sheets successful');
+              
+              if (response.spreadsheetUrl) {
+                console.log('Spreadsheet URL:', response.spreadsheetUrl);
+                // We could send a notification here if needed
+              }
+            } else {
+              console.error('Auto-export to Sheets failed:', response.error);
+            }
+          });
+        } catch (exportError) {
+          console.error('Auto-export to Sheets failed with exception:', exportError);
+        }
+      }, 1000);
+    } catch (exportSetupError) {
+      console.error('Error setting up auto-export:', exportSetupError);
     }
-  } catch (error) {
-    console.error('Error scanning emails:', error);
-    sendResponse({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
   }
 }
 
@@ -2180,6 +3208,8 @@ async function handleExportToSheets(
         // Generate spreadsheet URL for response
         const spreadsheetUrl = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit`;
         
+        await markBillsExported(bills);
+        await recordExportedMessages(userIdentity.supabaseId, bills);
         sendResponse({
           success: true,
           spreadsheetUrl
@@ -2209,6 +3239,8 @@ async function handleExportToSheets(
           // Generate spreadsheet URL for response
           const spreadsheetUrl = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit`;
           
+          await markBillsExported(bills);
+          await recordExportedMessages(userIdentity.supabaseId, bills);
           sendResponse({
             success: true,
             spreadsheetUrl
@@ -2277,6 +3309,9 @@ chrome.runtime.onInstalled.addListener((details) => {
       }
     }
   );
+  
+  // Restore the scheduled scan alarm after install or update
+  initializeScanSchedule();
 }); 
 
 /**
@@ -2473,15 +3508,135 @@ function transformBillToBillData(bill: Bill): BillData {
     accountNumber: bill.accountNumber,
     emailId: bill.source?.messageId,
     // Include any attachment ID from the source if available
-    attachmentId: bill.source?.attachmentId
+    attachmentId: bill.source?.attachmentId,
+    fileName: bill.source?.fileName,
+    confidence: bill.confidence,
+    extractionMethod: bill.extractionMethod,
+    matchedPattern: bill.matchedPattern,
+    conflicts: bill.conflicts,
+    // E-invoice fields, under the names of their sheet columns
+    invoice_number: bill.invoiceNumber,
+    invoice_date: bill.issueDate,
+    totals: bill.totals,
+    lineItems: bill.lineItems
   };
 }
 
+/**
+ * Extract bills from the PDF, XML e-invoice and image attachments of an email
+ * 
+ * @param email Full Gmail message
+ * @param gmailClient Client used to fetch attachment data
+ * @param billExtractor Bill extractor to run on each attachment
+ * @param options Extraction options
+ * @param onAttachment Called before each attachment is parsed
+ * @returns Bills found in the attachments
+ */
+async function extractBillsFromAttachments(
+  email: any,
+  gmailClient: GmailBatchClient,
+  billExtractor: BillExtractor,
+  options: { language?: LanguageCode; isTrustedSource?: boolean },
+  onAttachment?: (fileName: string) => void
+): Promise<BillData[]> {
+  const bills: BillData[] = [];
+  const messageId = email.id;
+  const headers = email.payload?.headers || [];
+  const from = headers.find((h: any) => h.name.toLowerCase() === 'from')?.value || '';
+  
+  try {
+    const attachmentIds = extractAttachmentIds(email);
+    
+    if (attachmentIds.length > 0) {
+      console.log(`Found ${attachmentIds.length} attachments for message ${messageId}`);
+    }
+    
+    for (const attachmentData of attachmentIds) {
+      try {
+        // Only process PDF and XML e-invoice attachments, and images such as photographed bills through OCR
+        const imageType = getOcrImageType(attachmentData.fileName);
+        const isXml = isXmlAttachment(attachmentData.fileName, attachmentData.mimeType);
+        if (!attachmentData.fileName.toLowerCase().endsWith('.pdf') && !imageType && !isXml) {
+          continue;
+        }
+        
+        // Fetch the attachment content
+        const attachment = await gmailClient.getAttachment(messageId, attachmentData.id);
+        
+        if (attachment) {
+          console.log(`Processing ${isXml ? 'XML' : imageType ? 'image' : 'PDF'} attachment: ${attachmentData.fileName}`);
+          onAttachment?.(attachmentData.fileName);
+          console.log(`Using language setting for PDF: ${options.language}`);
+          console.log(`Is from trusted source: ${options.isTrustedSource}`);
+          
+          // Process with our unified bill extractor
+          const pdfResult = isXml
+            ? await billExtractor.extractFromXml(
+                attachment,
+                messageId,
+                attachmentData.id,
+                attachmentData.fileName,
+                options
+              )
+            : imageType
+            ? await billExtractor.extractFromImage(
+                attachment,
+                imageType,
+                messageId,
+                attachmentData.id,
+                attachmentData.fileName,
+                options
+              )
+            : await billExtractor.extractFromPdf(
+                attachment,
+                messageId,
+                attachmentData.id,
+                attachmentData.fileName,
+                { ...options, passwords: from ? await pdfPasswordVault.getPasswords(from) : [] }
+              );
+          
+          // Encrypted PDFs wait in the popup until the user gives their password
+          if (pdfResult.needsPassword) {
+            console.log(`No stored password opens ${attachmentData.fileName}`);
+            await pdfPasswordVault.addRequest({
+              messageId,
+              attachmentId: attachmentData.id,
+              fileName: attachmentData.fileName,
+              from,
+              subject: headers.find((h: any) => h.name.toLowerCase() === 'subject')?.value,
+              requestedAt: new Date().toISOString()
+            });
+          }
+          
+          if (pdfResult.success && pdfResult.bills.length > 0) {
+            // Convert each Bill to BillData, keeping track of the message and attachment it came from
+            const pdfBills = pdfResult.bills.map(bill => ({
+              ...transformBillToBillData(bill),
+              emailId: bill.source?.messageId || messageId,
+              attachmentId: bill.source?.attachmentId || attachmentData.id,
+              fileName: bill.source?.fileName || attachmentData.fileName
+            }));
+            bills.push(...pdfBills);
+            
+            console.log(`Successfully extracted ${pdfBills.length} bills from attachment`);
+          }
+        }
+      } catch (pdfError) {
+        console.error(`Error processing PDF attachment ${attachmentData.id}:`, pdfError);
+      }
+    }
+  } catch (attachmentError) {
+    console.error(`Error processing attachments for ${messageId}:`, attachmentError);
+  }
+  
+  return bills;
+}
+
 /**
  * Extract attachment IDs from email
  */
-function extractAttachmentIds(email: any): Array<{ id: string; fileName: string }> {
-  const attachments: Array<{ id: string; fileName: string }> = [];
+function extractAttachmentIds(email: any): Array<{ id: string; fileName: string; mimeType?: string }> {
+  const attachments: Array<{ id: string; fileName: string; mimeType?: string }> = [];
   
   try {
     const parts = email.payload?.parts || [];
@@ -2490,7 +3645,8 @@ function extractAttachmentIds(email: any): Array<{ id: string; fileName: string
       if (part.body?.attachmentId && part.filename) {
         attachments.push({
           id: part.body.attachmentId,
-          fileName: part.filename
+          fileName: part.filename,
+          mimeType: part.mimeType
         });
       }
       
@@ -2500,7 +3656,8 @@ function extractAttachmentIds(email: any): Array<{ id: string; fileName: string
           if (nestedPart.body?.attachmentId && nestedPart.filename) {
             attachments.push({
               id: nestedPart.body.attachmentId,
-              fileName: nestedPart.filename
+              fileName: nestedPart.filename,
+              mimeType: nestedPart.mimeType
             });
           }
         }
@@ -2513,69 +3670,6 @@ function extractAttachmentIds(email: any): Array<{ id: string; fileName: string
   return attachments;
 }
 
-/**
- * Fetch attachment content
- */
-async function fetchAttachment(messageId: string, attachmentId: string): Promise<string | null> {
-  try {
-    const token = await getAccessToken();
-    if (!token) {
-      throw new Error('No valid authentication token');
-    }
-    
-    const response = await fetch(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}/attachments/${attachmentId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch attachment: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    return data.data || null; // Base64 encoded attachment data
-  } catch (error) {
-    console.error(`Error fetching attachment ${attachmentId}:`, error);
-    return null;
-  }
-}
-
-/**
- * Get email by ID
- */
-async function getEmailById(messageId: string): Promise<any> {
-  try {
-    const token = await getAccessToken();
-    if (!token) {
-      throw new Error('No valid authentication token');
-    }
-    
-    const response = await fetch(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}?format=full`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch email: ${response.status} ${response.statusText}`);
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.error(`Error fetching email ${messageId}:`, error);
-    throw error;
-  }
-} 
-
 /**
  * Extracts the email address from a "From" header value
  * 
@@ -11,6 +11,9 @@ export const GMAIL_SCOPES = [
   "https://www.googleapis.com/auth/userinfo.profile"
 ];
 
+// Requested incrementally, only when labelling processed emails is enabled
+export const GMAIL_MODIFY_SCOPE = "https://www.googleapis.com/auth/gmail.modify";
+
 export const SHEETS_SCOPES = [
   "https://www.googleapis.com/auth/spreadsheets",
   "https://www.googleapis.com/auth/drive.file"
@@ -31,4 +34,14 @@ export const API_ENDPOINTS = {
   SHEETS_BASE: 'https://sheets.googleapis.com/v4/spreadsheets',
   GOOGLE_USER_INFO: 'https://www.googleapis.com/oauth2/v2/userinfo',
   GOOGLE_USER_INFO_EXTENDED: 'https://openidconnect.googleapis.com/v1/userinfo'
-}; 
\ No newline at end of file
+};
+
+// Scan limits
+export const SCAN_LIMITS = {
+  // Hard cap on message IDs collected by a paginated Gmail search
+  MAX_SEARCH_RESULTS: 2000,
+  // Largest page size accepted by messages.list
+  SEARCH_PAGE_SIZE: 500,
+  // Messages fetched per Gmail batch request while scanning
+  MESSAGE_BATCH_SIZE: 20
+};
@@ -0,0 +1,131 @@
+/**
+ * Inline Bill Card
+ *
+ * Renders extracted bills inside Gmail, next to the message they came from
+ */
+
+import { BillData } from '../types/Message';
+
+/**
+ * Formats a bill amount with its currency when one is known
+ *
+ * @param bill Extracted bill
+ * @returns Display amount
+ */
+export function formatBillAmount(bill: BillData): string {
+  if (bill.amount === undefined || bill.amount === null) {
+    return 'Unknown amount';
+  }
+
+  if (bill.currency) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: bill.currency }).format(bill.amount);
+    } catch (error) {
+      // Not an ISO currency code, show it as-is
+      return `${bill.amount} ${bill.currency}`;
+    }
+  }
+
+  return String(bill.amount);
+}
+
+/**
+ * Formats a bill date for display
+ *
+ * @param value Date or ISO string
+ * @returns Display date, or null when missing or invalid
+ */
+export function formatBillDate(value?: Date | string): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toLocaleDateString();
+}
+
+/**
+ * Creates a Gmail-styled button
+ */
+export function createButton(label: string, primary = false): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  button.style.cssText = `
+    padding: 6px 12px; border-radius: 4px; cursor: pointer; font-size: 13px;
+    border: 1px solid ${primary ? '#1a73e8' : '#dadce0'};
+    background-color: ${primary ? '#1a73e8' : 'white'};
+    color: ${primary ? 'white' : '#1a73e8'};
+  `;
+  return button;
+}
+
+/**
+ * Renders a card listing extracted bills
+ *
+ * @param bills Bills extracted from the message
+ * @param onAddToSheet Called when the user adds a bill to the sheet, resolves to an error message on failure
+ * @returns Card element
+ */
+export function renderBillCard(
+  bills: BillData[],
+  onAddToSheet: (bill: BillData) => Promise<string | null>
+): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'bill-scanner-card';
+  card.style.cssText = `
+    margin: 8px 0; padding: 12px; border: 1px solid #dadce0; border-radius: 8px;
+    background-color: #f8fafd; font-size: 13px; color: #202124;
+  `;
+
+  if (bills.length === 0) {
+    card.textContent = 'No bill found in this email.';
+    return card;
+  }
+
+  for (const bill of bills) {
+    const row = document.createElement('div');
+    row.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px; padding: 4px 0;';
+
+    const details = document.createElement('div');
+
+    const title = document.createElement('div');
+    title.style.fontWeight = '500';
+    title.textContent = `${bill.vendor || 'Unknown vendor'} · ${formatBillAmount(bill)}`;
+    details.appendChild(title);
+
+    const meta = [
+      formatBillDate(bill.dueDate) ? `Due ${formatBillDate(bill.dueDate)}` : null,
+      bill.category || null,
+      bill.attachmentId ? 'From PDF attachment' : null
+    ].filter(Boolean).join(' · ');
+
+    if (meta) {
+      const metaLine = document.createElement('div');
+      metaLine.style.color = '#5f6368';
+      metaLine.textContent = meta;
+      details.appendChild(metaLine);
+    }
+
+    const addButton = createButton('Add to sheet', true);
+    addButton.addEventListener('click', async () => {
+      addButton.disabled = true;
+      addButton.textContent = 'Adding...';
+
+      const error = await onAddToSheet(bill);
+      if (error) {
+        addButton.disabled = false;
+        addButton.textContent = 'Add to sheet';
+        addButton.title = error;
+      } else {
+        addButton.textContent = 'Added';
+      }
+    });
+
+    row.appendChild(details);
+    row.appendChild(addButton);
+    card.appendChild(row);
+  }
+
+  return card;
+}
@@ -0,0 +1,102 @@
+/**
+ * Gmail DOM Helpers
+ * 
+ * Gmail's markup is undocumented and changes without notice, so the selectors
+ * the content script relies on are kept together here
+ */
+
+// Each expanded message in an open thread carries its Gmail API message ID
+export const OPEN_MESSAGE_SELECTOR = '[data-legacy-message-id]';
+
+// Body of an expanded message
+export const MESSAGE_BODY_SELECTOR = '.a3s';
+
+// Subject heading of the open thread, carrying its Gmail API thread ID
+export const OPEN_THREAD_SELECTOR = 'h2[data-legacy-thread-id]';
+
+// Rows of the inbox (and other mailbox) lists
+export const INBOX_ROW_SELECTOR = 'tr.zA';
+
+// Element inside a row carrying the IDs of its thread
+const ROW_IDS_SELECTOR = '[data-legacy-last-message-id], [data-legacy-thread-id]';
+
+// Subject and snippet cell of a row
+export const ROW_SUBJECT_SELECTOR = '.xT';
+
+/**
+ * An expanded message in the open thread
+ */
+export interface OpenMessage {
+  messageId: string;
+  element: HTMLElement;
+}
+
+/**
+ * Finds the expanded messages of the thread currently open in Gmail
+ * 
+ * @returns Open messages with their Gmail API message IDs
+ */
+export function getOpenMessages(): OpenMessage[] {
+  const elements = document.querySelectorAll<HTMLElement>(OPEN_MESSAGE_SELECTOR);
+  
+  return Array.from(elements)
+    .map(element => ({
+      messageId: element.getAttribute('data-legacy-message-id') || '',
+      element
+    }))
+    .filter(message => message.messageId.length > 0);
+}
+
+/**
+ * Finds the thread currently open in Gmail
+ * 
+ * @returns Thread ID and subject heading, or null when no thread is open
+ */
+export function getOpenThread(): { threadId: string; heading: HTMLElement } | null {
+  const heading = document.querySelector<HTMLElement>(OPEN_THREAD_SELECTOR);
+  const threadId = heading?.getAttribute('data-legacy-thread-id');
+  
+  return heading && threadId ? { threadId, heading } : null;
+}
+
+/**
+ * Finds the visible mailbox rows and the message each one stands for
+ * 
+ * A row represents a thread, its last message ID is used since that's the one
+ * a scan most likely processed; the thread ID (the first message's ID) is kept too
+ * 
+ * @returns Rows with the candidate message IDs for each
+ */
+export function getInboxRows(): Array<{ messageIds: string[]; element: HTMLElement }> {
+  const rows = document.querySelectorAll<HTMLElement>(INBOX_ROW_SELECTOR);
+  
+  return Array.from(rows)
+    .map(element => {
+      const idElement = element.querySelector(ROW_IDS_SELECTOR);
+      const messageIds = [
+        idElement?.getAttribute('data-legacy-last-message-id'),
+        idElement?.getAttribute('data-legacy-thread-id')
+      ].filter((id): id is string => Boolean(id));
+      
+      return { messageIds: Array.from(new Set(messageIds)), element };
+    })
+    .filter(row => row.messageIds.length > 0);
+}
+
+/**
+ * Marks an element as handled by a feature, returning false if it already was
+ * 
+ * @param element Gmail element
+ * @param feature Feature name used in the data attribute
+ * @returns True the first time the element is claimed for the feature
+ */
+export function claimElement(element: HTMLElement, feature: string): boolean {
+  const attribute = `data-bill-scanner-${feature}`;
+  
+  if (element.hasAttribute(attribute)) {
+    return false;
+  }
+  
+  element.setAttribute(attribute, 'true');
+  return true;
+}
@@ -0,0 +1,147 @@
+/**
+ * Inbox Chips
+ *
+ * Decorates mailbox rows of messages the scanner turned into bills with a chip
+ * showing the amount, due date and status, keeping up with Gmail re-rendering rows
+ */
+
+import type { BillAnnotation } from '../services/scan/billAnnotations';
+import { Message } from '../types/Message';
+import { ROW_SUBJECT_SELECTOR, getInboxRows } from './gmailDom';
+import { formatBillAmount, formatBillDate } from './billCard';
+
+const CHIP_CLASS = 'bill-scanner-chip';
+
+// Row attribute recording which annotation the row's chip shows
+const ROW_ATTRIBUTE = 'data-bill-scanner-chip';
+
+// Storage keys whose changes make cached annotations stale
+const ANNOTATION_STORAGE_KEYS = ['extractedBills', 'exported_message_ids', 'processed_message_ids'];
+
+// Annotation per message ID, null when the message has no bills
+const annotationCache = new Map<string, BillAnnotation | null>();
+let lookupInFlight = false;
+
+/**
+ * Adds, updates or removes the chip of every visible mailbox row
+ */
+export function decorateInboxRows(): void {
+  const rows = getInboxRows();
+
+  const unknown = rows
+    .flatMap(row => row.messageIds)
+    .filter(id => !annotationCache.has(id));
+  if (unknown.length > 0) {
+    requestAnnotations(Array.from(new Set(unknown)));
+  }
+
+  for (const row of rows) {
+    const annotation = row.messageIds
+      .map(id => annotationCache.get(id))
+      .find((value): value is BillAnnotation => Boolean(value)) || null;
+    renderChip(row.element, annotation);
+  }
+}
+
+/**
+ * Clears cached annotations whenever a scan, export or extraction changes them
+ */
+export function watchAnnotationChanges(): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && ANNOTATION_STORAGE_KEYS.some(key => key in changes)) {
+      annotationCache.clear();
+      decorateInboxRows();
+    }
+  });
+}
+
+/**
+ * Fetches annotations for message IDs from the background, then redraws the rows
+ */
+function requestAnnotations(messageIds: string[]): void {
+  if (lookupInFlight) {
+    return;
+  }
+
+  lookupInFlight = true;
+  const message: Message = {
+    type: 'GET_BILL_ANNOTATIONS',
+    payload: { messageIds }
+  };
+
+  chrome.runtime.sendMessage(message, (response: { success: boolean; annotations?: Record<string, BillAnnotation> }) => {
+    lookupInFlight = false;
+
+    if (chrome.runtime.lastError || !response?.success) {
+      console.warn('Gmail Bill Scanner: Could not load bill annotations', chrome.runtime.lastError?.message);
+    }
+
+    // Cache misses too, so rows without bills aren't looked up again
+    for (const id of messageIds) {
+      annotationCache.set(id, response?.annotations?.[id] || null);
+    }
+
+    decorateInboxRows();
+  });
+}
+
+/**
+ * Renders the chip for a row, Gmail reuses row elements so the chip is keyed by annotation
+ */
+function renderChip(row: HTMLElement, annotation: BillAnnotation | null): void {
+  const key = annotation ? `${annotation.messageId}:${annotation.exported}:${annotation.paid}` : '';
+  const existing = row.querySelector(`.${CHIP_CLASS}`);
+
+  if (row.getAttribute(ROW_ATTRIBUTE) === key && (existing !== null) === Boolean(annotation)) {
+    return;
+  }
+
+  existing?.remove();
+  row.setAttribute(ROW_ATTRIBUTE, key);
+
+  const target = row.querySelector(ROW_SUBJECT_SELECTOR);
+  if (annotation && target) {
+    target.prepend(createChip(annotation));
+  }
+}
+
+/**
+ * Creates the chip element for a bill
+ */
+function createChip(annotation: BillAnnotation): HTMLElement {
+  const chip = document.createElement('span');
+  chip.className = CHIP_CLASS;
+
+  const status = annotation.paid ? 'Paid' : annotation.exported ? 'In sheet' : null;
+  const dueDate = formatBillDate(annotation.dueDate);
+  chip.textContent = [
+    formatBillAmount(annotation),
+    dueDate ? `due ${dueDate}` : null,
+    status
+  ].filter(Boolean).join(' · ');
+  chip.title = `${annotation.vendor || 'Bill'}${annotation.billCount > 1 ? ` (+${annotation.billCount - 1} more)` : ''} – open in Gmail Bill Scanner`;
+
+  const colors = annotation.paid
+    ? 'background-color: #e6f4ea; color: #137333;'
+    : annotation.exported
+      ? 'background-color: #e8f0fe; color: #1967d2;'
+      : 'background-color: #fef7e0; color: #b06000;';
+  chip.style.cssText = `
+    display: inline-block; margin-right: 6px; padding: 0 6px; border-radius: 10px;
+    font-size: 11px; line-height: 18px; cursor: pointer; white-space: nowrap; ${colors}
+  `;
+
+  chip.addEventListener('click', (event) => {
+    // Keep Gmail from opening the thread
+    event.preventDefault();
+    event.stopPropagation();
+
+    const message: Message = {
+      type: 'OPEN_BILL_DETAIL',
+      payload: { annotation }
+    };
+    chrome.runtime.sendMessage(message);
+  });
+
+  return chip;
+}
@@ -8,15 +8,26 @@
  */
 
 // Import types for messaging
-import { Message, ScanEmailsResponse } from '../types/Message';
+import { BillData, ExtractMessageResponse, Message, ScanEmailsResponse } from '../types/Message';
+import { MESSAGE_BODY_SELECTOR, claimElement, getOpenMessages } from './gmailDom';
+import { createButton, renderBillCard } from './billCard';
+import { decorateInboxRows, watchAnnotationChanges } from './inboxChips';
+import { decorateOpenThread } from './threadPanel';
 
-// Listen for when the page is fully loaded
-document.addEventListener('DOMContentLoaded', () => {
+// Listen for when the page is fully loaded (content scripts injected at
+// document_end can run after DOMContentLoaded has already fired)
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', startIfGmail);
+} else {
+  startIfGmail();
+}
+
+function startIfGmail() {
   // Check if we're on Gmail
   if (window.location.hostname === 'mail.google.com') {
     initializeGmailIntegration();
   }
-});
+}
 
 /**
  * Initialize the Gmail integration by:
@@ -31,6 +42,9 @@ function initializeGmailIntegration() {
   
   // Observe DOM changes to detect when emails are opened
   setupEmailObserver();
+  
+  // Refresh inbox chips when scans or exports change the bill data
+  watchAnnotationChanges();
 }
 
 /**
@@ -86,23 +100,24 @@ function addScanBillsButton() {
 }
 
 /**
- * Sets up an observer to detect when emails are opened,
- * which could be used to automatically detect bills
+ * Sets up an observer to detect when emails are opened or the
+ * mailbox list is redrawn, and add bill actions, the thread panel and chips to them
  */
 function setupEmailObserver() {
-  // Create a MutationObserver to watch for changes in the DOM
-  const observer = new MutationObserver((mutations) => {
-    mutations.forEach((mutation) => {
-      // Look for email content containers that might have been added
-      if (mutation.type === 'childList' && mutation.addedNodes.length > 0) {
-        // Check for an opened email
-        const emailContainer = document.querySelector('[role="main"] [role="listitem"]');
-        if (emailContainer) {
-          // We could analyze the email content here
-          // For now, just log that an email was opened
-          console.log('Gmail Bill Scanner: Email opened');
-        }
-      }
+  let pending = false;
+  
+  // Gmail mutates the DOM constantly, so batch the work into one pass per frame
+  const observer = new MutationObserver(() => {
+    if (pending) {
+      return;
+    }
+    
+    pending = true;
+    requestAnimationFrame(() => {
+      pending = false;
+      decorateOpenMessages();
+      decorateOpenThread(addBillToSheet);
+      decorateInboxRows();
     });
   });
   
@@ -111,6 +126,99 @@ function setupEmailObserver() {
     childList: true, 
     subtree: true 
   });
+  
+  decorateOpenMessages();
+  decorateOpenThread(addBillToSheet);
+  decorateInboxRows();
+}
+
+/**
+ * Adds an "Extract bill" button to each expanded message that doesn't have one yet
+ */
+function decorateOpenMessages() {
+  for (const { messageId, element } of getOpenMessages()) {
+    if (!claimElement(element, 'extract')) {
+      continue;
+    }
+    
+    const actions = createExtractAction(messageId);
+    const body = element.querySelector(MESSAGE_BODY_SELECTOR);
+    
+    if (body?.parentElement) {
+      body.parentElement.insertBefore(actions, body);
+    } else {
+      element.prepend(actions);
+    }
+  }
+}
+
+/**
+ * Creates the "Extract bill" button and the area its result card is shown in
+ * 
+ * @param messageId Gmail API message ID
+ * @returns Action container
+ */
+function createExtractAction(messageId: string): HTMLElement {
+  const container = document.createElement('div');
+  container.className = 'bill-scanner-extract';
+  container.style.cssText = 'margin: 8px 0;';
+  
+  const button = createButton('Extract bill');
+  const result = document.createElement('div');
+  
+  button.addEventListener('click', () => {
+    button.disabled = true;
+    button.textContent = 'Extracting...';
+    
+    const message: Message = {
+      type: 'EXTRACT_MESSAGE',
+      payload: { messageId }
+    };
+    
+    chrome.runtime.sendMessage(message, (response: ExtractMessageResponse) => {
+      button.disabled = false;
+      button.textContent = 'Extract bill';
+      
+      if (chrome.runtime.lastError || !response?.success) {
+        console.error('Error extracting bill:', chrome.runtime.lastError?.message || response?.error);
+        showNotification('Could not extract a bill from this email.');
+        return;
+      }
+      
+      result.replaceChildren(renderBillCard(response.bills || [], addBillToSheet));
+    });
+  });
+  
+  container.appendChild(button);
+  container.appendChild(result);
+  return container;
+}
+
+/**
+ * Exports a single bill to the user's sheet
+ * 
+ * @param bill Bill to export
+ * @returns Error message, or null on success
+ */
+function addBillToSheet(bill: BillData): Promise<string | null> {
+  return new Promise((resolve) => {
+    const message: Message = {
+      type: 'EXPORT_TO_SHEETS',
+      payload: { bills: [bill] }
+    };
+    
+    chrome.runtime.sendMessage(message, (response: { success: boolean; error?: string }) => {
+      if (chrome.runtime.lastError || !response?.success) {
+        const error = chrome.runtime.lastError?.message || response?.error || 'Export failed';
+        showNotification(`Could not add the bill to your sheet: ${error}`);
+        resolve(error);
+        return;
+      }
+      
+      showNotification('Bill added to your sheet.');
+      resolve(null);
+    });
+  });
 }
 
 /**
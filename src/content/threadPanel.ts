@@ -0,0 +1,330 @@
+/**
+ * Thread Panel
+ *
+ * Collapsible panel shown under the subject of the open thread, listing every
+ * bill extracted from the thread's messages and attachments. Each bill is an
+ * editable form, so a wrong amount or due date can be fixed before it's added
+ * to the sheet.
+ */
+
+import { BillData, ExtractThreadResponse, Message, RecordCorrectionResponse } from '../types/Message';
+import { getOpenThread } from './gmailDom';
+import { createButton, formatBillAmount, formatBillDate } from './billCard';
+
+const PANEL_CLASS = 'bill-scanner-thread-panel';
+
+// Storage key remembering whether the user keeps the panel expanded
+const EXPANDED_STORAGE_KEY = 'thread_panel_expanded';
+
+// Bills below this confidence are highlighted for checking
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Field names shown in conflict warnings
+const CONFLICT_FIELD_LABELS: Record<string, string> = {
+  amount: 'amount',
+  dueDate: 'due date',
+  accountNumber: 'account number'
+};
+
+// Matched pattern prefix of bills read with a template learned from corrections
+const LEARNED_PATTERN_PREFIX = 'learned-';
+
+/**
+ * Adds the panel to the open thread, replacing a panel left over from another thread
+ *
+ * @param onAddToSheet Called with the edited bill, resolves to an error message on failure
+ */
+export function decorateOpenThread(onAddToSheet: (bill: BillData) => Promise<string | null>): void {
+  const thread = getOpenThread();
+  if (!thread) {
+    return;
+  }
+
+  const container = thread.heading.parentElement || thread.heading;
+  const existing = container.parentElement?.querySelector<HTMLElement>(`.${PANEL_CLASS}`);
+
+  // Gmail reuses the thread view when moving between conversations
+  if (existing?.dataset.threadId === thread.threadId) {
+    return;
+  }
+  existing?.remove();
+
+  container.insertAdjacentElement('afterend', createPanel(thread.threadId, onAddToSheet));
+}
+
+/**
+ * Creates the collapsible panel for a thread, bills are extracted the first time it's expanded
+ */
+function createPanel(
+  threadId: string,
+  onAddToSheet: (bill: BillData) => Promise<string | null>
+): HTMLElement {
+  const panel = document.createElement('div');
+  panel.className = PANEL_CLASS;
+  panel.dataset.threadId = threadId;
+  panel.style.cssText = `
+    margin: 8px 0 8px 72px; border: 1px solid #dadce0; border-radius: 8px;
+    background-color: #f8fafd; font-size: 13px; color: #202124;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = 'display: flex; align-items: center; justify-content: space-between; padding: 8px 12px; cursor: pointer; user-select: none;';
+
+  const title = document.createElement('span');
+  title.style.fontWeight = '500';
+  title.textContent = 'Bills in this thread';
+
+  const toggle = document.createElement('span');
+  toggle.style.color = '#5f6368';
+
+  const body = document.createElement('div');
+  body.style.cssText = 'padding: 0 12px 12px;';
+
+  header.appendChild(title);
+  header.appendChild(toggle);
+  panel.appendChild(header);
+  panel.appendChild(body);
+
+  let loaded = false;
+
+  const setExpanded = (expanded: boolean) => {
+    body.style.display = expanded ? 'block' : 'none';
+    toggle.textContent = expanded ? 'Hide' : 'Show';
+
+    if (expanded && !loaded) {
+      loaded = true;
+      loadBills(threadId, body, title, onAddToSheet);
+    }
+  };
+
+  header.addEventListener('click', () => {
+    const expanded = body.style.display === 'none';
+    setExpanded(expanded);
+    chrome.storage.local.set({ [EXPANDED_STORAGE_KEY]: expanded });
+  });
+
+  setExpanded(false);
+  chrome.storage.local.get(EXPANDED_STORAGE_KEY, (data) => {
+    if (data?.[EXPANDED_STORAGE_KEY]) {
+      setExpanded(true);
+    }
+  });
+
+  return panel;
+}
+
+/**
+ * Extracts the thread's bills through the background and renders their forms
+ */
+function loadBills(
+  threadId: string,
+  body: HTMLElement,
+  title: HTMLElement,
+  onAddToSheet: (bill: BillData) => Promise<string | null>
+): void {
+  body.replaceChildren(createStatusLine('Looking for bills in this thread...'));
+
+  const message: Message = {
+    type: 'EXTRACT_THREAD',
+    payload: { threadId }
+  };
+
+  chrome.runtime.sendMessage(message, (response: ExtractThreadResponse) => {
+    if (chrome.runtime.lastError || !response?.success) {
+      const error = chrome.runtime.lastError?.message || response?.error || 'Unknown error';
+      console.error('Error extracting bills from thread:', error);
+
+      const retry = createButton('Try again');
+      retry.addEventListener('click', () => loadBills(threadId, body, title, onAddToSheet));
+      body.replaceChildren(createStatusLine(`Could not extract bills: ${error}`), retry);
+      return;
+    }
+
+    const bills = response.bills || [];
+    title.textContent = `Bills in this thread (${bills.length})`;
+
+    if (bills.length === 0) {
+      body.replaceChildren(createStatusLine('No bill found in this thread.'));
+      return;
+    }
+
+    body.replaceChildren(...bills.map(bill => createBillForm(bill, onAddToSheet)));
+  });
+}
+
+/**
+ * Creates the editable form of one bill
+ */
+function createBillForm(
+  bill: BillData,
+  onAddToSheet: (bill: BillData) => Promise<string | null>
+): HTMLElement {
+  const form = document.createElement('form');
+  form.style.cssText = 'margin-top: 8px; padding: 8px; border: 1px solid #e8eaed; border-radius: 6px; background-color: white;';
+
+  const summary = document.createElement('div');
+  summary.style.cssText = 'display: flex; justify-content: space-between; gap: 12px; margin-bottom: 6px;';
+
+  const name = document.createElement('span');
+  name.style.fontWeight = '500';
+  name.textContent = `${bill.vendor || 'Unknown vendor'} · ${formatBillAmount(bill)}`;
+
+  const confidence = document.createElement('span');
+  const lowConfidence = typeof bill.confidence === 'number' && bill.confidence < LOW_CONFIDENCE_THRESHOLD;
+  confidence.style.color = lowConfidence ? '#b06000' : '#5f6368';
+  confidence.textContent = typeof bill.confidence === 'number'
+    ? `Confidence ${Math.round(bill.confidence * 100)}%${lowConfidence ? ', please check' : ''}`
+    : 'Confidence unknown';
+
+  summary.appendChild(name);
+  summary.appendChild(confidence);
+  form.appendChild(summary);
+
+  const meta = document.createElement('div');
+  meta.style.cssText = 'color: #5f6368; margin-bottom: 8px;';
+  meta.textContent = [
+    bill.attachmentId || bill.fileName ? `From ${bill.fileName || 'PDF attachment'}` : 'From email body',
+    bill.matchedPattern ? `Pattern ${bill.matchedPattern}` : bill.extractionMethod || null
+  ].filter(Boolean).join(' · ');
+  form.appendChild(meta);
+
+  for (const conflict of bill.conflicts || []) {
+    const warning = document.createElement('div');
+    warning.style.cssText = 'color: #b06000; margin-bottom: 8px;';
+    warning.textContent = `Extractors disagree on the ${CONFLICT_FIELD_LABELS[conflict.field] || conflict.field}: ` +
+      conflict.values.map(({ value }) => formatConflictValue(conflict.field, value)).join(' or ');
+    form.appendChild(warning);
+  }
+
+  const fields = document.createElement('div');
+  fields.style.cssText = 'display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 6px 12px;';
+
+  const vendor = createField(fields, 'Vendor', 'text', bill.vendor || '');
+  const amount = createField(fields, 'Amount', 'number', bill.amount !== undefined && bill.amount !== null ? String(bill.amount) : '');
+  amount.step = '0.01';
+  const currency = createField(fields, 'Currency', 'text', bill.currency || '');
+  const dueDate = createField(fields, 'Due date', 'date', toDateInputValue(bill.dueDate));
+  const category = createField(fields, 'Category', 'text', bill.category || '');
+  form.appendChild(fields);
+
+  const actions = document.createElement('div');
+  actions.style.cssText = 'display: flex; justify-content: flex-end; margin-top: 8px;';
+  const addButton = createButton('Add to sheet', true);
+  addButton.type = 'submit';
+  actions.appendChild(addButton);
+  form.appendChild(actions);
+
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+
+    const parsedAmount = parseFloat(amount.value);
+    const edited: BillData = {
+      ...bill,
+      vendor: vendor.value.trim() || undefined,
+      amount: isNaN(parsedAmount) ? undefined : parsedAmount,
+      currency: currency.value.trim().toUpperCase() || undefined,
+      dueDate: dueDate.value || undefined,
+      category: category.value.trim() || undefined
+    };
+
+    addButton.disabled = true;
+    addButton.textContent = 'Adding...';
+
+    const error = await onAddToSheet(edited);
+    if (error) {
+      addButton.disabled = false;
+      addButton.textContent = 'Add to sheet';
+      addButton.title = error;
+    } else {
+      addButton.textContent = 'Added';
+      name.textContent = `${edited.vendor || 'Unknown vendor'} · ${formatBillAmount(edited)}`;
+      recordCorrection(bill, edited);
+    }
+  });
+
+  return form;
+}
+
+/**
+ * Formats one of the conflicting values of a field for display
+ */
+function formatConflictValue(field: string, value: string | number): string {
+  return field === 'dueDate' ? formatBillDate(String(value)) || String(value) : String(value);
+}
+
+/**
+ * Lets the background learn from a bill the user corrected, or confirmed as
+ * read by a learned template, so the sender's next bill is read correctly
+ *
+ * @param original Bill as it was extracted
+ * @param corrected Bill as submitted from the form, with the due date as YYYY-MM-DD
+ */
+function recordCorrection(original: BillData, corrected: BillData): void {
+  const changed = (['vendor', 'amount', 'currency', 'category'] as const)
+    .some(field => original[field] !== corrected[field]) ||
+    toDateInputValue(original.dueDate) !== String(corrected.dueDate || '');
+  const learned = String(original.matchedPattern || '').startsWith(LEARNED_PATTERN_PREFIX);
+
+  if (!original.emailId || (!changed && !learned)) {
+    return;
+  }
+
+  const message: Message = {
+    type: 'RECORD_CORRECTION',
+    payload: { messageId: original.emailId, original, corrected }
+  };
+
+  chrome.runtime.sendMessage(message, (response: RecordCorrectionResponse) => {
+    if (chrome.runtime.lastError || !response?.success) {
+      console.warn('Could not learn from the corrected bill:', chrome.runtime.lastError?.message || response?.error);
+    }
+  });
+}
+
+/**
+ * Adds a labelled input to a form grid
+ *
+ * @returns The input element
+ */
+function createField(parent: HTMLElement, label: string, type: string, value: string): HTMLInputElement {
+  const wrapper = document.createElement('label');
+  wrapper.style.cssText = 'display: flex; flex-direction: column; gap: 2px; color: #5f6368; font-size: 12px;';
+  wrapper.textContent = label;
+
+  const input = document.createElement('input');
+  input.type = type;
+  input.value = value;
+  input.style.cssText = 'padding: 4px 6px; border: 1px solid #dadce0; border-radius: 4px; font-size: 13px; color: #202124;';
+
+  wrapper.appendChild(input);
+  parent.appendChild(wrapper);
+  return input;
+}
+
+/**
+ * Creates a line of status text
+ */
+function createStatusLine(text: string): HTMLElement {
+  const line = document.createElement('div');
+  line.style.color = '#5f6368';
+  line.textContent = text;
+  return line;
+}
+
+/**
+ * Formats a date as the YYYY-MM-DD value of a date input, in local time
+ */
+function toDateInputValue(value?: Date | string): string {
+  if (!value) {
+    return '';
+  }
+
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    return '';
+  }
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
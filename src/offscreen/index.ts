@@ -0,0 +1,82 @@
+/**
+ * Offscreen Document
+ *
+ * Parses PDF attachments with PDF.js, and recognizes scans and images with OCR,
+ * for the service worker, which has no DOM to run them in. The background
+ * creates this document when a scan needs it.
+ */
+
+import {
+  extractBasicTextFromBase64Pdf,
+  extractPdfContentFromBase64,
+  PdfPasswordError
+} from '../services/pdf/pdfService';
+import {
+  EXTRACT_PDF_TEXT,
+  OFFSCREEN_TARGET,
+  PdfTextResponse,
+  RECOGNIZE_TEXT,
+  RecognizeTextResponse
+} from '../services/pdf/offscreenPdf';
+import { layoutToText } from '../services/pdf/pdfLayout';
+import { recognizeBase64Attachment } from '../services/ocr/ocrService';
+
+/**
+ * Extract the text and layout of a PDF with the invoice XML it may embed,
+ * falling back to basic text extraction when PDF.js can't parse it
+ */
+async function extractPdf(pdfData: string, passwords: string[]): Promise<PdfTextResponse> {
+  const content = await extractPdfContentFromBase64(pdfData, passwords);
+  if (content) {
+    const { layout, embeddedXml } = content;
+    return { success: true, text: layoutToText(layout), layout, embeddedXml: embeddedXml || undefined };
+  }
+
+  return { success: true, text: extractBasicTextFromBase64Pdf(pdfData) };
+}
+
+/**
+ * Recognize the text of a scanned PDF or an image
+ */
+async function recognizeText(data: string, mimeType: string, passwords: string[]): Promise<RecognizeTextResponse> {
+  return { success: true, result: await recognizeBase64Attachment(data, mimeType, passwords) };
+}
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message?.target !== OFFSCREEN_TARGET) {
+    return false;
+  }
+
+  if (message.type === RECOGNIZE_TEXT) {
+    recognizeText(message.payload?.data || '', message.payload?.mimeType || '', message.payload?.passwords || [])
+      .then(sendResponse)
+      .catch(error => {
+        console.error('Error recognizing text in offscreen document:', error);
+        sendResponse({
+          success: false,
+          needsPassword: error instanceof PdfPasswordError,
+          error: error instanceof Error ? error.message : 'Failed to recognize text'
+        } as RecognizeTextResponse);
+      });
+
+    return true;
+  }
+
+  if (message.type !== EXTRACT_PDF_TEXT) {
+    return false;
+  }
+
+  extractPdf(message.payload?.pdfData || '', message.payload?.passwords || [])
+    .then(sendResponse)
+    .catch(error => {
+      console.error('Error extracting PDF text in offscreen document:', error);
+      sendResponse({
+        success: false,
+        needsPassword: error instanceof PdfPasswordError,
+        error: error instanceof Error ? error.message : 'Failed to extract PDF text'
+      } as PdfTextResponse);
+    });
+
+  // Keep the channel open for the async response
+  return true;
+});
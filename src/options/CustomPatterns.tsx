@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { VendorPattern } from '../types';
+import { UserPatternsResponse } from '../types/Message';
+import { parseVendorPattern } from '../services/extraction/patterns/vendorPatterns';
+
+interface CustomPatternsProps {
+  isAuthenticated: boolean;
+  // Changed by the parent to reload patterns saved elsewhere, e.g. from the playground
+  reloadToken?: number;
+}
+
+// Starting point shown in the editor for a new pattern
+const EXAMPLE_PATTERN = {
+  vendorName: 'City Water Works',
+  emailPattern: 'billing@citywater\\.example',
+  subjectPattern: 'water bill',
+  category: 'Utilities',
+  currency: 'USD',
+  fields: {
+    amount: ['amount due:?\\s*\\$?([\\d,]+\\.\\d{2})'],
+    dueDate: ['due (?:date|by):?\\s*(\\d{1,2}/\\d{1,2}/\\d{4})'],
+    accountNumber: ['account (?:number|#):?\\s*([A-Z0-9-]+)']
+  }
+};
+
+const formatPattern = (pattern: object) => JSON.stringify(pattern, null, 2);
+
+export const CustomPatterns = ({ isAuthenticated, reloadToken }: CustomPatternsProps) => {
+  const [patterns, setPatterns] = useState<VendorPattern[]>([]);
+  const [editorText, setEditorText] = useState<string>(formatPattern(EXAMPLE_PATTERN));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const sendPatternMessage = (type: string, payload?: object) =>
+    new Promise<UserPatternsResponse>(resolve => {
+      chrome.runtime.sendMessage({ type, payload }, (response: UserPatternsResponse) => {
+        resolve(response || { success: false, error: chrome.runtime.lastError?.message || 'No response' });
+      });
+    });
+
+  // Load the user's patterns once signed in
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    sendPatternMessage('GET_USER_PATTERNS').then(response => {
+      if (response.success) {
+        setPatterns(response.patterns || []);
+      } else {
+        setErrors([response.error || 'Failed to load custom patterns']);
+      }
+    });
+  }, [isAuthenticated, reloadToken]);
+
+  const resetEditor = () => {
+    setEditingId(null);
+    setEditorText(formatPattern(EXAMPLE_PATTERN));
+    setErrors([]);
+  };
+
+  const handleEdit = (pattern: VendorPattern) => {
+    const { id, ...definition } = pattern;
+    setEditingId(id);
+    setEditorText(formatPattern(definition));
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    // Patterns are saved with the editor's ID, not one typed into the JSON
+    const { pattern, errors: parseErrors } = parseVendorPattern(editorText);
+    if (!pattern) {
+      setErrors(parseErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    const response = await sendPatternMessage('SAVE_USER_PATTERN', {
+      pattern: { ...pattern, id: editingId || '' }
+    });
+    setIsSaving(false);
+
+    if (response.success) {
+      setPatterns(response.patterns || []);
+      resetEditor();
+    } else {
+      setErrors([response.error || 'Failed to save pattern']);
+    }
+  };
+
+  const handleDelete = async (patternId: string) => {
+    const response = await sendPatternMessage('DELETE_USER_PATTERN', { patternId });
+
+    if (response.success) {
+      setPatterns(response.patterns || []);
+      if (editingId === patternId) {
+        resetEditor();
+      }
+    } else {
+      setErrors([response.error || 'Failed to delete pattern']);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl font-semibold border-b pb-2">Custom Patterns</h2>
+
+      <p className="text-sm text-muted-foreground">
+        Teach the scanner bills from vendors it doesn't know. Patterns select emails by sender or
+        subject and capture each field with the first group of a regular expression.
+      </p>
+
+      {patterns.length === 0 ? (
+        <p className="text-sm text-gray-600 italic">No custom patterns yet</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {patterns.map(pattern => (
+            <li key={pattern.id} className="p-3 flex items-center justify-between">
+              <div>
+                <p className="font-medium">{pattern.vendorName}</p>
+                <p className="text-sm text-muted-foreground">
+                  {[pattern.emailPattern && `sender /${pattern.emailPattern}/`, pattern.subjectPattern && `subject /${pattern.subjectPattern}/`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                  {pattern.category ? ` · ${pattern.category}` : ''}
+                </p>
+              </div>
+              <div className="space-x-2">
+                <button
+                  className="px-3 py-1 text-sm border rounded-md hover:bg-gray-50"
+                  onClick={() => handleEdit(pattern)}
+                >
+                  Edit
+                </button>
+                <button
+                  className="px-3 py-1 text-sm border border-red-300 text-red-600 rounded-md hover:bg-red-50"
+                  onClick={() => handleDelete(pattern.id)}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <label className="block font-medium">
+          {editingId ? 'Edit pattern' : 'New pattern'} (JSON)
+        </label>
+        <textarea
+          className="w-full h-64 p-2 border rounded-md bg-background font-mono text-sm"
+          value={editorText}
+          onChange={(e) => setEditorText(e.target.value)}
+          disabled={!isAuthenticated}
+          spellCheck={false}
+        />
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc ml-5">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <div className="space-x-2">
+          <button
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            onClick={handleSave}
+            disabled={!isAuthenticated || isSaving}
+          >
+            {isSaving ? 'Saving...' : editingId ? 'Update Pattern' : 'Save Pattern'}
+          </button>
+          {editingId && (
+            <button className="px-4 py-2 border rounded-md hover:bg-gray-50" onClick={resetEditor}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,401 @@
+import React, { useEffect, useState } from 'react';
+import { VendorPattern } from '../types';
+import { BillExtractionResult } from '../types/Bill';
+import { UserPatternsResponse } from '../types/Message';
+import { createBillExtractor } from '../services/extraction/extractorFactory';
+import { PatternBasedExtractor, PatternTrace } from '../services/extraction/strategies/patternBasedExtractor';
+import { EmailExtractionContext, PdfExtractionContext } from '../services/extraction/strategies/extractionStrategy';
+import { compileVendorPattern, draftVendorPattern, parseVendorPattern } from '../services/extraction/patterns/vendorPatterns';
+import { patternRegistry } from '../services/multilingual/patternRegistry';
+import { languageRegistry } from '../services/multilingual/languageRegistry';
+import { defaultLanguageDetector, isRankedLanguageDetector, LanguageCandidate } from '../services/multilingual/languageDetector';
+import { extractLayoutFromPdf, extractTextFromPdf } from '../services/pdf/pdfService';
+import { PdfLayout, layoutToText } from '../services/pdf/pdfLayout';
+
+interface PatternPlaygroundProps {
+  isAuthenticated: boolean;
+  onPatternSaved?: () => void;
+}
+
+interface StrategyRun {
+  strategy: string;
+  result: BillExtractionResult | null;
+}
+
+interface PlaygroundRun {
+  language: string;
+  candidates: LanguageCandidate[];
+  strategies: StrategyRun[];
+  traces: PatternTrace[];
+}
+
+// ID the draft pattern is compiled under while testing it
+const DRAFT_PATTERN_ID = 'draft';
+
+const formatPattern = (pattern: object) => JSON.stringify(pattern, null, 2);
+
+const sendPatternMessage = (type: string, payload?: object) =>
+  new Promise<UserPatternsResponse>(resolve => {
+    chrome.runtime.sendMessage({ type, payload }, (response: UserPatternsResponse) => {
+      resolve(response || { success: false, error: chrome.runtime.lastError?.message || 'No response' });
+    });
+  });
+
+export const PatternPlayground = ({ isAuthenticated, onPatternSaved }: PatternPlaygroundProps) => {
+  const [source, setSource] = useState<'email' | 'pdf'>('email');
+  const [from, setFrom] = useState<string>('');
+  const [subject, setSubject] = useState<string>('');
+  const [body, setBody] = useState<string>('');
+  const [pdfText, setPdfText] = useState<string>('');
+  const [pdfName, setPdfName] = useState<string>('');
+  // Layout of the uploaded PDF, dropped once its text is edited
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout | undefined>(undefined);
+  const [language, setLanguage] = useState<string>('auto');
+  const [isTrustedSource, setIsTrustedSource] = useState<boolean>(false);
+  const [userPatterns, setUserPatterns] = useState<VendorPattern[]>([]);
+  const [run, setRun] = useState<PlaygroundRun | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [draftText, setDraftText] = useState<string>('');
+  const [draftErrors, setDraftErrors] = useState<string[]>([]);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  // The playground runs extraction in this page, with the user's patterns loaded here too
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    sendPatternMessage('GET_USER_PATTERNS').then(response => {
+      if (response.success) {
+        setUserPatterns(response.patterns || []);
+      }
+    });
+  }, [isAuthenticated]);
+
+  const handlePdfFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    setPdfName(file.name);
+    setPdfText('Extracting text...');
+    setPdfLayout(undefined);
+    try {
+      const pdfData = new Uint8Array(await file.arrayBuffer());
+      // Without a layout, fall back to the plain text extraction
+      const layout = await extractLayoutFromPdf(pdfData.slice()).catch(() => undefined);
+      setPdfText(layout ? layoutToText(layout) : await extractTextFromPdf(pdfData));
+      setPdfLayout(layout);
+    } catch (error) {
+      setPdfText('');
+      setDraftErrors([`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`]);
+    }
+  };
+
+  const handleRun = async (withDraft: boolean) => {
+    setIsRunning(true);
+    setSaveMessage(null);
+    setDraftErrors([]);
+
+    try {
+      // createBillExtractor registers the built-in patterns
+      const billExtractor = createBillExtractor();
+      const patterns = userPatterns.map(compileVendorPattern);
+
+      if (withDraft) {
+        const { pattern, errors } = parseVendorPattern(draftText);
+        if (!pattern) {
+          setDraftErrors(errors);
+          return;
+        }
+        patterns.unshift(compileVendorPattern({ ...pattern, id: DRAFT_PATTERN_ID }));
+      }
+      patternRegistry.setUserPatterns(patterns);
+
+      const text = source === 'pdf' ? pdfText : `${subject}\n${body}`;
+      let runLanguage = language;
+      let candidates: LanguageCandidate[] = [];
+
+      if (language === 'auto') {
+        if (isRankedLanguageDetector(defaultLanguageDetector)) {
+          candidates = defaultLanguageDetector.detectWithConfidence(text).candidates;
+        }
+        runLanguage = candidates[0]?.language || defaultLanguageDetector.detect(text);
+      }
+
+      const context: EmailExtractionContext | PdfExtractionContext = source === 'pdf'
+        ? { text: pdfText, filename: pdfName || 'playground.pdf', layout: pdfLayout, language: runLanguage, isTrustedSource }
+        : { messageId: 'playground', from, subject, body, date: new Date().toISOString(), language: runLanguage, isTrustedSource };
+
+      const strategies: StrategyRun[] = [];
+      for (const strategy of billExtractor.getStrategies()) {
+        if (source === 'pdf' && !strategy.extractFromPdf) {
+          strategies.push({ strategy: strategy.name, result: null });
+          continue;
+        }
+
+        const result = source === 'pdf'
+          ? await strategy.extractFromPdf!(context as PdfExtractionContext)
+          : await strategy.extractFromEmail(context as EmailExtractionContext);
+        strategies.push({ strategy: strategy.name, result });
+      }
+
+      const traces = new PatternBasedExtractor().tracePatterns(context);
+      setRun({ language: runLanguage, candidates, strategies, traces });
+
+      // Start the draft from the pattern that worked best, keeping one being edited
+      if (!withDraft) {
+        const best = traces
+          .filter(trace => trace.bill)
+          .sort((a, b) => (b.bill?.confidence || 0) - (a.bill?.confidence || 0))[0];
+        const bestPattern = best && patternRegistry.getAllPatterns().find(pattern => pattern.id === best.patternId);
+        setDraftText(formatPattern(draftVendorPattern(from, bestPattern, best?.captures)));
+      }
+    } catch (error) {
+      setDraftErrors([`Extraction failed: ${error instanceof Error ? error.message : error}`]);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    const { pattern, errors } = parseVendorPattern(draftText);
+    if (!pattern) {
+      setDraftErrors(errors);
+      return;
+    }
+
+    const response = await sendPatternMessage('SAVE_USER_PATTERN', { pattern: { ...pattern, id: '' } });
+    if (response.success) {
+      setUserPatterns(response.patterns || []);
+      setDraftErrors([]);
+      setSaveMessage(`Saved "${pattern.vendorName}" to your custom patterns`);
+      onPatternSaved?.();
+    } else {
+      setDraftErrors([response.error || 'Failed to save pattern']);
+    }
+  };
+
+  const matchedTraces = run?.traces.filter(trace => trace.selectedBy.length > 0 || trace.captures.length > 0) || [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold border-b pb-2">Pattern Playground</h2>
+        <p className="text-sm text-muted-foreground">
+          Paste an email or drop in a PDF to see what every extraction strategy finds in it,
+          which patterns matched and what each of their regular expressions captured.
+        </p>
+
+        <div className="flex space-x-4">
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={source === 'email'} onChange={() => setSource('email')} />
+            <span>Email</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={source === 'pdf'} onChange={() => setSource('pdf')} />
+            <span>PDF</span>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block font-medium">Sender</label>
+          <input
+            type="text"
+            className="w-full p-2 border rounded-md bg-background"
+            placeholder="e.g., Billing <billing@example.com>"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+
+        {source === 'email' ? (
+          <>
+            <div className="space-y-2">
+              <label className="block font-medium">Subject</label>
+              <input
+                type="text"
+                className="w-full p-2 border rounded-md bg-background"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="block font-medium">Body</label>
+              <textarea
+                className="w-full h-48 p-2 border rounded-md bg-background font-mono text-sm"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <div
+              className="p-6 border-2 border-dashed rounded-md text-center text-sm text-muted-foreground"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                handlePdfFile(e.dataTransfer.files[0]);
+              }}
+            >
+              <p>Drop a PDF here or</p>
+              <input
+                type="file"
+                accept="application/pdf"
+                className="mt-2"
+                onChange={(e) => handlePdfFile((e.target as HTMLInputElement).files?.[0])}
+              />
+            </div>
+            <label className="block font-medium">Extracted text{pdfName ? ` (${pdfName})` : ''}</label>
+            <textarea
+              className="w-full h-48 p-2 border rounded-md bg-background font-mono text-sm"
+              value={pdfText}
+              onChange={(e) => {
+                setPdfText(e.target.value);
+                setPdfLayout(undefined);
+              }}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center space-x-4">
+          <select
+            className="p-2 border rounded-md bg-background"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+          >
+            <option value="auto">Detect language</option>
+            {languageRegistry.getAllLanguages().map(definition => (
+              <option key={definition.code} value={definition.code}>{definition.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={isTrustedSource}
+              onChange={(e) => setIsTrustedSource(Boolean(e.target.checked))}
+            />
+            <span>Trusted source</span>
+          </label>
+          <button
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            onClick={() => handleRun(false)}
+            disabled={isRunning}
+          >
+            {isRunning ? 'Running...' : 'Run Extraction'}
+          </button>
+        </div>
+      </section>
+
+      {run && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold border-b pb-2">Results</h2>
+
+          <p className="text-sm">
+            Language: <span className="font-medium">{languageRegistry.getLanguage(run.language)?.name || run.language}</span>
+            {run.candidates.length > 0 && (
+              <span className="text-muted-foreground">
+                {' '}({run.candidates.slice(0, 3).map(c => `${c.language} ${Math.round(c.probability * 100)}%`).join(', ')})
+              </span>
+            )}
+          </p>
+
+          {run.strategies.map(({ strategy, result }) => (
+            <div key={strategy} className="border rounded p-3 bg-gray-50 space-y-2">
+              <p className="font-medium">
+                {strategy}:{' '}
+                {!result
+                  ? 'does not support PDFs'
+                  : result.success
+                    ? `${result.bills.length} bill(s), confidence ${Math.round(result.confidence * 100)}%`
+                    : `no bills${result.error ? ` (${result.error})` : ''}`}
+              </p>
+              {result?.bills.map(bill => (
+                <pre key={bill.id} className="text-xs bg-white p-2 border rounded overflow-x-auto">
+                  {formatPattern(bill)}
+                </pre>
+              ))}
+            </div>
+          ))}
+
+          <h3 className="font-semibold">Patterns</h3>
+          <p className="text-sm text-muted-foreground">
+            {matchedTraces.length} of {run.traces.length} {languageRegistry.getLanguage(run.language)?.name || run.language} patterns
+            were selected or captured something
+          </p>
+
+          {matchedTraces.map(trace => (
+            <div key={trace.patternId} className="border rounded p-3 space-y-2">
+              <p className="font-medium">
+                {trace.patternName} <span className="text-xs text-muted-foreground">{trace.patternId}</span>
+              </p>
+              <p className="text-sm">
+                {trace.selectedBy.length > 0
+                  ? `Selected by ${trace.selectedBy.join(', ')}`
+                  : 'Not selected'}
+              </p>
+              {trace.captures.length > 0 && (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="pr-2">Field</th>
+                      <th className="pr-2">Groups</th>
+                      <th className="pr-2">Value</th>
+                      <th>Regex</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trace.captures.map(capture => (
+                      <tr key={`${capture.field}-${capture.regex}`} className="align-top">
+                        <td className="pr-2 font-medium">{capture.field}</td>
+                        <td className="pr-2 font-mono">{capture.groups.map(group => JSON.stringify(group)).join(' · ')}</td>
+                        <td className="pr-2">{capture.value === undefined ? 'unparsed' : String(capture.value)}</td>
+                        <td className="font-mono break-all">/{capture.regex}/</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+
+          <h3 className="font-semibold">Custom pattern</h3>
+          <p className="text-sm text-muted-foreground">
+            A draft pattern for this sender, built from the regular expressions that captured values.
+            Test it against the input above and save it to your custom patterns once it works.
+          </p>
+          <textarea
+            className="w-full h-56 p-2 border rounded-md bg-background font-mono text-sm"
+            value={draftText}
+            onChange={(e) => setDraftText(e.target.value)}
+            spellCheck={false}
+          />
+          {draftErrors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc ml-5">
+              {draftErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+          {saveMessage && <p className="text-sm text-green-700">{saveMessage}</p>}
+          <div className="space-x-2">
+            <button
+              className="px-4 py-2 bg-gray-200 text-gray-800 border border-gray-300 rounded-md hover:bg-gray-300 disabled:opacity-50"
+              onClick={() => handleRun(true)}
+              disabled={isRunning}
+            >
+              Test Draft
+            </button>
+            <button
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              onClick={handleSaveDraft}
+              disabled={!isAuthenticated}
+            >
+              Save to Custom Patterns
+            </button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
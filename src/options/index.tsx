@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import * as ReactDOM from 'react-dom/client';
 import { supabase, syncAuthState, setupAuthListener } from '../services/supabase/client';
+import { getAccessTokenForScopes } from '../services/auth/googleAuth';
+import { DEFAULT_BILL_LABEL, getBillLabelNames } from '../services/gmail/gmailLabels';
+import { GMAIL_MODIFY_SCOPE } from '../config/constants';
+import { CustomPatterns } from './CustomPatterns';
+import { PatternPlayground } from './PatternPlayground';
 import "../globals.css";
 
 // OAuth scopes definition
@@ -26,7 +31,7 @@ const googleOAuthScopes: OAuthScope[] = [
 ];
 
 export const OptionsPageContent = () => {
-  const [activeTab, setActiveTab] = useState<'settings' | 'account'>('account');
+  const [activeTab, setActiveTab] = useState<'settings' | 'account' | 'playground'>('account');
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [userEmail, setUserEmail] = useState<string>('');
@@ -38,6 +43,10 @@ export const OptionsPageContent = () => {
   const [grantLoading, setGrantLoading] = useState<boolean>(false);
   const [oauthScopes, setOauthScopes] = useState<OAuthScope[]>(googleOAuthScopes);
   const [oauthError, setOauthError] = useState<string | null>(null);
+  const [applyLabels, setApplyLabels] = useState<boolean>(false);
+  const [labelName, setLabelName] = useState<string>(DEFAULT_BILL_LABEL);
+  const [labelError, setLabelError] = useState<string | null>(null);
+  const [patternsVersion, setPatternsVersion] = useState<number>(0);
 
   // Load authentication status on mount
   useEffect(() => {
@@ -104,6 +113,37 @@ export const OptionsPageContent = () => {
     setupAuthListener();
   }, []);
 
+  // Load labelling settings from Chrome sync storage
+  useEffect(() => {
+    chrome.storage.sync.get({ applyLabels: false, labelName: DEFAULT_BILL_LABEL }, (stored) => {
+      setApplyLabels(Boolean(stored.applyLabels));
+      setLabelName(stored.labelName || DEFAULT_BILL_LABEL);
+    });
+  }, []);
+
+  // Toggle labelling, asking for the gmail.modify scope when it is switched on
+  const handleApplyLabelsChange = async (enabled: boolean) => {
+    setLabelError(null);
+    
+    if (enabled) {
+      const token = await getAccessTokenForScopes([GMAIL_MODIFY_SCOPE], true);
+      if (!token) {
+        setLabelError('Permission to modify Gmail messages is needed to apply labels.');
+        return;
+      }
+    }
+    
+    setApplyLabels(enabled);
+    await chrome.storage.sync.set({ applyLabels: enabled });
+  };
+
+  // Save the label name once editing ends, not on every keystroke
+  const handleLabelNameBlur = async () => {
+    const savedName = labelName.trim() || DEFAULT_BILL_LABEL;
+    setLabelName(savedName);
+    await chrome.storage.sync.set({ labelName: savedName });
+  };
+
   // Handle granting access to Google account
   const handleGrantAccess = async () => {
     try {
@@ -258,6 +298,16 @@ export const OptionsPageContent = () => {
           >
             Account
           </button>
+          <button
+            onClick={() => setActiveTab('playground')}
+            className={`px-4 py-2 -mb-px ${
+              activeTab === 'playground'
+                ? 'border-b-2 border-blue-600 font-medium text-blue-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Playground
+          </button>
         </div>
       </div>
 
@@ -438,6 +488,8 @@ export const OptionsPageContent = () => {
                   id="applyLabels"
                   name="applyLabels"
                   className="h-4 w-4"
+                  checked={applyLabels}
+                  onChange={(e) => handleApplyLabelsChange(Boolean(e.target.checked))}
                   disabled={!isAuthenticated}
                 />
                 <label htmlFor="applyLabels" className="font-medium">
@@ -451,12 +503,20 @@ export const OptionsPageContent = () => {
                   type="text"
                   name="labelName"
                   className="w-full p-2 border rounded-md bg-background"
-                  placeholder="e.g., Bills/Processed"
-                  disabled={!isAuthenticated}
+                  placeholder="e.g., Bills"
+                  value={labelName}
+                  onChange={(e) => setLabelName(e.target.value)}
+                  onBlur={handleLabelNameBlur}
+                  disabled={!isAuthenticated || !applyLabels}
                 />
                 <p className="text-sm text-muted-foreground">
-                  Gmail will create this label if it doesn't exist
+                  Gmail will create this label if it doesn't exist, along with{' '}
+                  {getBillLabelNames(labelName).paid} and {getBillLabelNames(labelName).needs_review}{' '}
+                  for paid bills and extractions that need a second look
                 </p>
+                {labelError && (
+                  <p className="text-sm text-red-600">{labelError}</p>
+                )}
               </div>
             </section>
 
@@ -478,11 +538,20 @@ export const OptionsPageContent = () => {
               </div>
             </section>
 
+            <CustomPatterns isAuthenticated={isAuthenticated} reloadToken={patternsVersion} />
+
             <div className="pt-4 border-t flex items-center justify-between">
               <p className="text-sm text-gray-600 italic">Settings are saved automatically</p>
             </div>
           </div>
         )}
+
+        {activeTab === 'playground' && (
+          <PatternPlayground
+            isAuthenticated={isAuthenticated}
+            onPatternSaved={() => setPatternsVersion(version => version + 1)}
+          />
+        )}
       </main>
       
       <footer className="mt-8 pt-4 border-t text-center text-sm text-muted-foreground">
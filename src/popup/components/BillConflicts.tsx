@@ -0,0 +1,49 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { BillFieldConflict } from '../../types/Bill';
+
+interface BillConflictsProps {
+  conflicts?: BillFieldConflict[];
+}
+
+// Readable names of the fields the extraction strategies can disagree on
+const CONFLICT_FIELD_LABELS: Record<string, string> = {
+  amount: 'amount',
+  dueDate: 'due date',
+  accountNumber: 'account number'
+};
+
+/**
+ * Lists the fields the extraction strategies disagreed on, so the user can
+ * check them before relying on the bill
+ */
+const BillConflicts = ({ conflicts }: BillConflictsProps) => {
+  if (!conflicts || conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {conflicts.map(conflict => (
+        <div key={conflict.field} className="flex items-start text-xs text-amber-700">
+          <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+          <span>
+            Extractors disagree on the {CONFLICT_FIELD_LABELS[conflict.field] || conflict.field}:{' '}
+            {conflict.values.map(({ value }) => formatConflictValue(conflict.field, value)).join(' or ')}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+function formatConflictValue(field: string, value: string | number): string {
+  if (field === 'dueDate') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+  }
+
+  return String(value);
+}
+
+export default BillConflicts;
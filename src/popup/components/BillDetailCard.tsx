@@ -0,0 +1,80 @@
+import React from 'react';
+import { X, FileSpreadsheet, Check, Mail } from 'lucide-react';
+import { BillAnnotation } from '../../services/scan/billAnnotations';
+import BillConflicts from './BillConflicts';
+
+interface BillDetailCardProps {
+  bill: BillAnnotation;
+  onClose: () => void;
+}
+
+/**
+ * Shows a bill opened from its chip in the Gmail inbox
+ */
+const BillDetailCard = ({
+  bill,
+  onClose
+}: BillDetailCardProps) => {
+  const amount = bill.amount === undefined || bill.amount === null
+    ? 'Unknown amount'
+    : formatAmount(bill.amount, bill.currency);
+  const dueDate = bill.dueDate && !isNaN(new Date(bill.dueDate).getTime())
+    ? new Date(bill.dueDate).toLocaleDateString()
+    : null;
+
+  return (
+    <div className="mb-3 p-3 bg-white rounded-lg border border-blue-200">
+      <div className="flex justify-between items-start mb-2">
+        <div>
+          <div className="text-sm font-medium text-gray-900">{bill.vendor || 'Unknown vendor'}</div>
+          <div className="text-lg font-bold text-gray-900">{amount}</div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X size={14} />
+        </button>
+      </div>
+
+      {dueDate && (
+        <div className="text-xs text-gray-600 mb-1">Due {dueDate}</div>
+      )}
+      {bill.billCount > 1 && (
+        <div className="text-xs text-gray-600 mb-1">{bill.billCount} bills found in this email</div>
+      )}
+      <BillConflicts conflicts={bill.conflicts} />
+
+      <div className="flex flex-wrap gap-1.5 mt-2">
+        {bill.paid && (
+          <span className="inline-flex items-center text-xs px-2 py-0.5 bg-green-100 text-green-800 rounded-full">
+            <Check size={12} className="mr-1" /> Paid
+          </span>
+        )}
+        <span className={`inline-flex items-center text-xs px-2 py-0.5 rounded-full ${bill.exported ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'}`}>
+          <FileSpreadsheet size={12} className="mr-1" /> {bill.exported ? 'Exported to Sheets' : 'Not exported yet'}
+        </span>
+        <a
+          href={`https://mail.google.com/mail/u/0/#all/${bill.messageId}`}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex items-center text-xs px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200"
+        >
+          <Mail size={12} className="mr-1" /> Open email
+        </a>
+      </div>
+    </div>
+  );
+};
+
+function formatAmount(amount: number, currency?: string): string {
+  if (!currency) {
+    return amount.toLocaleString();
+  }
+
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch (error) {
+    // Fallback if currency code is invalid
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+}
+
+export default BillDetailCard;
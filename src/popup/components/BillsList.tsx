@@ -1,5 +1,6 @@
 import React from 'react';
 import { Bill } from '../../types/Bill';
+import BillConflicts from './BillConflicts';
 
 interface BillsListProps {
   bills: {
@@ -90,6 +91,8 @@ const BillsList: React.FC<BillsListProps> = ({ bills, loading }) => {
                   </div>
                 )}
                 
+                <BillConflicts conflicts={item.bill.conflicts} />
+                
                 <div className="bill-subject text-xs text-gray-500 mt-2 truncate">
                   {item.emailSubject}
                 </div>
@@ -7,6 +7,7 @@ import { Settings as MessageSettings } from '../../types/Message';
 import { useSettings } from '../hooks/useSettings';
 import { getUserSettingsWithDefaults } from '../../services/settings';
 import { resolveUserIdentity } from '../../services/identity/userIdentityService';
+import { languageRegistry } from '../../services/multilingual/languageRegistry';
 
 interface InitialScanButtonProps {
   userId: string | null;
@@ -149,8 +150,8 @@ const InitialScanButton = ({
         autoExportToSheets: false,
         scheduleEnabled: settings.scheduleEnabled || false,
         scheduleFrequency: settings.scheduleFrequency || 'weekly',
-        scheduleDayOfWeek: 'monday',
-        scheduleDayOfMonth: '1',
+        scheduleDayOfWeek: settings.scheduleDayOfWeek || 'monday',
+        scheduleDayOfMonth: settings.scheduleDayOfMonth || '1',
         scheduleTime: settings.scheduleTime || '09:00',
         runInitialScan: true,
         maxResults: settings.maxResults || 20,
@@ -196,11 +197,8 @@ const InitialScanButton = ({
     variant === 'dashboard' ? 'Run First Scan' : 'Run Initial Scan';
   
   // Language info for the helper text
-  const languageInfo = settings.inputLanguage === 'hu' ? 
-    ' in Hungarian' : 
-    settings.inputLanguage === 'en' ? 
-    ' in English' : 
-    '';
+  const languageName = languageRegistry.getLanguage(settings.inputLanguage)?.name;
+  const languageInfo = languageName ? ` in ${languageName}` : '';
   
   // Optional helper text for schedule variant
   const helperText = variant === 'schedule' 
@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Lock, X } from 'lucide-react';
+import CollapsibleSection from './CollapsibleSection';
+import {
+  PdfPasswordRequest,
+  PdfPasswordRequestsResponse,
+  PdfPasswordScope,
+  ResolvePdfPasswordResponse
+} from '../../types/Message';
+
+interface PasswordRequestItemProps {
+  request: PdfPasswordRequest;
+  onResolved: () => void;
+}
+
+const PasswordRequestItem = ({ request, onResolved }: PasswordRequestItemProps) => {
+  const [password, setPassword] = useState('');
+  const [scope, setScope] = useState<PdfPasswordScope>('sender');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response: ResolvePdfPasswordResponse = await chrome.runtime.sendMessage({
+        type: 'RESOLVE_PDF_PASSWORD',
+        payload: {
+          messageId: request.messageId,
+          attachmentId: request.attachmentId,
+          password,
+          scope
+        }
+      });
+
+      if (response?.success) {
+        onResolved();
+      } else {
+        setError(response?.error || 'Could not open the PDF');
+      }
+    } catch (unlockError) {
+      console.error('PdfPasswordRequests: Error resolving password:', unlockError);
+      setError('Could not open the PDF');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'DISMISS_PDF_PASSWORD_REQUEST',
+        payload: { messageId: request.messageId, attachmentId: request.attachmentId }
+      });
+      onResolved();
+    } catch (dismissError) {
+      console.error('PdfPasswordRequests: Error dismissing request:', dismissError);
+    }
+  };
+
+  return (
+    <div className="p-2 bg-white rounded-lg border border-gray-200">
+      <div className="flex justify-between items-start mb-1.5">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-gray-900 truncate">{request.fileName}</div>
+          <div className="text-xs text-gray-500 truncate">{request.subject || request.from}</div>
+        </div>
+        <button
+          onClick={handleDismiss}
+          className="text-gray-400 hover:text-gray-600 ml-2"
+          aria-label="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex gap-1.5">
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && password && !busy && handleUnlock()}
+          placeholder="Customer ID, birth date..."
+          className="flex-1 min-w-0 text-sm px-2 py-1 border border-gray-300 rounded"
+        />
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as PdfPasswordScope)}
+          className="text-xs px-1 py-1 border border-gray-300 rounded"
+          title="Try this password on later PDFs of"
+        >
+          <option value="sender">This sender</option>
+          <option value="domain">Whole domain</option>
+        </select>
+        <button
+          onClick={handleUnlock}
+          disabled={!password || busy}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm px-2 py-1 rounded flex items-center"
+        >
+          <Lock size={12} className="mr-1" />
+          {busy ? 'Opening...' : 'Unlock'}
+        </button>
+      </div>
+      {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+    </div>
+  );
+};
+
+/**
+ * Encrypted PDF attachments no stored password opened, the user unlocks them
+ * here and the password is kept for the sender's later PDFs
+ */
+const PdfPasswordRequests = () => {
+  const [requests, setRequests] = useState<PdfPasswordRequest[]>([]);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const response: PdfPasswordRequestsResponse = await chrome.runtime.sendMessage({
+        type: 'GET_PDF_PASSWORD_REQUESTS'
+      });
+      if (response?.success) {
+        setRequests(response.requests || []);
+      }
+    } catch (error) {
+      console.error('PdfPasswordRequests: Error loading requests:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <CollapsibleSection title={`Password Protected PDFs (${requests.length})`} defaultOpen={true}>
+      <div className="space-y-1.5">
+        {requests.map(request => (
+          <PasswordRequestItem
+            key={`${request.messageId}-${request.attachmentId}`}
+            request={request}
+            onResolved={loadRequests}
+          />
+        ))}
+      </div>
+    </CollapsibleSection>
+  );
+};
+
+export default PdfPasswordRequests;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ScanProgressSnapshot } from '../../services/scan/scanProgress';
+
+interface ScanProgressBarProps {
+  progress: ScanProgressSnapshot;
+  message: string;
+}
+
+const ScanProgressBar = ({
+  progress,
+  message
+}: ScanProgressBarProps) => {
+  const percent = progress.total > 0
+    ? Math.round(((progress.current - 1) / progress.total) * 100)
+    : 0;
+
+  return (
+    <div className="p-2 bg-white rounded-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-1.5">
+        <div className="text-sm font-medium text-gray-900">{message}</div>
+        <div className="text-xs text-gray-500">{percent}%</div>
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-600 transition-all"
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+      <div className="text-xs text-gray-500 mt-1.5">
+        {progress.billsFound} bills found, {progress.errors} errors
+      </div>
+    </div>
+  );
+};
+
+export default ScanProgressBar;
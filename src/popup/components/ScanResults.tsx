@@ -1,5 +1,6 @@
 import React from 'react';
 import { BillData, BillFieldConfig } from '../../types/Message';
+import BillConflicts from './BillConflicts';
 
 interface ScanResultsProps {
   results: BillData[];
@@ -54,6 +55,8 @@ const ScanResults = ({ results, billFields }: ScanResultsProps) => {
                 <span className="text-gray-900 italic">{bill.emailId ? 'Email' : 'Attachment'}</span>
               </div>
             </div>
+            
+            <BillConflicts conflicts={bill.conflicts} />
           </div>
         ))}
       </div>
@@ -1,7 +1,9 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { ChangeEvent } from 'react';
 import { RefreshCw } from 'lucide-react';
 import CollapsibleSection from '../CollapsibleSection';
+import { splitDateRangeByMonth } from '../../../services/gmailSearchBuilder';
+import { ScanEmailsResponse } from '../../../types/Message';
 
 interface ManualScanSectionProps {
   userId: string | null;
@@ -9,13 +11,26 @@ interface ManualScanSectionProps {
   updateSettings: (settings: any) => void;
 }
 
+interface BackfillProgress {
+  current: number;
+  total: number;
+  startDate: string;
+  endDate: string;
+}
+
+interface BackfillSummary {
+  months: number;
+  processed: number;
+  billsFound: number;
+  skipped: number;
+  stopped: boolean;
+}
+
 const ManualScanSection = ({
   userId,
   settings,
   updateSettings
 }: ManualScanSectionProps) => {
-  const [isScanning, setIsScanning] = useState<boolean>(false);
-
   // Helper function to get default from date (30 days ago)
   const getDefaultFromDate = (): string => {
     const date = new Date();
@@ -28,43 +43,86 @@ const ManualScanSection = ({
     return new Date().toISOString().split('T')[0];
   };
 
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [fromDate, setFromDate] = useState<string>(getDefaultFromDate);
+  const [toDate, setToDate] = useState<string>(getCurrentDate);
+  const [progress, setProgress] = useState<BackfillProgress | null>(null);
+  const [summary, setSummary] = useState<BackfillSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequestedRef = useRef<boolean>(false);
+
   // Handler for max results change
   const handleChangeMaxResults = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value) || 50;
     updateSettings({ maxResults: value });
   }, [updateSettings]);
 
-  // Handler for running a manual scan
-  const handleRunInitialScan = useCallback(async () => {
+  // Handler for running a backfill, one month-sized scan at a time
+  const handleRunBackfill = useCallback(async () => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      setError('Choose a start date on or before the end date.');
+      return;
+    }
+
+    const chunks = splitDateRangeByMonth({ startDate: fromDate, endDate: toDate });
+    const totals: BackfillSummary = { months: 0, processed: 0, billsFound: 0, skipped: 0, stopped: false };
+
     try {
       setIsScanning(true);
-      
-      // Get date inputs with proper type assertions
-      const fromDateInput = document.querySelector('input[type="date"]:first-of-type') as HTMLInputElement | null;
-      const toDateInput = document.querySelector('input[type="date"]:last-of-type') as HTMLInputElement | null;
-      
-      // Send message to background script to run a scan
-      const response = await chrome.runtime.sendMessage({ 
-        type: 'RUN_MANUAL_SCAN',
-        payload: {
-          maxResults: settings.maxResults,
-          fromDate: fromDateInput?.value || getDefaultFromDate(),
-          toDate: toDateInput?.value || getCurrentDate()
+      setError(null);
+      setSummary(null);
+      stopRequestedRef.current = false;
+
+      for (let i = 0; i < chunks.length; i++) {
+        if (stopRequestedRef.current) {
+          totals.stopped = true;
+          break;
+        }
+
+        const chunk = chunks[i];
+        setProgress({ current: i + 1, total: chunks.length, ...chunk });
+
+        const response: ScanEmailsResponse = await chrome.runtime.sendMessage({
+          type: 'SCAN_EMAILS',
+          payload: {
+            maxResults: settings.maxResults,
+            startDate: chunk.startDate,
+            endDate: chunk.endDate
+          }
+        });
+
+        if (!response?.success) {
+          throw new Error(response?.error || `Scan failed for ${chunk.startDate} – ${chunk.endDate}`);
+        }
+
+        totals.months++;
+        totals.processed += response.stats?.processed || 0;
+        totals.billsFound += response.stats?.billsFound || 0;
+        totals.skipped += response.skipped || 0;
+
+        // A paused or stopped scan ends the backfill, later months can be run again
+        if (response.paused || response.cancelled) {
+          totals.stopped = true;
+          break;
         }
-      });
-      
-      if (response && response.success) {
-        alert(`Scan complete. Processed ${response.processed || 0} emails.`);
-      } else {
-        throw new Error(response?.error || 'Unknown error occurred during scan');
       }
+
+      setSummary(totals);
     } catch (error) {
-      console.error('Error running manual scan:', error);
-      alert(`Failed to run scan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error running backfill scan:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error occurred during scan');
+      if (totals.months > 0) {
+        setSummary({ ...totals, stopped: true });
+      }
     } finally {
       setIsScanning(false);
+      setProgress(null);
     }
-  }, [settings.maxResults]);
+  }, [fromDate, toDate, settings.maxResults]);
+
+  const monthCount = fromDate && toDate && fromDate <= toDate
+    ? splitDateRangeByMonth({ startDate: fromDate, endDate: toDate }).length
+    : 0;
 
   return (
     <CollapsibleSection title="Manual Scan" defaultOpen={true}>
@@ -77,7 +135,10 @@ const ManualScanSection = ({
               <input
                 type="date"
                 className="w-full p-1.5 border border-gray-300 rounded text-sm"
-                defaultValue={getDefaultFromDate()}
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => setFromDate(e.target.value)}
+                disabled={isScanning}
               />
             </div>
             <div className="flex-1">
@@ -85,16 +146,25 @@ const ManualScanSection = ({
               <input
                 type="date"
                 className="w-full p-1.5 border border-gray-300 rounded text-sm"
-                defaultValue={getCurrentDate()}
+                value={toDate}
+                min={fromDate || undefined}
+                max={getCurrentDate()}
+                onChange={(e) => setToDate(e.target.value)}
+                disabled={isScanning}
               />
             </div>
           </div>
+          {monthCount > 1 && (
+            <div className="text-xs text-gray-500 mt-1.5">
+              Scanned in {monthCount} monthly chunks, oldest first
+            </div>
+          )}
         </div>
-        
+
         <div className="flex items-center justify-between p-2 bg-white rounded-lg border border-gray-200">
           <div>
             <div className="text-sm font-medium text-gray-900">Max results:</div>
-            <div className="text-xs text-gray-500">Limit emails scanned</div>
+            <div className="text-xs text-gray-500">Limit emails scanned per month</div>
           </div>
           <input
             type="number"
@@ -105,18 +175,45 @@ const ManualScanSection = ({
             max="100"
           />
         </div>
-        
-        <button 
+
+        {progress && (
+          <div className="text-xs text-gray-600 p-2 bg-blue-50 rounded-lg">
+            Scanning month {progress.current} of {progress.total} ({progress.startDate} – {progress.endDate})
+          </div>
+        )}
+
+        {summary && (
+          <div className="text-xs text-gray-700 p-2 bg-green-50 rounded-lg">
+            {summary.stopped ? 'Backfill stopped' : 'Backfill complete'} after {summary.months} month{summary.months === 1 ? '' : 's'}:
+            {' '}processed {summary.processed} emails, found {summary.billsFound} bills
+            {summary.skipped > 0 ? `, skipped ${summary.skipped} already processed` : ''}.
+          </div>
+        )}
+
+        {error && (
+          <div className="text-xs text-red-600 p-2 bg-red-50 rounded-lg">{error}</div>
+        )}
+
+        <button
           className="w-full mt-2 bg-blue-100 hover:bg-blue-200 text-blue-800 py-2 px-3 rounded-lg flex items-center justify-center text-sm font-medium transition-colors"
-          onClick={handleRunInitialScan}
-          disabled={isScanning}
+          onClick={handleRunBackfill}
+          disabled={isScanning || !userId}
         >
           <RefreshCw size={14} className={`mr-1.5 ${isScanning ? 'animate-spin' : ''}`} />
           {isScanning ? 'Scanning...' : 'Run Scan Now'}
         </button>
+
+        {isScanning && progress && progress.current < progress.total && (
+          <button
+            className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 py-1.5 px-3 rounded-lg text-xs font-medium transition-colors"
+            onClick={() => { stopRequestedRef.current = true; }}
+          >
+            Stop after this month
+          </button>
+        )}
       </div>
     </CollapsibleSection>
   );
 };
 
-export default ManualScanSection; 
\ No newline at end of file
+export default ManualScanSection;
@@ -3,6 +3,7 @@ import { ChangeEvent } from 'react';
 import CollapsibleSection from '../CollapsibleSection';
 import SettingsToggle from '../SettingsToggle';
 import { useSettingsApi } from '../../hooks/settings/useSettingsApi';
+import { languageRegistry } from '../../../services/multilingual/languageRegistry';
 
 interface ProcessingOptionsSectionProps {
   userId: string | null;
@@ -226,8 +227,9 @@ const ProcessingOptionsSection = ({
             onChange={handleChangeInputLanguage}
           >
             <option value="auto">Auto-detect</option>
-            <option value="en">English</option>
-            <option value="hu">Hungarian</option>
+            {languageRegistry.getAllLanguages().map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
           </select>
         </div>
         
@@ -81,6 +81,8 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
           const needsUpdate = 
             currentSettings.scheduleEnabled !== Boolean(userSettings.schedule_enabled) ||
             currentSettings.scheduleFrequency !== userSettings.schedule_frequency ||
+            currentSettings.scheduleDayOfWeek !== userSettings.schedule_day_of_week ||
+            currentSettings.scheduleDayOfMonth !== userSettings.schedule_day_of_month ||
             currentSettings.scheduleTime !== userSettings.schedule_time ||
             currentSettings.searchDays !== userSettings.search_days;
             
@@ -89,6 +91,8 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
             const settingsUpdate = {
               scheduleEnabled: Boolean(userSettings.schedule_enabled), // Ensure boolean type
               scheduleFrequency: userSettings.schedule_frequency || 'weekly',
+              scheduleDayOfWeek: userSettings.schedule_day_of_week || 'monday',
+              scheduleDayOfMonth: userSettings.schedule_day_of_month || '1',
               scheduleTime: userSettings.schedule_time || '09:00',
               searchDays: userSettings.search_days || 30  // Add this to ensure searchDays is updated
             };
@@ -155,6 +159,16 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
     return isEnabled;
   }, [settings.scheduleEnabled]);
 
+  // Ask the background worker to recompute the scheduled scan alarm
+  const rescheduleScan = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'UPDATE_SCAN_SCHEDULE' });
+      console.log('ScheduleSection: Reschedule response:', response);
+    } catch (error) {
+      console.error('ScheduleSection: Error rescheduling scan:', error);
+    }
+  }, []);
+
   const handleToggleScheduleEnabled = useCallback(async (checked: boolean) => {
     console.log(`ScheduleSection: Toggle schedule enabled to ${checked}`);
     
@@ -170,9 +184,11 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
       if (!success) {
         console.warn('ScheduleSection: Failed to update schedule_enabled in Supabase, reverting UI state');
         updateSettings({ scheduleEnabled: !checked });
+      } else {
+        rescheduleScan();
       }
     }
-  }, [userId, updateSettings, updateSetting]);
+  }, [userId, updateSettings, updateSetting, rescheduleScan]);
 
   const handleChangeScheduleFrequency = useCallback(async (e: ChangeEvent<HTMLSelectElement>) => {
     // Update UI state first for responsive feel
@@ -181,8 +197,31 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
     // Update in Supabase if we have a user ID
     if (userId) {
       await updateSetting('schedule_frequency', e.target.value);
+      rescheduleScan();
+    }
+  }, [userId, updateSettings, updateSetting, rescheduleScan]);
+  
+  const handleChangeScheduleDayOfWeek = useCallback(async (e: ChangeEvent<HTMLSelectElement>) => {
+    // Update UI state first for responsive feel
+    updateSettings({ scheduleDayOfWeek: e.target.value });
+    
+    // Update in Supabase if we have a user ID
+    if (userId) {
+      await updateSetting('schedule_day_of_week', e.target.value);
+      rescheduleScan();
     }
-  }, [userId, updateSettings, updateSetting]);
+  }, [userId, updateSettings, updateSetting, rescheduleScan]);
+  
+  const handleChangeScheduleDayOfMonth = useCallback(async (e: ChangeEvent<HTMLSelectElement>) => {
+    // Update UI state first for responsive feel
+    updateSettings({ scheduleDayOfMonth: e.target.value });
+    
+    // Update in Supabase if we have a user ID
+    if (userId) {
+      await updateSetting('schedule_day_of_month', e.target.value);
+      rescheduleScan();
+    }
+  }, [userId, updateSettings, updateSetting, rescheduleScan]);
   
   const handleChangeScheduleTime = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
     // Update UI state first for responsive feel
@@ -191,8 +230,9 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
     // Update in Supabase if we have a user ID
     if (userId) {
       await updateSetting('schedule_time', e.target.value);
+      rescheduleScan();
     }
-  }, [userId, updateSettings, updateSetting]);
+  }, [userId, updateSettings, updateSetting, rescheduleScan]);
 
   // Check if this is a first-time user (no activity)
   const isFirstTimeUser = hasActivity === false;
@@ -245,6 +285,40 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
               </select>
             </div>
             
+            {settings.scheduleFrequency === 'weekly' && (
+              <div className="flex items-center justify-between p-2 bg-white rounded-lg border border-gray-200">
+                <span className="text-sm text-gray-900">Day of week:</span>
+                <select
+                  className="p-1 border border-gray-300 rounded text-sm"
+                  value={settings.scheduleDayOfWeek || 'monday'}
+                  onChange={handleChangeScheduleDayOfWeek}
+                >
+                  <option value="monday">Monday</option>
+                  <option value="tuesday">Tuesday</option>
+                  <option value="wednesday">Wednesday</option>
+                  <option value="thursday">Thursday</option>
+                  <option value="friday">Friday</option>
+                  <option value="saturday">Saturday</option>
+                  <option value="sunday">Sunday</option>
+                </select>
+              </div>
+            )}
+            
+            {settings.scheduleFrequency === 'monthly' && (
+              <div className="flex items-center justify-between p-2 bg-white rounded-lg border border-gray-200">
+                <span className="text-sm text-gray-900">Day of month:</span>
+                <select
+                  className="p-1 border border-gray-300 rounded text-sm"
+                  value={settings.scheduleDayOfMonth || '1'}
+                  onChange={handleChangeScheduleDayOfMonth}
+                >
+                  {Array.from({ length: 31 }, (_, i) => String(i + 1)).map(day => (
+                    <option key={day} value={day}>{day}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            
             <div className="flex items-center justify-between p-2 bg-white rounded-lg border border-gray-200">
               <span className="text-sm text-gray-900">Time:</span>
               <input
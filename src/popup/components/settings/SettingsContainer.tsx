@@ -10,6 +10,7 @@ import ConnectedServicesSection from './ConnectedServicesSection';
 import TrustedSourcesSection from './TrustedSourcesSection';
 import ProcessingOptionsSection from './ProcessingOptionsSection';
 import ScheduleSection from './ScheduleSection';
+import ManualScanSection from './ManualScanSection';
 import FieldMappingSection from './FieldMappingSection';
 import SettingsFeedback from '../SettingsFeedback';
 
@@ -168,6 +169,12 @@ const SettingsContainer = ({ onNavigate }: SettingsContainerProps) => {
         userProfile={userProfile}
       />
       
+      <ManualScanSection 
+        userId={effectiveUserId} 
+        settings={settings}
+        updateSettings={wrappedUpdateSettings}
+      />
+      
       <button 
         onClick={() => onNavigate('dashboard')}
         className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 py-2 px-3 rounded-lg flex items-center justify-center text-sm font-medium transition-colors"
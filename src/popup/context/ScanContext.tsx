@@ -2,6 +2,8 @@ import * as React from 'react';
 import { createContext, useState, useEffect } from 'react';
 import { BillData, DashboardStats, ScanningStatus, Settings } from '../../types/Message';
 import { getUserStats } from '../../services/supabase/client';
+import { ScanJobSummary } from '../../services/scan/scanJob';
+import { SCAN_PROGRESS_PORT, ScanProgressEvent, ScanProgressSnapshot } from '../../services/scan/scanProgress';
 import { useAuth } from '../hooks/useAuth';
 
 interface ScanContextType {
@@ -14,7 +16,12 @@ interface ScanContextType {
   lastProcessedAt: string | null;
   successRate: number;
   timeSaved: number;
+  scanJob: ScanJobSummary | null;
+  scanProgress: ScanProgressSnapshot | null;
   startScan: (settings: Settings) => Promise<void>;
+  pauseScan: () => Promise<void>;
+  resumeScan: () => Promise<void>;
+  cancelScan: () => Promise<void>;
   exportToSheets: () => Promise<void>;
   clearResults: () => void;
   clearError: () => void;
@@ -36,7 +43,12 @@ export const ScanContext = createContext<ScanContextType>({
   lastProcessedAt: null,
   successRate: 0,
   timeSaved: 0,
+  scanJob: null,
+  scanProgress: null,
   startScan: async () => {},
+  pauseScan: async () => {},
+  resumeScan: async () => {},
+  cancelScan: async () => {},
   exportToSheets: async () => {},
   clearResults: () => {},
   clearError: () => {}
@@ -56,6 +68,8 @@ export const ScanProvider = ({ children }: ScanProviderProps) => {
   const [lastProcessedAt, setLastProcessedAt] = useState<string | null>(null);
   const [successRate, setSuccessRate] = useState<number>(0);
   const [timeSaved, setTimeSaved] = useState<number>(0);
+  const [scanJob, setScanJob] = useState<ScanJobSummary | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgressSnapshot | null>(null);
   
   // Get auth context to access user ID
   const { userProfile } = useAuth?.() || { userProfile: null };
@@ -117,6 +131,94 @@ export const ScanProvider = ({ children }: ScanProviderProps) => {
     fetchUserStats();
   }, [userId]);
 
+  // Load the latest scan job so interrupted and resumed runs are visible
+  const refreshScanJob = () => {
+    chrome.runtime.sendMessage({ type: 'GET_SCAN_JOB' }, (response) => {
+      if (chrome.runtime.lastError) {
+        console.error('Error fetching scan job:', chrome.runtime.lastError.message);
+        return;
+      }
+      if (response?.success) {
+        setScanJob(response.job);
+      }
+    });
+  };
+  
+  // Stream scan progress from the background, reattaching to a running scan when reopened
+  useEffect(() => {
+    let port: chrome.runtime.Port | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastStatus: ScanProgressSnapshot['status'] | null = null;
+    let unmounted = false;
+    
+    const handleProgress = async (event: ScanProgressEvent) => {
+      const { snapshot } = event;
+      lastStatus = snapshot.status;
+      setScanProgress(snapshot);
+      
+      if (event.kind === 'completed' || event.kind === 'cancelled' || event.kind === 'failed') {
+        // Load results here too, the popup may have been reopened after starting the scan
+        const { extractedBills } = await chrome.storage.local.get('extractedBills');
+        setScanResults(extractedBills || []);
+        setScanStatus(event.kind === 'failed' ? 'idle' : 'completed');
+        setScanProgressMessage(
+          event.kind === 'completed' ? 'Scan complete!' :
+          event.kind === 'cancelled' ? `Scan stopped after ${Math.max(snapshot.current - 1, 0)} of ${snapshot.total} emails.` :
+          ''
+        );
+        if (event.kind === 'failed') {
+          setError(event.error || 'Scan failed');
+        }
+        refreshScanJob();
+        return;
+      }
+      
+      if (event.kind === 'paused' || (event.kind === 'attached' && snapshot.status === 'paused')) {
+        setScanStatus('paused');
+        setScanProgressMessage(`Scan paused at email ${snapshot.current} of ${snapshot.total}`);
+        return;
+      }
+      
+      // An attach event for a finished scan just carries its final state
+      if (event.kind === 'attached' && snapshot.status !== 'running') {
+        return;
+      }
+      
+      setScanStatus('scanning');
+      setScanProgressMessage(
+        snapshot.currentAttachment
+          ? `Parsing attachment ${snapshot.currentAttachment}...`
+          : `Processing email ${snapshot.current} of ${snapshot.total}...`
+      );
+      setDashboardStats({
+        processed: snapshot.current,
+        billsFound: snapshot.billsFound,
+        errors: snapshot.errors
+      });
+    };
+    
+    const connect = () => {
+      port = chrome.runtime.connect({ name: SCAN_PROGRESS_PORT });
+      port.onMessage.addListener(handleProgress);
+      port.onDisconnect.addListener(() => {
+        port = null;
+        // The service worker restarted mid-scan, reconnect to pick up the resumed job
+        if (!unmounted && lastStatus === 'running') {
+          reconnectTimer = setTimeout(connect, 1000);
+        }
+      });
+    };
+    
+    connect();
+    refreshScanJob();
+    
+    return () => {
+      unmounted = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      port?.disconnect();
+    };
+  }, []);
+
   const clearResults = () => {
     setScanResults([]);
     setDashboardStats(defaultDashboardStats);
@@ -186,24 +288,8 @@ export const ScanProvider = ({ children }: ScanProviderProps) => {
         }
       }
       
-      // Simulate progress updates (this will be replaced with real progress updates)
-      const messages = [
-        'Fetching emails...',
-        'Processing emails...',
-        'Extracting bill data...',
-        'Analyzing attachments...',
-        'Finalizing results...'
-      ];
-
-      for (const msg of messages) {
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        setScanProgressMessage(msg);
-        setDashboardStats(prev => ({
-          ...prev,
-          processed: prev.processed + Math.floor(Math.random() * 5) + 1
-        }));
-      }
-
+      setScanProgressMessage('Fetching emails...');
+      
       const response = await new Promise<any>((resolve, reject) => {
         chrome.runtime.sendMessage({
           type: 'SCAN_EMAILS',
@@ -221,8 +307,18 @@ export const ScanProvider = ({ children }: ScanProviderProps) => {
         });
       });
       
+      if (response?.success && response.paused) {
+        // Paused before finishing, RESUME_SCAN continues it and reports over the progress port
+        setScanResults(response.bills || []);
+        setScanStatus('paused');
+        return;
+      }
+      
       if (response?.success) {
         setScanResults(response.bills || []);
+        
+        // Refresh the job summary now that the scan has finished
+        refreshScanJob();
         setDashboardStats(prev => ({
           ...prev,
           billsFound: (response.bills || []).length,
@@ -233,6 +329,14 @@ export const ScanProvider = ({ children }: ScanProviderProps) => {
         }));
         setScanStatus('completed');
         
+        if (response.cancelled) {
+          setScanProgressMessage(`Scan stopped, ${(response.unprocessed || []).length} emails left unprocessed.`);
+        } else if (response.limitReached) {
+          setScanProgressMessage(
+            `Processed ${response.stats?.processed || 0} of ${response.matched || 0}+ matching emails. Run the scan again to process the rest.`
+          );
+        }
+        
         if (settings.autoExportToSheets && response.bills && response.bills.length > 0) {
           setScanProgressMessage('Export to Google Sheets in progress...');
           setTimeout(() => {
@@ -250,6 +354,36 @@ export const ScanProvider = ({ children }: ScanProviderProps) => {
     }
   };
 
+  // Send a scan control command to the background
+  const sendScanCommand = async (type: 'PAUSE_SCAN' | 'RESUME_SCAN' | 'CANCEL_SCAN') => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type });
+      if (!response?.success) {
+        throw new Error(response?.error || `${type} failed`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error sending ${type}:`, errorMessage);
+      setError(errorMessage);
+    }
+  };
+
+  const pauseScan = async () => {
+    setScanProgressMessage('Pausing after the current email...');
+    await sendScanCommand('PAUSE_SCAN');
+  };
+
+  const resumeScan = async () => {
+    setScanStatus('scanning');
+    setScanProgressMessage('Resuming scan...');
+    await sendScanCommand('RESUME_SCAN');
+  };
+
+  const cancelScan = async () => {
+    setScanProgressMessage('Stopping scan...');
+    await sendScanCommand('CANCEL_SCAN');
+  };
+
   const exportToSheets = async () => {
     if (!scanResults || scanResults.length === 0) {
       setError('No results to export');
@@ -318,7 +452,12 @@ export const ScanProvider = ({ children }: ScanProviderProps) => {
     lastProcessedAt,
     successRate,
     timeSaved,
+    scanJob,
+    scanProgress,
     startScan,
+    pauseScan,
+    resumeScan,
+    cancelScan,
     exportToSheets,
     clearResults,
     clearError
@@ -14,6 +14,8 @@
  * Schedule options:
  * - scheduleEnabled -> schedule_enabled (replaces weeklySchedule)
  * - scheduleFrequency -> schedule_frequency
+ * - scheduleDayOfWeek -> schedule_day_of_week
+ * - scheduleDayOfMonth -> schedule_day_of_month
  * - scheduleTime -> schedule_time
  * - initialScanDate -> initial_scan_date
  * 
@@ -48,6 +50,8 @@ export interface Settings {
   // Schedule options
   scheduleEnabled: boolean;
   scheduleFrequency: string;
+  scheduleDayOfWeek: string;
+  scheduleDayOfMonth: string;
   scheduleTime: string;
   initialScanDate: string | null;
   
@@ -87,6 +91,8 @@ const defaultSettings: Settings = {
   // Schedule options
   scheduleEnabled: DEFAULT_USER_PREFERENCES.schedule_enabled,
   scheduleFrequency: DEFAULT_USER_PREFERENCES.schedule_frequency,
+  scheduleDayOfWeek: DEFAULT_USER_PREFERENCES.schedule_day_of_week,
+  scheduleDayOfMonth: DEFAULT_USER_PREFERENCES.schedule_day_of_month,
   scheduleTime: DEFAULT_USER_PREFERENCES.schedule_time,
   initialScanDate: DEFAULT_USER_PREFERENCES.initial_scan_date,
   // Search parameters
@@ -147,6 +153,8 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
             captureImportantNotices: supabaseSettings.capture_important_notices,
             scheduleEnabled: supabaseSettings.schedule_enabled,
             scheduleFrequency: supabaseSettings.schedule_frequency,
+            scheduleDayOfWeek: supabaseSettings.schedule_day_of_week,
+            scheduleDayOfMonth: supabaseSettings.schedule_day_of_month,
             scheduleTime: supabaseSettings.schedule_time,
             initialScanDate: supabaseSettings.initial_scan_date,
             maxResults: 50, // Not in database
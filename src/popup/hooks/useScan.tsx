@@ -17,7 +17,12 @@ const defaultValues = {
   lastProcessedAt: null,
   successRate: 0,
   timeSaved: 0,
+  scanJob: null,
+  scanProgress: null,
   startScan: async () => {},
+  pauseScan: async () => {},
+  resumeScan: async () => {},
+  cancelScan: async () => {},
   exportToSheets: async () => {},
   clearResults: () => {},
   clearError: () => {}
@@ -13,6 +13,7 @@ import '../debug-tools';
 
 // Initialize Supabase singleton client
 import { getSupabaseClient } from '../services/supabase/client';
+import { BillAnnotation, takePendingBillDetail } from '../services/scan/billAnnotations';
 
 // Context Providers
 import { ScanProvider } from './context/ScanContext';
@@ -22,6 +23,7 @@ import { SettingsProvider } from './context/SettingsContext';
 import Dashboard from './pages/Dashboard';
 import SettingsPage from './pages/Settings';
 import Profile from './pages/Profile';
+import BillDetailCard from './components/BillDetailCard';
 
 // Hooks
 import { useAuth } from './hooks/useAuth';
@@ -95,6 +97,7 @@ export const PopupContent = () => {
   const [isSigningUp, setIsSigningUp] = useState<boolean>(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [isReturningUser, setIsReturningUser] = useState<boolean>(false);
+  const [billDetail, setBillDetail] = useState<BillAnnotation | null>(null);
   
   // Add a ref to track if user status check has been done
   const userStatusChecked = useRef(false);
@@ -132,6 +135,20 @@ export const PopupContent = () => {
     exportToSheets
   } = scanValues;
 
+  // Show a bill opened from its chip in the Gmail inbox
+  useEffect(() => {
+    takePendingBillDetail()
+      .then(bill => {
+        if (bill) {
+          setActiveTab('dashboard');
+          setBillDetail(bill);
+        }
+      })
+      .catch(err => console.error('Error loading pending bill detail:', err));
+    
+    chrome.action.setBadgeText({ text: '' }).catch(() => {});
+  }, []);
+
   // When component mounts, check if this is a returning user
   useEffect(() => {
     // Only run once using the ref
@@ -542,6 +559,9 @@ export const PopupContent = () => {
       
       {/* Main Content with Tabs */}
       <div className="px-2">
+        {billDetail && activeTab === 'dashboard' && (
+          <BillDetailCard bill={billDetail} onClose={() => setBillDetail(null)} />
+        )}
         {activeTab === 'dashboard' && <Dashboard onNavigate={setActiveTab} />}
         {activeTab === 'settings' && <SettingsPage onNavigate={setActiveTab} />}
         {activeTab === 'profile' && <Profile onNavigate={setActiveTab} />}
@@ -1,14 +1,17 @@
 import React, { useContext, useState } from 'react';
-import { BarChart2, Clock, RefreshCcw, FileSpreadsheet, Check, AlertTriangle, PieChart, Calendar } from 'lucide-react';
+import { BarChart2, Clock, RefreshCcw, FileSpreadsheet, Check, AlertTriangle, PieChart, Calendar, Pause, Play, Square } from 'lucide-react';
 import CollapsibleSection from '../components/CollapsibleSection';
 import StatCard from '../components/StatCard';
 import ActivityItem from '../components/ActivityItem';
+import ScanProgressBar from '../components/ScanProgressBar';
+import BillConflicts from '../components/BillConflicts';
 import { ScanContext } from '../context/ScanContext';
 import { useSettings } from '../hooks/useSettings';
 import { Settings as MessageSettings } from '../../types/Message';
 import InitialScanButton from '../components/InitialScanButton';
 import { useAuth } from '../hooks/useAuth';
 import { DebugPanel } from '../components/DebugPanel';
+import PdfPasswordRequests from '../components/PdfPasswordRequests';
 
 interface DashboardProps {
   onNavigate: (tab: string) => void;
@@ -26,12 +29,21 @@ const Dashboard = ({ onNavigate }: DashboardProps) => {
     dashboardStats, 
     exportInProgress, 
     startScan, 
+    pauseScan,
+    resumeScan,
+    cancelScan,
     exportToSheets,
     lastProcessedAt,
     successRate,
-    timeSaved
+    timeSaved,
+    scanJob,
+    scanProgress,
+    scanProgressMessage
   } = context;
   
+  // Bills the extraction strategies disagreed on, for the user to check
+  const billsToReview = scanResults.filter(bill => bill.conflicts && bill.conflicts.length > 0);
+  
   // Override values if no processed items
   const displaySuccessRate = dashboardStats.processed === 0 ? 0 : successRate || 96;
   const displayTimeSaved = dashboardStats.billsFound === 0 ? 0 : timeSaved || 3.7;
@@ -47,8 +59,8 @@ const Dashboard = ({ onNavigate }: DashboardProps) => {
       captureImportantNotices: settings.captureImportantNotices || true,
       scheduleEnabled: settings.scheduleEnabled || false,
       scheduleFrequency: settings.scheduleFrequency || 'weekly',
-      scheduleDayOfWeek: 'monday',
-      scheduleDayOfMonth: '1',
+      scheduleDayOfWeek: settings.scheduleDayOfWeek || 'monday',
+      scheduleDayOfMonth: settings.scheduleDayOfMonth || '1',
       scheduleTime: settings.scheduleTime || '09:00',
       runInitialScan: true,
       maxResults: settings.maxResults,
@@ -166,6 +178,60 @@ const Dashboard = ({ onNavigate }: DashboardProps) => {
       {/* Recent Activity */}
       <CollapsibleSection title="Recent Activity" defaultOpen={true}>
         <div className="space-y-1.5">
+          {scanJob && scanJob.resumeCount > 0 && (
+            <ActivityItem
+              icon={RefreshCcw}
+              iconColor="text-blue-500"
+              title={scanJob.status === 'running' ? 'Interrupted scan resumed' : 'Scan was interrupted and resumed'}
+              subtitle={`${scanJob.processed} of ${scanJob.total} emails processed, ${scanJob.billsFound} bills found`}
+              timestamp={new Date(scanJob.updatedAt).toLocaleString()}
+            />
+          )}
+          
+          {scanJob && scanJob.status === 'completed' && scanJob.limitReached && (
+            <ActivityItem
+              icon={AlertTriangle}
+              iconColor="text-amber-500"
+              title="Scan limit reached"
+              subtitle={`Processed ${scanJob.processed} of ${scanJob.matched}+ matching emails`}
+              timestamp={new Date(scanJob.updatedAt).toLocaleString()}
+            />
+          )}
+          
+          {billsToReview.length > 0 && (
+            <div className="p-2 bg-amber-50 rounded-lg border border-amber-100">
+              <div className="text-sm font-medium text-amber-900">
+                {billsToReview.length} {billsToReview.length === 1 ? 'bill' : 'bills'} to review
+              </div>
+              {billsToReview.map((bill, index) => (
+                <div key={`${bill.emailId}-${index}`} className="mt-1.5">
+                  <div className="text-xs font-medium text-gray-900">{bill.vendor || 'Unknown vendor'}</div>
+                  <BillConflicts conflicts={bill.conflicts} />
+                </div>
+              ))}
+            </div>
+          )}
+          
+          {scanJob && scanJob.status === 'failed' && (
+            <ActivityItem
+              icon={AlertTriangle}
+              iconColor="text-red-500"
+              title="Scan failed"
+              subtitle={scanJob.error || `Stopped after ${scanJob.processed} of ${scanJob.total} emails`}
+              timestamp={new Date(scanJob.updatedAt).toLocaleString()}
+            />
+          )}
+          
+          {scanJob && scanJob.status === 'cancelled' && (
+            <ActivityItem
+              icon={Square}
+              iconColor="text-red-500"
+              title="Scan stopped"
+              subtitle={`${scanJob.unprocessed} emails left unprocessed, ${scanJob.billsFound} bills kept`}
+              timestamp={new Date(scanJob.updatedAt).toLocaleString()}
+            />
+          )}
+          
           {dashboardStats.processed > 0 ? (
             <>
               <ActivityItem
@@ -194,7 +260,33 @@ const Dashboard = ({ onNavigate }: DashboardProps) => {
         </div>
       </CollapsibleSection>
       
-      {dashboardStats.processed === 0 ? (
+      <PdfPasswordRequests />
+      
+      {(scanStatus === 'scanning' || scanStatus === 'paused') && scanProgress && (
+        <ScanProgressBar progress={scanProgress} message={scanProgressMessage} />
+      )}
+      
+      {scanStatus === 'scanning' || scanStatus === 'paused' ? (
+        <div className="flex gap-2">
+          <button
+            onClick={scanStatus === 'paused' ? resumeScan : pauseScan}
+            className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 py-2 px-3 rounded-lg flex items-center justify-center text-sm font-medium transition-colors"
+          >
+            {scanStatus === 'paused' ? (
+              <><Play size={14} className="mr-2" />Resume</>
+            ) : (
+              <><Pause size={14} className="mr-2" />Pause</>
+            )}
+          </button>
+          <button
+            onClick={cancelScan}
+            className="flex-1 bg-red-50 hover:bg-red-100 text-red-700 border border-red-200 py-2 px-3 rounded-lg flex items-center justify-center text-sm font-medium transition-colors"
+          >
+            <Square size={14} className="mr-2" />
+            Stop
+          </button>
+        </div>
+      ) : dashboardStats.processed === 0 ? (
         <InitialScanButton 
           userId={userId} 
           variant="dashboard" 
@@ -203,11 +295,11 @@ const Dashboard = ({ onNavigate }: DashboardProps) => {
       ) : (
         <button 
           onClick={handleScan}
-          disabled={scanStatus === 'scanning' || exportInProgress}
+          disabled={exportInProgress}
           className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-3 rounded-lg flex items-center justify-center text-sm font-medium transition-colors"
         >
           <RefreshCcw size={14} className="mr-2" />
-          {scanStatus === 'scanning' ? 'Scanning...' : 'Run Manual Processing'}
+          Run Manual Processing
         </button>
       )}
       
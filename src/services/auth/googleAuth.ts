@@ -167,6 +167,27 @@ export async function getAccessTokenWithRefresh(): Promise<string | null> {
   }
 }
 
+/**
+ * Gets an access token that also covers scopes requested incrementally,
+ * such as gmail.modify for labelling
+ * @param extraScopes Scopes needed on top of the default ones
+ * @param interactive Whether to prompt the user to grant missing scopes
+ * @returns Access token, or null if the scopes have not been granted
+ */
+export function getAccessTokenForScopes(extraScopes: string[], interactive = false): Promise<string | null> {
+  return new Promise((resolve) => {
+    chrome.identity.getAuthToken({ interactive, scopes: [...scopes, ...extraScopes] }, (token) => {
+      if (chrome.runtime.lastError || !token) {
+        console.warn('Additional scopes not granted:', chrome.runtime.lastError?.message);
+        resolve(null);
+        return;
+      }
+      
+      resolve(token);
+    });
+  });
+}
+
 /**
  * Fetch Google user info with standard fields
  */
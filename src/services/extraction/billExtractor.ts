@@ -5,9 +5,19 @@
  */
 
 import { GmailMessage } from "../../types";
-import { Bill, BillExtractionResult } from "../../types/Bill";
+import { BillExtractionResult } from "../../types/Bill";
 import { createBill } from "../../utils/billTransformers";
-import { ExtractionStrategy } from "./strategies/extractionStrategy";
+import { ExtractionStrategy, PdfExtractionContext } from "./strategies/extractionStrategy";
+import { BillCandidate, reconcileBills } from "./billReconciler";
+import {
+  extractTextInOffscreenDocument,
+  isOffscreenAvailable,
+  recognizeTextInOffscreenDocument
+} from "../pdf/offscreenPdf";
+import { OcrResult, getOcrConfidenceFactor, needsOcr } from "../ocr/ocrSupport";
+import { PdfLayout, layoutToText } from "../pdf/pdfLayout";
+import { PdfPasswordError, decodeBase64Data } from "../pdf/pdfService";
+import { LanguageCode } from "../multilingual/languageRegistry";
 
 export class BillExtractor {
   private strategies: ExtractionStrategy[] = [];
@@ -21,6 +31,15 @@ export class BillExtractor {
     this.strategies.push(strategy);
   }
   
+  /**
+   * Get the registered strategies in the order they run
+   * 
+   * @returns Registered extraction strategies
+   */
+  getStrategies(): ExtractionStrategy[] {
+    return [...this.strategies];
+  }
+  
   /**
    * Extract bills from an email message
    * 
@@ -31,7 +50,7 @@ export class BillExtractor {
   async extractFromEmail(
     message: GmailMessage, 
     options: { 
-      language?: 'en' | 'hu';
+      language?: LanguageCode;
       isTrustedSource?: boolean;
     } = {}
   ): Promise<BillExtractionResult> {
@@ -55,8 +74,7 @@ export class BillExtractor {
       }
       
       // Try each strategy in order
-      const extractedBills: Bill[] = [];
-      let highestConfidence = 0;
+      const candidates: BillCandidate[] = [];
       
       for (const strategy of this.strategies) {
         const result = await strategy.extractFromEmail({
@@ -70,20 +88,21 @@ export class BillExtractor {
         });
         
         if (result.success && result.bills.length > 0) {
-          extractedBills.push(...result.bills);
-          
-          // Track highest confidence among all strategies
-          if (result.confidence && result.confidence > highestConfidence) {
-            highestConfidence = result.confidence;
-          }
+          // Not every strategy scores its bills, the result's confidence stands in
+          candidates.push(...result.bills.map(bill => ({
+            bill,
+            confidence: bill.confidence || result.confidence || 0
+          })));
         }
       }
       
-      // Return extracted bills
+      // Merge the strategies' bills field by field instead of listing each one
+      const extractedBills = reconcileBills(candidates);
+      
       return {
         success: true,
         bills: extractedBills,
-        confidence: highestConfidence
+        confidence: Math.max(0, ...extractedBills.map(bill => bill.confidence || 0))
       };
     } catch (error) {
       console.error('Error extracting bills from email:', error);
@@ -102,8 +121,8 @@ export class BillExtractor {
    * @param pdfData PDF content as base64 string
    * @param messageId Related Gmail message ID
    * @param attachmentId Attachment ID
-   * @param options Extraction options
-   * @returns Extraction result with bills or error
+   * @param options Extraction options, with the passwords to try on encrypted PDFs
+   * @returns Extraction result with bills or error, needsPassword when no password opened the PDF
    */
   async extractFromPdf(
     pdfData: string,
@@ -111,28 +130,33 @@ export class BillExtractor {
     attachmentId: string,
     fileName: string,
     options: { 
-      language?: 'en' | 'hu';
+      language?: LanguageCode;
       isTrustedSource?: boolean;
+      passwords?: string[];
     } = {}
   ): Promise<BillExtractionResult> {
+    const passwords = options.passwords || [];
     try {
-      // Try to extract text from PDF data first
+      // Try to extract text from PDF data first, with its layout where PDF.js parses it
       let extractedText = '';
+      let layout: PdfLayout | undefined;
+      let embeddedXml: string | undefined;
       try {
         // Use a basic extraction approach that works in all contexts
         if (pdfData.startsWith('JVBERi') || pdfData.includes('JVBERi')) {
           console.log('Detected PDF header, using PDF extraction');
           
-          // If we're in a service worker context, use our basic extractor
+          // The service worker has no DOM for PDF.js, an offscreen document parses the PDF
           if (typeof window === 'undefined' || 
               typeof window.document === 'undefined') {
-            console.log('Using basic extraction in service worker context');
-            // Implement a simple version of text extraction directly
-            extractedText = this.extractBasicTextFromPdf(pdfData);
+            ({ text: extractedText, layout, embeddedXml } = await this.extractTextInServiceWorker(pdfData, passwords));
           } else {
             // In browser context, try to use PDF.js
-            const { extractTextFromBase64Pdf } = await import('../pdf/pdfService');
-            extractedText = await extractTextFromBase64Pdf(pdfData);
+            const { extractBasicTextFromBase64Pdf, extractPdfContentFromBase64 } = await import('../pdf/pdfService');
+            const content = await extractPdfContentFromBase64(pdfData, passwords);
+            layout = content?.layout;
+            embeddedXml = content?.embeddedXml || undefined;
+            extractedText = layout ? layoutToText(layout) : extractBasicTextFromBase64Pdf(pdfData);
           }
         } else {
           console.warn('PDF data does not appear to be valid, using basic text extraction');
@@ -145,44 +169,135 @@ export class BillExtractor {
         
         console.log(`Extracted ${extractedText.length} characters from PDF`);
       } catch (extractionError) {
+        // The strategies can't do anything with an encrypted PDF's data
+        if (extractionError instanceof PdfPasswordError) {
+          throw extractionError;
+        }
         console.error('Error in initial text extraction, proceeding with strategies anyway:', extractionError);
       }
       
-      // Try each strategy in order
-      const extractedBills: Bill[] = [];
-      let highestConfidence = 0;
-      
-      for (const strategy of this.strategies) {
-        if (!strategy.extractFromPdf) continue; // Skip strategies that don't support PDF
-        
-        const result = await strategy.extractFromPdf({
-          text: extractedText || '[No text extracted]', // Provide empty text if extraction failed
-          pdfData,
-          messageId,
-          attachmentId,
-          filename: fileName,
-          language: options.language,
-          isTrustedSource: options.isTrustedSource || false // Use the passed isTrustedSource flag
-        });
-        
-        if (result.success && result.bills.length > 0) {
-          extractedBills.push(...result.bills);
-          
-          // Track highest confidence among all strategies
-          if (result.confidence && result.confidence > highestConfidence) {
-            highestConfidence = result.confidence;
-          }
+      // Scanned PDFs have no text layer, recognize the text of their pages instead
+      let ocrResult: OcrResult | null = null;
+      if (needsOcr(extractedText) && pdfData.includes('JVBERi')) {
+        ocrResult = await this.recognizeText(pdfData, 'application/pdf', passwords);
+        if (ocrResult) {
+          extractedText = ocrResult.text;
+          layout = undefined;
         }
       }
       
-      // Return extracted bills
+      return await this.extractFromAttachmentText({
+        text: extractedText || '[No text extracted]', // Provide empty text if extraction failed
+        pdfData,
+        messageId,
+        attachmentId,
+        filename: fileName,
+        layout,
+        xml: embeddedXml,
+        language: options.language,
+        isTrustedSource: options.isTrustedSource || false // Use the passed isTrustedSource flag
+      }, ocrResult);
+    } catch (error) {
+      console.error('Error extracting bills from PDF:', error);
       return {
-        success: true,
-        bills: extractedBills,
-        confidence: highestConfidence
+        success: false,
+        bills: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+        confidence: 0,
+        needsPassword: error instanceof PdfPasswordError
       };
+    }
+  }
+  
+  /**
+   * Extract bills from an XML e-invoice attachment
+   * 
+   * @param xmlData XML content as base64 string
+   * @param messageId Related Gmail message ID
+   * @param attachmentId Attachment ID
+   * @param fileName Attachment file name
+   * @param options Extraction options
+   * @returns Extraction result with bills or error
+   */
+  async extractFromXml(
+    xmlData: string,
+    messageId: string,
+    attachmentId: string,
+    fileName: string,
+    options: { 
+      language?: LanguageCode;
+      isTrustedSource?: boolean;
+    } = {}
+  ): Promise<BillExtractionResult> {
+    try {
+      const xml = new TextDecoder('utf-8').decode(decodeBase64Data(xmlData));
+      
+      // The markup is no text for the other strategies to read
+      return await this.extractFromAttachmentText({
+        text: '',
+        xml,
+        messageId,
+        attachmentId,
+        filename: fileName,
+        language: options.language,
+        isTrustedSource: options.isTrustedSource || false
+      }, null);
     } catch (error) {
-      console.error('Error extracting bills from PDF:', error);
+      console.error('Error extracting bills from XML:', error);
+      return {
+        success: false,
+        bills: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+        confidence: 0
+      };
+    }
+  }
+  
+  /**
+   * Extract bills from an image attachment, e.g. a photographed bill, by
+   * recognizing its text with OCR
+   * 
+   * @param imageData Image content as base64 string
+   * @param mimeType MIME type of the image
+   * @param messageId Related Gmail message ID
+   * @param attachmentId Attachment ID
+   * @param fileName Attachment file name
+   * @param options Extraction options
+   * @returns Extraction result with bills or error
+   */
+  async extractFromImage(
+    imageData: string,
+    mimeType: string,
+    messageId: string,
+    attachmentId: string,
+    fileName: string,
+    options: { 
+      language?: LanguageCode;
+      isTrustedSource?: boolean;
+    } = {}
+  ): Promise<BillExtractionResult> {
+    try {
+      const ocrResult = await this.recognizeText(imageData, mimeType);
+      if (!ocrResult || needsOcr(ocrResult.text)) {
+        return {
+          success: false,
+          bills: [],
+          error: 'No text recognized in the image',
+          confidence: 0
+        };
+      }
+      
+      // Recognized text runs through the same strategies as PDF text
+      return await this.extractFromAttachmentText({
+        text: ocrResult.text,
+        messageId,
+        attachmentId,
+        filename: fileName,
+        language: options.language,
+        isTrustedSource: options.isTrustedSource || false
+      }, ocrResult);
+    } catch (error) {
+      console.error('Error extracting bills from image:', error);
       return {
         success: false,
         bills: [],
@@ -192,13 +307,80 @@ export class BillExtractor {
     }
   }
   
+  /**
+   * Run the PDF strategies on the text of an attachment and reconcile their bills
+   * 
+   * @param context PDF extraction context with the attachment's text
+   * @param ocrResult OCR result the text came from, lowering the bills' confidence
+   * @returns Extraction result with one bill per source
+   */
+  private async extractFromAttachmentText(
+    context: PdfExtractionContext,
+    ocrResult: OcrResult | null
+  ): Promise<BillExtractionResult> {
+    const confidenceFactor = ocrResult ? getOcrConfidenceFactor(ocrResult.confidence) : 1;
+    const candidates: BillCandidate[] = [];
+    
+    // Try each strategy in order
+    for (const strategy of this.strategies) {
+      if (!strategy.extractFromPdf) continue; // Skip strategies that don't support PDF
+      
+      const result = await strategy.extractFromPdf(context);
+      
+      if (result.success && result.bills.length > 0) {
+        // Not every strategy scores its bills, the result's confidence stands in
+        candidates.push(...result.bills.map(bill => ({
+          bill,
+          confidence: (bill.confidence || result.confidence || 0) * confidenceFactor
+        })));
+      }
+    }
+    
+    // Merge the strategies' bills field by field instead of listing each one
+    const extractedBills = reconcileBills(candidates);
+    
+    return {
+      success: true,
+      bills: extractedBills,
+      confidence: Math.max(0, ...extractedBills.map(bill => bill.confidence || 0))
+    };
+  }
+  
+  /**
+   * Recognize the text of a scanned PDF or an image with OCR, in the offscreen
+   * document when running in the service worker
+   * 
+   * @param data Attachment content as base64 string
+   * @param mimeType MIME type of the attachment
+   * @param passwords Passwords to try if the attachment is an encrypted PDF
+   * @returns OCR result, or null when OCR isn't available or failed
+   */
+  private async recognizeText(data: string, mimeType: string, passwords: string[] = []): Promise<OcrResult | null> {
+    try {
+      if (typeof window === 'undefined' || 
+          typeof window.document === 'undefined') {
+        if (!isOffscreenAvailable()) {
+          console.warn('No offscreen document available for OCR');
+          return null;
+        }
+        return await recognizeTextInOffscreenDocument(data, mimeType, passwords);
+      }
+      
+      const { recognizeBase64Attachment } = await import('../ocr/ocrService');
+      return await recognizeBase64Attachment(data, mimeType, passwords);
+    } catch (error) {
+      console.error('OCR failed:', error);
+      return null;
+    }
+  }
+  
   /**
    * Helper method to extract plain text body from Gmail message
    * 
    * @param message Gmail message
    * @returns Plain text body or empty string
    */
-  private extractEmailBody(message: GmailMessage): string {
+  extractEmailBody(message: GmailMessage): string {
     try {
       // Check if we have a plain text part
       if (message.payload?.body?.data) {
@@ -237,6 +419,35 @@ export class BillExtractor {
     }
   }
   
+  /**
+   * Extract PDF text from the service worker with PDF.js in the offscreen
+   * document, falling back to basic extraction where that isn't available
+   * 
+   * @param pdfData PDF content as base64 string
+   * @param passwords Passwords to try if the PDF is encrypted
+   * @returns Extracted text, with its layout when PDF.js parsed the PDF and any embedded invoice XML
+   * @throws PdfPasswordError when none of the passwords opens the PDF
+   */
+  private async extractTextInServiceWorker(
+    pdfData: string,
+    passwords: string[]
+  ): Promise<{ text: string; layout?: PdfLayout; embeddedXml?: string }> {
+    if (isOffscreenAvailable()) {
+      try {
+        console.log('Extracting PDF text in the offscreen document');
+        return await extractTextInOffscreenDocument(pdfData, passwords);
+      } catch (offscreenError) {
+        if (offscreenError instanceof PdfPasswordError) {
+          throw offscreenError;
+        }
+        console.error('Offscreen PDF extraction failed, using basic extraction:', offscreenError);
+      }
+    }
+    
+    console.log('Using basic extraction in service worker context');
+    return { text: this.extractBasicTextFromPdf(pdfData) };
+  }
+  
   /**
    * Basic text extraction from PDF base64 data
    * This is a simplified version for use within this class
@@ -0,0 +1,69 @@
+import { reconcileBills } from './billReconciler';
+import { Bill } from '../../types/Bill';
+
+const source = { type: 'email' as const, messageId: 'msg-1' };
+
+const patternBill: Bill = {
+  id: 'pattern',
+  vendor: { name: 'Northwind Gas', category: 'Utilities' },
+  amount: 63.4,
+  currency: 'USD',
+  dueDate: '2026-03-03T00:00:00.000Z',
+  source: { ...source, subject: 'Your gas bill' },
+  extractionMethod: 'Pattern Based Extractor',
+  matchedPattern: 'en-gas'
+};
+
+const regexBill: Bill = {
+  id: 'regex',
+  vendor: { name: 'Northwind', category: 'Other' },
+  amount: 63.4,
+  currency: 'USD',
+  dueDate: '2026-03-03',
+  accountNumber: 'NW-1182',
+  source,
+  extractionMethod: 'Regex Based Extractor'
+};
+
+describe('Bill Reconciler', () => {
+  it('should merge the bills of one source field by field', () => {
+    const bills = reconcileBills([
+      { bill: regexBill, confidence: 0.7 },
+      { bill: patternBill, confidence: 0.8 }
+    ]);
+
+    expect(bills).toHaveLength(1);
+    expect(bills[0].vendor?.name).toBe('Northwind Gas');
+    expect(bills[0].accountNumber).toBe('NW-1182');
+    expect(bills[0].source?.subject).toBe('Your gas bill');
+    expect(bills[0].matchedPattern).toBe('en-gas');
+    expect(bills[0].confidence).toBe(0.8);
+    expect(bills[0].conflicts).toBeUndefined();
+  });
+
+  it('should pick the highest-confidence value and flag the conflict', () => {
+    const bills = reconcileBills([
+      { bill: { ...regexBill, amount: 12 }, confidence: 0.7 },
+      { bill: patternBill, confidence: 0.8 }
+    ]);
+
+    expect(bills[0].amount).toBe(63.4);
+    expect(bills[0].conflicts).toEqual([{
+      field: 'amount',
+      values: [
+        { value: 63.4, confidence: 0.8, extractionMethod: 'Pattern Based Extractor' },
+        { value: 12, confidence: 0.7, extractionMethod: 'Regex Based Extractor' }
+      ]
+    }]);
+  });
+
+  it('should keep bills of different sources apart', () => {
+    const bills = reconcileBills([
+      { bill: patternBill, confidence: 0.8 },
+      { bill: { ...regexBill, source: { type: 'pdf', messageId: 'msg-1', attachmentId: 'att-1' } }, confidence: 0.7 }
+    ]);
+
+    expect(bills).toHaveLength(2);
+    expect(bills[1].confidence).toBe(0.7);
+  });
+});
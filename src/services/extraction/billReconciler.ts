@@ -0,0 +1,191 @@
+/**
+ * Bill Reconciler
+ *
+ * Merges the bills that several extraction strategies found in the same email
+ * or PDF into one bill, field by field, and flags the fields they disagree on
+ */
+
+import { Bill, BillFieldConflict } from '../../types/Bill';
+
+/**
+ * Bill found by one strategy, with the confidence of that strategy's result
+ */
+export interface BillCandidate {
+  bill: Bill;
+  confidence: number;
+}
+
+/**
+ * Confidence of values read exactly, e.g. from an e-invoice, which take
+ * priority over the other strategies without a conflict
+ */
+export const EXACT_CONFIDENCE = 1;
+
+type FieldValue = string | number | undefined;
+
+type ReconciledField = 'amount' | 'dueDate' | 'accountNumber' | 'currency' | 'vendorName' | 'category';
+
+/**
+ * How a field is read from a bill and compared between candidates
+ */
+interface FieldRule {
+  get: (bill: Bill) => FieldValue;
+
+  /**
+   * Key under which equal values compare equal, e.g. the day of a due date
+   */
+  normalize: (value: string | number) => string;
+
+  /**
+   * Whether differing values need the user's review
+   */
+  flagConflicts: boolean;
+}
+
+/**
+ * Normalize a date to its day, keeping unparseable values as-is
+ */
+function toDay(value: string | number): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10);
+}
+
+const FIELD_RULES: Record<ReconciledField, FieldRule> = {
+  amount: {
+    // Strategies report 0 when they found no amount
+    get: bill => (bill.amount && bill.amount > 0 ? bill.amount : undefined),
+    normalize: value => Number(value).toFixed(2),
+    flagConflicts: true
+  },
+  dueDate: {
+    get: bill => bill.dueDate,
+    normalize: toDay,
+    flagConflicts: true
+  },
+  accountNumber: {
+    get: bill => bill.accountNumber,
+    normalize: value => String(value).replace(/[\s-]/g, '').toUpperCase(),
+    flagConflicts: true
+  },
+  currency: {
+    get: bill => bill.currency,
+    normalize: value => String(value).toUpperCase(),
+    flagConflicts: false
+  },
+  vendorName: {
+    get: bill => bill.vendor?.name,
+    normalize: value => String(value).trim().toLowerCase(),
+    flagConflicts: false
+  },
+  category: {
+    get: bill => bill.vendor?.category,
+    normalize: value => String(value).trim().toLowerCase(),
+    flagConflicts: false
+  }
+};
+
+/**
+ * Key of the email or PDF a bill was found in
+ */
+function getSourceKey(bill: Bill): string {
+  const source = bill.source;
+  if (!source?.messageId && !source?.fileName) {
+    return `bill:${bill.id}`;
+  }
+  return [source.type, source.messageId, source.attachmentId || source.fileName].join(':');
+}
+
+/**
+ * Pick the highest-confidence value of a field, with a conflict when candidates differ
+ *
+ * @param field Field to reconcile
+ * @param candidates Candidates sorted by confidence, highest first
+ */
+function reconcileField(
+  field: ReconciledField,
+  candidates: BillCandidate[]
+): { value: FieldValue; conflict?: BillFieldConflict } {
+  const rule = FIELD_RULES[field];
+  const values = new Map<string, BillFieldConflict['values'][number]>();
+
+  for (const { bill, confidence } of candidates) {
+    const value = rule.get(bill);
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+
+    const key = rule.normalize(value);
+    if (!values.has(key)) {
+      values.set(key, { value, confidence, extractionMethod: bill.extractionMethod });
+    }
+  }
+
+  const distinct = Array.from(values.values());
+  const isExact = distinct.length > 0 && distinct[0].confidence >= EXACT_CONFIDENCE;
+  return {
+    value: distinct[0]?.value,
+    conflict: rule.flagConflicts && distinct.length > 1 && !isExact ? { field, values: distinct } : undefined
+  };
+}
+
+/**
+ * Merge candidates found in one source into a single bill
+ *
+ * @param candidates Candidates of the same email or PDF
+ * @returns Merged bill
+ */
+function mergeCandidates(candidates: BillCandidate[]): Bill {
+  const sorted = [...candidates].sort((a, b) => b.confidence - a.confidence);
+  const best = sorted[0];
+
+  if (sorted.length === 1) {
+    return { ...best.bill, confidence: best.confidence };
+  }
+
+  const fields = {} as Record<ReconciledField, FieldValue>;
+  const conflicts: BillFieldConflict[] = [];
+
+  (Object.keys(FIELD_RULES) as ReconciledField[]).forEach(field => {
+    const { value, conflict } = reconcileField(field, sorted);
+    fields[field] = value;
+    if (conflict) {
+      conflicts.push(conflict);
+    }
+  });
+
+  return {
+    ...best.bill,
+    amount: fields.amount as number | undefined,
+    dueDate: fields.dueDate as string | undefined,
+    accountNumber: fields.accountNumber as string | undefined,
+    currency: fields.currency as string | undefined,
+    vendor: {
+      name: fields.vendorName as string | undefined,
+      category: fields.category as string | undefined
+    },
+    // Lower-confidence sources fill in details, e.g. the subject, the best one wins
+    source: Object.assign({}, ...sorted.map(candidate => candidate.bill.source).reverse()),
+    matchedPattern: sorted.find(candidate => candidate.bill.matchedPattern)?.bill.matchedPattern,
+    language: best.bill.language || sorted.find(candidate => candidate.bill.language)?.bill.language,
+    confidence: best.confidence,
+    conflicts: conflicts.length > 0 ? conflicts : undefined
+  };
+}
+
+/**
+ * Reconcile the bills of all strategies, merging the candidates found in the
+ * same email or PDF field by field
+ *
+ * @param candidates Bills found by each strategy with their confidence
+ * @returns One bill per source, in the order the sources were first found
+ */
+export function reconcileBills(candidates: BillCandidate[]): Bill[] {
+  const groups = new Map<string, BillCandidate[]>();
+
+  for (const candidate of candidates) {
+    const key = getSourceKey(candidate.bill);
+    groups.set(key, [...(groups.get(key) || []), candidate]);
+  }
+
+  return Array.from(groups.values()).map(mergeCandidates);
+}
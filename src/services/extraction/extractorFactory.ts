@@ -5,8 +5,11 @@
  */
 
 import { BillExtractor } from "./billExtractor";
+import { XmlInvoiceExtractor } from "./strategies/xmlInvoiceExtractor";
+import { LearnedTemplateExtractor } from "./strategies/learnedTemplateExtractor";
 import { PatternBasedExtractor } from "./strategies/patternBasedExtractor";
 import { RegexBasedExtractor } from "./strategies/regexBasedExtractor";
+import { initializePatternRegistry } from "../multilingual/registerPatterns";
 
 /**
  * Creates a fully configured BillExtractor instance with all strategies registered
@@ -14,12 +17,22 @@ import { RegexBasedExtractor } from "./strategies/regexBasedExtractor";
  * @returns Configured BillExtractor instance
  */
 export function createBillExtractor(): BillExtractor {
+  // The pattern-based strategy reads the shared registry, which the
+  // background doesn't populate anywhere else
+  initializePatternRegistry();
+  
   // Create the extractor
   const extractor = new BillExtractor();
   
   // Register extraction strategies in order of preference
   // (first successful strategy will be used)
   
+  // E-invoices state their fields exactly
+  extractor.registerStrategy(new XmlInvoiceExtractor());
+  
+  // Templates learned from the user's corrections know the sender best
+  extractor.registerStrategy(new LearnedTemplateExtractor());
+  
   // Pattern-based extraction has higher confidence/priority
   extractor.registerStrategy(new PatternBasedExtractor());
   
@@ -0,0 +1,113 @@
+import { PatternBasedExtractor } from '../strategies/patternBasedExtractor';
+import { initializePatternRegistry } from '../../multilingual/registerPatterns';
+import { SimpleLanguageDetector } from '../../multilingual/languageDetector';
+import { languageRegistry } from '../../multilingual/languageRegistry';
+import { cleanDecimalCommaAmount, parseDayFirstDate } from './dayFirstFormats';
+import { ROMANIAN_MONTHS } from './romanianPatterns';
+import { CZECH_MONTHS } from './czechPatterns';
+import {
+  czechBillFixtures,
+  polishBillFixtures,
+  romanianBillFixtures,
+  slovakBillFixtures
+} from './fixtures/centralEuropeanBills';
+
+const fixturesByLanguage = {
+  sk: slovakBillFixtures,
+  cs: czechBillFixtures,
+  ro: romanianBillFixtures,
+  pl: polishBillFixtures
+};
+
+// The invoice fixture's amount as grouped in the fixture and written without separators
+const ungroupedInvoiceAmounts: Record<string, { grouped: string; ungrouped: string; amount: number }> = {
+  sk: { grouped: '1 234,56', ungrouped: '1234,56', amount: 1234.56 },
+  cs: { grouped: '2 490,00', ungrouped: '2490,00', amount: 2490 },
+  ro: { grouped: '1.234,56', ungrouped: '1234,56', amount: 1234.56 },
+  pl: { grouped: '1 234,56', ungrouped: '1234,56', amount: 1234.56 }
+};
+
+describe('Central European Bill Patterns', () => {
+  beforeAll(() => {
+    initializePatternRegistry();
+  });
+
+  describe('Amount parsing', () => {
+    it('should parse decimal comma amounts with space or dot separators', () => {
+      expect(cleanDecimalCommaAmount('1 234,56 Kč')).toBe(1234.56);
+      expect(cleanDecimalCommaAmount('1.234,56 lei')).toBe(1234.56);
+      expect(cleanDecimalCommaAmount('96,80 zł')).toBe(96.8);
+      expect(cleanDecimalCommaAmount('1234,56 zł')).toBe(1234.56);
+      expect(cleanDecimalCommaAmount('12.50')).toBe(12.5);
+    });
+  });
+
+  describe('Date parsing', () => {
+    it('should parse numeric and ISO dates', () => {
+      expect(parseDayFirstDate('14. 3. 2024', CZECH_MONTHS)?.getMonth()).toBe(2);
+      expect(parseDayFirstDate('25/03/2024', ROMANIAN_MONTHS)?.getDate()).toBe(25);
+      expect(parseDayFirstDate('2024-04-10', ROMANIAN_MONTHS)?.getMonth()).toBe(3);
+    });
+
+    it('should parse written month names', () => {
+      expect(parseDayFirstDate('15 martie 2024', ROMANIAN_MONTHS)?.getMonth()).toBe(2);
+      expect(parseDayFirstDate('1. července 2024', CZECH_MONTHS)?.getMonth()).toBe(6);
+    });
+  });
+
+  Object.entries(fixturesByLanguage).forEach(([language, fixtures]) => {
+    describe(`${languageRegistry.getLanguage(language)?.name} bills`, () => {
+      const extractor = new PatternBasedExtractor();
+      const detector = new SimpleLanguageDetector();
+
+      fixtures.forEach(fixture => {
+        it(`should detect the language of the ${fixture.name}`, () => {
+          expect(detector.detect(`${fixture.subject} ${fixture.body}`)).toBe(language);
+        });
+
+        it(`should extract the ${fixture.name}`, async () => {
+          const result = await extractor.extractFromEmail({
+            messageId: 'fixture',
+            from: 'billing@example.com',
+            subject: fixture.subject,
+            body: fixture.body,
+            date: '',
+            language
+          });
+
+          const bill = result.bills.find(b => b.matchedPattern === fixture.expected.patternId);
+
+          expect(bill).toBeDefined();
+          expect(bill?.amount).toBe(fixture.expected.amount);
+          expect(bill?.currency).toBe(languageRegistry.getLanguage(language)?.currency);
+          expect(bill?.accountNumber).toBe(fixture.expected.accountNumber);
+
+          if (fixture.expected.dueDate) {
+            const dueDate = new Date(bill?.dueDate || '');
+            expect(dueDate.getFullYear()).toBe(fixture.expected.dueDate.year);
+            expect(dueDate.getMonth()).toBe(fixture.expected.dueDate.month);
+            expect(dueDate.getDate()).toBe(fixture.expected.dueDate.day);
+          }
+        });
+      });
+
+      it('should extract an amount written without thousands separators', async () => {
+        const invoice = fixtures[0];
+        const { grouped, ungrouped, amount } = ungroupedInvoiceAmounts[language];
+        const result = await extractor.extractFromEmail({
+          messageId: 'fixture',
+          from: 'billing@example.com',
+          subject: invoice.subject,
+          body: invoice.body.replace(grouped, ungrouped),
+          date: '',
+          language
+        });
+
+        const bill = result.bills.find(b => b.matchedPattern === invoice.expected.patternId);
+
+        expect(invoice.body).toContain(grouped);
+        expect(bill?.amount).toBe(amount);
+      });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Czech Bill Patterns
+ *
+ * This file contains patterns for extracting bill information from Czech
+ * invoices, utility and telecom bills. Amounts are in koruna with a decimal
+ * comma ("1 234,56 Kč") and dates are written day first ("15. 3. 2024").
+ */
+
+import { BillPattern } from '../patterns';
+
+/**
+ * Generic Invoice (Faktura) Pattern
+ */
+export const fakturaCzech: BillPattern = {
+  id: 'faktura-cs',
+  name: 'Invoice (Czech)',
+  language: 'cs',
+  currency: 'CZK',
+  subjectPatterns: [
+    /faktur[auy]/i,
+    /(?:daňový\s+doklad|upomínka)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:částka\s+k\s+úhradě|celkem\s+k\s+úhradě|celková\s+částka|fakturovaná\s+částka|k\s+úhradě)\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:Kč|CZK)?/i
+    ],
+    dueDate: [
+      /(?:datum\s+splatnosti|splatnost|splatné\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:zákaznické\s+číslo|číslo\s+zákazníka)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /variabilní\s+symbol\s*:?\s*([0-9]+)/i
+    ]
+  },
+  confirmationKeywords: ['faktura', 'splatnosti', 'úhradě', 'částka', 'zákazník', 'variabilní symbol']
+};
+
+/**
+ * Energy Bill Pattern
+ */
+export const energieCzech: BillPattern = {
+  id: 'energie-cs',
+  name: 'Energy Bill (Czech)',
+  language: 'cs',
+  currency: 'CZK',
+  vendor: {
+    category: 'Utilities'
+  },
+  subjectPatterns: [
+    /vyúčtování/i,
+    /(?:elektřin|plyn|zálohy?\s+na)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:nedoplatek|částka\s+k\s+úhradě|k\s+úhradě|výše\s+zálohy)\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:Kč|CZK)?/i
+    ],
+    dueDate: [
+      /(?:datum\s+splatnosti|splatnost|splatné\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:zákaznické\s+číslo|číslo\s+smlouvy)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /(?:číslo\s+odběrného\s+místa|EAN)\s*:?\s*([A-Z0-9\-]+)/i
+    ]
+  },
+  confirmationKeywords: ['elektřina', 'plyn', 'spotřeba', 'kwh', 'odběrné místo', 'záloh']
+};
+
+/**
+ * Telecom Bill Pattern
+ */
+export const telcoCzech: BillPattern = {
+  id: 'telco-cs',
+  name: 'Telecom Bill (Czech)',
+  language: 'cs',
+  currency: 'CZK',
+  vendor: {
+    category: 'Telecommunications'
+  },
+  subjectPatterns: [
+    /(?:t-mobile|o2|vodafone).*(?:faktur|vyúčtování)/i,
+    /(?:faktur|vyúčtování).*(?:t-mobile|o2|vodafone)/i,
+    /vyúčtování\s+služeb/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:částka\s+k\s+úhradě|celkem\s+k\s+úhradě|k\s+úhradě)\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:Kč|CZK)?/i
+    ],
+    dueDate: [
+      /(?:datum\s+splatnosti|splatnost|splatné\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:zákaznické\s+číslo|číslo\s+zákazníka)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /telefonní\s+číslo\s*:?\s*(\+?\d[\d\s]{6,}\d)/i
+    ]
+  },
+  confirmationKeywords: ['tarif', 'telefonní číslo', 'data', 'volání', 'mobil', 'služby']
+};
+
+/**
+ * Combine all Czech patterns
+ */
+export const allCzechPatterns: BillPattern[] = [
+  fakturaCzech,
+  energieCzech,
+  telcoCzech
+];
+
+/**
+ * Month index by Czech month name (nominative and genitive)
+ */
+export const CZECH_MONTHS: Record<string, number> = {
+  leden: 0, ledna: 0,
+  únor: 1, února: 1,
+  březen: 2, března: 2,
+  duben: 3, dubna: 3,
+  květen: 4, května: 4,
+  červen: 5, června: 5,
+  červenec: 6, července: 6,
+  srpen: 7, srpna: 7,
+  září: 8,
+  říjen: 9, října: 9,
+  listopad: 10, listopadu: 10,
+  prosinec: 11, prosince: 11
+};
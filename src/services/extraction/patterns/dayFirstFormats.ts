@@ -0,0 +1,71 @@
+/**
+ * Day-First Number and Date Formats
+ *
+ * Helpers shared by the language packs that write amounts with a decimal
+ * comma ("1 234,56") and dates day first ("15.03.2024" or "15 martie 2024")
+ */
+
+/**
+ * Clean an amount written with a decimal comma
+ *
+ * @param amountStr Raw amount string, e.g. "1 234,56 Kč"
+ * @returns Cleaned and normalized number
+ */
+export function cleanDecimalCommaAmount(amountStr: string): number {
+  try {
+    let cleanStr = amountStr.replace(/[^\d,.\-]/g, '');
+
+    if (cleanStr.includes(',')) {
+      // Dots are thousand separators, the comma is the decimal point
+      cleanStr = cleanStr.replace(/\./g, '').replace(',', '.');
+    } else if (!/\.\d{2}$/.test(cleanStr)) {
+      // Without a comma a dot is only a decimal point when followed by cents
+      cleanStr = cleanStr.replace(/\./g, '');
+    }
+
+    return parseFloat(cleanStr);
+  } catch (error) {
+    console.error('Error cleaning decimal comma amount:', error);
+    return 0;
+  }
+}
+
+/**
+ * Parse a day-first date, numeric or with a written month
+ *
+ * @param dateStr Date string from a bill
+ * @param monthNames Month index by lowercase month name or abbreviation
+ * @returns Date object or null if parsing fails
+ */
+export function parseDayFirstDate(dateStr: string, monthNames: Record<string, number>): Date | null {
+  try {
+    // Try ISO YYYY-MM-DD first so it isn't read day first
+    const isoMatch = dateStr.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (isoMatch) {
+      const [_, year, month, day] = isoMatch;
+      return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+    }
+
+    // Try DD.MM.YYYY, DD/MM/YYYY and DD-MM-YYYY
+    const numericMatch = dateStr.match(/(\d{1,2})[.\/-]\s?(\d{1,2})[.\/-]\s?(\d{4})/);
+    if (numericMatch) {
+      const [_, day, month, year] = numericMatch;
+      return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+    }
+
+    // Try "15 martie 2024", "15. března 2024" and abbreviations
+    const namedMatch = dateStr.match(/(\d{1,2})\.?\s*(\p{L}+)\.?\s+(\d{4})/u);
+    if (namedMatch) {
+      const [_, day, monthStr, year] = namedMatch;
+      const month = monthNames[monthStr.toLowerCase()];
+      if (month !== undefined) {
+        return new Date(parseInt(year), month, parseInt(day));
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error parsing day-first date:', error);
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Bill Fixture Type
+ *
+ * Shape of the sample bill emails the pattern packs are tested against
+ */
+
+export interface BillFixture {
+  /**
+   * Fixture name used in test output
+   */
+  name: string;
+
+  /**
+   * Email subject
+   */
+  subject: string;
+
+  /**
+   * Plain text email body
+   */
+  body: string;
+
+  /**
+   * Expected extraction result
+   */
+  expected: {
+    patternId: string;
+    amount: number;
+    dueDate?: { year: number; month: number; day: number };
+    accountNumber?: string;
+  };
+}
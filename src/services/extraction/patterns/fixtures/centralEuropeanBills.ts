@@ -0,0 +1,182 @@
+/**
+ * Central European Bill Fixtures
+ *
+ * Anonymized Slovak, Czech, Romanian and Polish bill emails with the values
+ * their pattern packs are expected to extract from them
+ */
+
+import { BillFixture } from './billFixture';
+
+export const slovakBillFixtures: BillFixture[] = [
+  {
+    name: 'invoice',
+    subject: 'Vaša faktúra č. 2024001234',
+    body: `
+Dobrý deň,
+
+v prílohe Vám zasielame faktúru za služby.
+
+Číslo zákazníka: SK-552310
+Variabilný symbol: 2024001234
+Suma na úhradu: 1 234,56 €
+Dátum splatnosti: 15.03.2024
+
+Ďakujeme, že ste náš zákazník.
+    `,
+    expected: {
+      patternId: 'faktura-sk',
+      amount: 1234.56,
+      dueDate: { year: 2024, month: 2, day: 15 },
+      accountNumber: 'SK-552310'
+    }
+  },
+  {
+    name: 'energy bill',
+    subject: 'Vyúčtovanie elektriny za rok 2023',
+    body: `
+Dobrý deň,
+
+posielame Vám ročné vyúčtovanie spotreby elektriny, spotreba 2 310 kWh.
+
+Zmluvný účet: 400123987
+Nedoplatok: 64,20 €
+Dátum splatnosti: 28.02.2024
+    `,
+    expected: {
+      patternId: 'energia-sk',
+      amount: 64.2,
+      dueDate: { year: 2024, month: 1, day: 28 },
+      accountNumber: '400123987'
+    }
+  }
+];
+
+export const czechBillFixtures: BillFixture[] = [
+  {
+    name: 'invoice',
+    subject: 'Faktura - daňový doklad č. 240100321',
+    body: `
+Dobrý den,
+
+zasíláme Vám fakturu za poskytnuté služby.
+
+Zákaznické číslo: 7781234
+Variabilní symbol: 240100321
+Částka k úhradě: 2 490,00 Kč
+Datum splatnosti: 14. 3. 2024
+
+Děkujeme za včasnou úhradu.
+    `,
+    expected: {
+      patternId: 'faktura-cs',
+      amount: 2490,
+      dueDate: { year: 2024, month: 2, day: 14 },
+      accountNumber: '7781234'
+    }
+  },
+  {
+    name: 'energy bill',
+    subject: 'Vyúčtování elektřiny',
+    body: `
+Dobrý den,
+
+k Vašemu odběrnému místu jsme vystavili vyúčtování, spotřeba 3 120 kWh.
+
+Číslo smlouvy: 9001234567
+Nedoplatek: 1 187,50 Kč
+Datum splatnosti: 20.04.2024
+    `,
+    expected: {
+      patternId: 'energie-cs',
+      amount: 1187.5,
+      dueDate: { year: 2024, month: 3, day: 20 },
+      accountNumber: '9001234567'
+    }
+  }
+];
+
+export const romanianBillFixtures: BillFixture[] = [
+  {
+    name: 'invoice',
+    subject: 'Factura dumneavoastră nr. RO-88123',
+    body: `
+Stimate client,
+
+Vă transmitem factura pentru serviciile furnizate.
+
+Cod client: 5510023
+Total de plată: 1.234,56 lei
+Data scadenței: 15.03.2024
+
+Vă mulțumim!
+    `,
+    expected: {
+      patternId: 'factura-ro',
+      amount: 1234.56,
+      dueDate: { year: 2024, month: 2, day: 15 },
+      accountNumber: '5510023'
+    }
+  },
+  {
+    name: 'energy bill without diacritics',
+    subject: 'Factura energie electrica',
+    body: `
+Stimate client,
+
+Factura pentru consumul de energie din luna februarie a fost emisa. Consum: 210 kWh.
+
+Cod loc de consum: 7002233445
+Total de plata: 187,35 lei
+Data scadentei: 25/03/2024
+    `,
+    expected: {
+      patternId: 'energie-ro',
+      amount: 187.35,
+      dueDate: { year: 2024, month: 2, day: 25 },
+      accountNumber: '7002233445'
+    }
+  }
+];
+
+export const polishBillFixtures: BillFixture[] = [
+  {
+    name: 'invoice',
+    subject: 'Faktura VAT nr FV/2024/03/118',
+    body: `
+Dzień dobry,
+
+w załączniku przesyłamy fakturę za usługi.
+
+Numer klienta: PL-448120
+Kwota do zapłaty: 1 234,56 zł
+Termin płatności: 15.03.2024
+
+Dziękujemy za terminową płatność.
+    `,
+    expected: {
+      patternId: 'faktura-pl',
+      amount: 1234.56,
+      dueDate: { year: 2024, month: 2, day: 15 },
+      accountNumber: 'PL-448120'
+    }
+  },
+  {
+    name: 'energy bill',
+    subject: 'Rozliczenie za energię elektryczną',
+    body: `
+Dzień dobry,
+
+przesyłamy rozliczenie za zużycie energii, zużycie 1 840 kWh.
+
+Numer klienta: 30012345
+Do zapłaty: 96,80 zł
+Termin płatności: 2024-04-10
+    `,
+    expected: {
+      patternId: 'energia-pl',
+      amount: 96.8,
+      dueDate: { year: 2024, month: 3, day: 10 },
+      accountNumber: '30012345'
+    }
+  }
+];
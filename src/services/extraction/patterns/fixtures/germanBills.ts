@@ -0,0 +1,150 @@
+/**
+ * German Bill Fixtures
+ *
+ * Anonymized German bill emails with the values the German patterns are
+ * expected to extract from them
+ */
+
+import { BillFixture } from './billFixture';
+
+export const germanBillFixtures: BillFixture[] = [
+  {
+    name: 'generic invoice',
+    subject: 'Ihre Rechnung Nr. 2024-10381',
+    body: `
+Sehr geehrte Damen und Herren,
+
+anbei erhalten Sie Ihre Rechnung für die erbrachten Leistungen.
+
+Kundennummer: K-48213
+Rechnungsnummer: 2024-10381
+Rechnungsbetrag: 1.234,56 €
+Zahlbar bis: 15.03.2024
+
+Bitte überweisen Sie den Betrag unter Angabe der Rechnungsnummer.
+
+Mit freundlichen Grüßen
+Muster GmbH
+    `,
+    expected: {
+      patternId: 'rechnung-de',
+      amount: 1234.56,
+      dueDate: { year: 2024, month: 2, day: 15 },
+      accountNumber: 'K-48213'
+    }
+  },
+  {
+    name: 'invoice with an ungrouped amount',
+    subject: 'Rechnung 2024-11702',
+    body: `
+Hallo,
+
+Ihre Rechnung für die Wartung der Heizungsanlage liegt bei.
+
+Kundennummer: K-50917
+Rechnungsbetrag: 1234,56 €
+Zahlbar bis: 02.04.2024
+
+Muster Haustechnik GmbH
+    `,
+    expected: {
+      patternId: 'rechnung-de',
+      amount: 1234.56,
+      dueDate: { year: 2024, month: 3, day: 2 },
+      accountNumber: 'K-50917'
+    }
+  },
+  {
+    name: 'electricity bill',
+    subject: 'Ihre Stromrechnung für 2023',
+    body: `
+Guten Tag,
+
+Ihre Jahresabrechnung für Strom ist da. Ihr Verbrauch im Abrechnungszeitraum: 2.450 kWh.
+
+Vertragskonto: 800123456
+Zählernummer: 1EMH0012345678
+Nachzahlung: 87,40 €
+Fällig am: 28. Februar 2024
+
+Ihr neuer monatlicher Abschlag beträgt ab März 96,00 EUR.
+
+Ihre Stadtwerke
+    `,
+    expected: {
+      patternId: 'stromrechnung-de',
+      amount: 87.4,
+      dueDate: { year: 2024, month: 1, day: 28 },
+      accountNumber: '800123456'
+    }
+  },
+  {
+    name: 'mobile phone bill',
+    subject: 'Ihre Mobilfunk-Rechnung Oktober 2024',
+    body: `
+Hallo,
+
+Ihre Mobilfunk-Rechnung für Oktober ist online verfügbar.
+
+Kundennummer: 123456789
+Rufnummer: 0171 1234567
+Tarif: Smart L mit 30 GB Datenvolumen
+
+Rechnungsbetrag: 39,99 €
+Der Betrag wird am 05.11.2024 von Ihrem Konto abgebucht.
+Fällig am 05.11.2024
+
+Ihr Mobilfunk-Team
+    `,
+    expected: {
+      patternId: 'mobilfunk-de',
+      amount: 39.99,
+      dueDate: { year: 2024, month: 10, day: 5 },
+      accountNumber: '123456789'
+    }
+  },
+  {
+    name: 'insurance premium',
+    subject: 'Beitragsrechnung zu Ihrer Hausratversicherung',
+    body: `
+Sehr geehrter Versicherungsnehmer,
+
+für Ihren Versicherungsschein erhalten Sie die Beitragsrechnung für das kommende Versicherungsjahr.
+
+Versicherungsscheinnummer: HR-7788123
+Jahresbeitrag: 142,80 €
+Fällig am: 01.01.2025
+
+Der Beitrag wird per Lastschrift eingezogen.
+
+Ihre Versicherung AG
+    `,
+    expected: {
+      patternId: 'versicherung-de',
+      amount: 142.8,
+      dueDate: { year: 2025, month: 0, day: 1 },
+      accountNumber: 'HR-7788123'
+    }
+  },
+  {
+    name: 'broadcasting fee',
+    subject: 'Zahlungsaufforderung Rundfunkbeitrag',
+    body: `
+Guten Tag,
+
+für Ihre Wohnung ist der Rundfunkbeitrag für das Quartal Januar bis März zu zahlen.
+
+Beitragsnummer: 123 456 789
+Zu zahlender Betrag: 55,08 Euro
+Fällig am: 15.02.2025
+
+ARD ZDF Deutschlandradio Beitragsservice
+    `,
+    expected: {
+      patternId: 'rundfunkbeitrag-de',
+      amount: 55.08,
+      dueDate: { year: 2025, month: 1, day: 15 },
+      accountNumber: '123 456 789'
+    }
+  }
+];
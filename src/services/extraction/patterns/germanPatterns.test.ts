@@ -0,0 +1,74 @@
+import { PatternBasedExtractor } from '../strategies/patternBasedExtractor';
+import { initializePatternRegistry } from '../../multilingual/registerPatterns';
+import { cleanGermanAmount, parseGermanDate } from './germanPatterns';
+import { germanBillFixtures } from './fixtures/germanBills';
+
+describe('German Bill Patterns', () => {
+  beforeAll(() => {
+    initializePatternRegistry();
+  });
+
+  describe('Amount parsing', () => {
+    it('should parse German number formatting', () => {
+      expect(cleanGermanAmount('1.234,56 €')).toBe(1234.56);
+      expect(cleanGermanAmount('1234,56 €')).toBe(1234.56);
+      expect(cleanGermanAmount('55,08 EUR')).toBe(55.08);
+      expect(cleanGermanAmount('12.000')).toBe(12000);
+    });
+  });
+
+  describe('Date parsing', () => {
+    it('should parse numeric day-first dates', () => {
+      const date = parseGermanDate('15.03.2024');
+      expect(date?.getFullYear()).toBe(2024);
+      expect(date?.getMonth()).toBe(2);
+      expect(date?.getDate()).toBe(15);
+    });
+
+    it('should parse two-digit years', () => {
+      expect(parseGermanDate('1.2.25')?.getFullYear()).toBe(2025);
+    });
+
+    it('should parse written and abbreviated month names', () => {
+      expect(parseGermanDate('28. Februar 2024')?.getMonth()).toBe(1);
+      expect(parseGermanDate('15. März 2024')?.getMonth()).toBe(2);
+      expect(parseGermanDate('15. Mrz. 2024')?.getMonth()).toBe(2);
+    });
+
+    it('should return null for text without a date', () => {
+      expect(parseGermanDate('demnächst')).toBeNull();
+    });
+  });
+
+  describe('Bill extraction', () => {
+    const extractor = new PatternBasedExtractor();
+
+    germanBillFixtures.forEach(fixture => {
+      it(`should extract the ${fixture.name}`, async () => {
+        const result = await extractor.extractFromEmail({
+          messageId: 'fixture',
+          from: 'rechnung@example.de',
+          subject: fixture.subject,
+          body: fixture.body,
+          date: '',
+          language: 'de'
+        });
+
+        const bill = result.bills.find(b => b.matchedPattern === fixture.expected.patternId);
+
+        expect(result.success).toBe(true);
+        expect(bill).toBeDefined();
+        expect(bill?.amount).toBe(fixture.expected.amount);
+        expect(bill?.currency).toBe('EUR');
+        expect(bill?.accountNumber).toBe(fixture.expected.accountNumber);
+
+        if (fixture.expected.dueDate) {
+          const dueDate = new Date(bill?.dueDate || '');
+          expect(dueDate.getFullYear()).toBe(fixture.expected.dueDate.year);
+          expect(dueDate.getMonth()).toBe(fixture.expected.dueDate.month);
+          expect(dueDate.getDate()).toBe(fixture.expected.dueDate.day);
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * German Bill Patterns
+ *
+ * This file contains patterns for extracting bill information from German
+ * invoices, utility, telecom and insurance bills and the broadcasting fee.
+ * Amounts use German number formatting ("1.234,56 €") and dates are
+ * written day first ("15.03.2024" or "15. März 2024").
+ */
+
+import { BillPattern } from '../patterns';
+
+/**
+ * Generic Invoice (Rechnung) Pattern
+ */
+export const rechnungGerman: BillPattern = {
+  id: 'rechnung-de',
+  name: 'Invoice (German)',
+  language: 'de',
+  currency: 'EUR',
+  subjectPatterns: [
+    /\b(?:ihre\s+)?(?:neue\s+)?(?:e-)?rechnung\b/i,
+    /\brechnungs(?:nummer|nr\.?)\b/i,
+    /\bzahlungserinnerung\b/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:rechnungsbetrag|gesamtbetrag|zu\s+zahlender\s+betrag|zahlbetrag|endbetrag)\s*(?:\(brutto\))?\s*:?\s*(?:€\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i,
+      /(?:summe|gesamt)\s*(?:brutto)?\s*:?\s*(?:€\s*)?((?:\d{1,3}(?:\.\d{3})+|\d+),\d{2})\s*€/i
+    ],
+    dueDate: [
+      /(?:fällig\s+(?:am|bis)|zahlbar\s+bis|zahlungsziel|fälligkeit(?:sdatum)?)\s*(?:zum)?\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i,
+      /bis\s+(?:zum\s+)?(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})\s+(?:zu\s+)?(?:zahlen|überweisen|begleichen)/i
+    ],
+    accountNumber: [
+      /(?:kundennummer|kunden-nr\.?|kd\.-nr\.?)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /(?:rechnungsnummer|rechnungs-nr\.?)\s*:?\s*([A-Z0-9\-\/]+)/i
+    ]
+  },
+  confirmationKeywords: ['rechnung', 'betrag', 'fällig', 'zahlung', 'kundennummer', 'überweisung']
+};
+
+/**
+ * Electricity and Energy Bill (Stromrechnung) Pattern
+ */
+export const stromrechnungGerman: BillPattern = {
+  id: 'stromrechnung-de',
+  name: 'Electricity Bill (German)',
+  language: 'de',
+  currency: 'EUR',
+  vendor: {
+    category: 'Utilities'
+  },
+  subjectPatterns: [
+    /(?:strom|gas|energie|wasser|heizkosten)(?:rechnung|abrechnung)/i,
+    /(?:jahres|verbrauchs)abrechnung/i,
+    /abschlags(?:zahlung|plan|rechnung)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:rechnungsbetrag|gesamtbetrag|nachzahlung|zu\s+zahlender\s+betrag)\s*:?\s*(?:€\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i,
+      /(?:monatlicher\s+)?abschlag(?:sbetrag)?\s*:?\s*(?:€\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*€/i
+    ],
+    dueDate: [
+      /(?:fällig\s+(?:am|bis)|zahlbar\s+bis|fälligkeit(?:sdatum)?)\s*(?:zum)?\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i,
+      /(?:abbuchung|lastschrift|einzug)\s+(?:am|zum)\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i
+    ],
+    accountNumber: [
+      /(?:vertragskonto|vertragsnummer|vertrags-nr\.?)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /(?:kundennummer|kunden-nr\.?)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /zählernummer\s*:?\s*([A-Z0-9\-\/]+)/i
+    ]
+  },
+  confirmationKeywords: ['strom', 'energie', 'verbrauch', 'kwh', 'abschlag', 'zähler', 'tarif']
+};
+
+/**
+ * Mobile and Telecom Bill (Mobilfunk) Pattern
+ */
+export const mobilfunkGerman: BillPattern = {
+  id: 'mobilfunk-de',
+  name: 'Mobile Phone Bill (German)',
+  language: 'de',
+  currency: 'EUR',
+  vendor: {
+    category: 'Telecommunications'
+  },
+  subjectPatterns: [
+    /(?:mobilfunk|handy|festnetz|internet|dsl)-?\s?rechnung/i,
+    /(?:telekom|vodafone|o2|congstar|1&1).*rechnung/i,
+    /rechnung.*(?:telekom|vodafone|o2|congstar|1&1)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:rechnungsbetrag|gesamtbetrag|zu\s+zahlender\s+betrag|betrag)\s*:?\s*(?:€\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i
+    ],
+    dueDate: [
+      /(?:fällig\s+(?:am|bis)|zahlbar\s+bis|fälligkeit(?:sdatum)?)\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i,
+      /(?:abbuchung|lastschrift|einzug)\s+(?:am|ab\s+dem|zum)\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i
+    ],
+    accountNumber: [
+      /(?:kundennummer|kunden-nr\.?|kundenkonto)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /rufnummer\s*:?\s*(\+?\d[\d\s\/\-]{4,}\d)/i
+    ]
+  },
+  confirmationKeywords: ['mobilfunk', 'rufnummer', 'tarif', 'datenvolumen', 'vertrag', 'telekom', 'vodafone']
+};
+
+/**
+ * Insurance Premium (Versicherung) Pattern
+ */
+export const versicherungGerman: BillPattern = {
+  id: 'versicherung-de',
+  name: 'Insurance Premium (German)',
+  language: 'de',
+  currency: 'EUR',
+  vendor: {
+    category: 'Insurance'
+  },
+  subjectPatterns: [
+    /versicherung/i,
+    /beitrags(?:rechnung|mitteilung|anpassung)/i,
+    /versicherungs(?:schein|beitrag|police)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:zu\s+zahlender\s+beitrag|gesamtbeitrag|jahresbeitrag|monatsbeitrag|beitragsbetrag|rechnungsbetrag)\s*:?\s*(?:€\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i,
+      /beitrag\s*(?:ab\s+\d{1,2}\.\d{1,2}\.\d{2,4})?\s*:?\s*(?:€\s*)?((?:\d{1,3}(?:\.\d{3})+|\d+),\d{2})\s*€/i
+    ],
+    dueDate: [
+      /(?:fällig\s+(?:am|zum)|beitragsfälligkeit|fälligkeit(?:sdatum)?)\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i,
+      /(?:abbuchung|lastschrift|einzug)\s+(?:am|zum)\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i
+    ],
+    accountNumber: [
+      /(?:versicherungsscheinnummer|versicherungsschein-nr\.?|versicherungsnummer|vertragsnummer)\s*:?\s*([A-Z0-9\-\/]+)/i
+    ]
+  },
+  confirmationKeywords: ['versicherung', 'beitrag', 'versicherungsschein', 'police', 'vertrag', 'versicherungsnehmer']
+};
+
+/**
+ * Broadcasting Fee (Rundfunkbeitrag) Pattern
+ */
+export const rundfunkbeitragGerman: BillPattern = {
+  id: 'rundfunkbeitrag-de',
+  name: 'Broadcasting Fee (German)',
+  language: 'de',
+  currency: 'EUR',
+  vendor: {
+    name: 'ARD ZDF Deutschlandradio Beitragsservice',
+    category: 'Taxes'
+  },
+  subjectPatterns: [
+    /rundfunkbeitrag/i,
+    /beitragsservice/i,
+    /zahlungsaufforderung.*(?:rundfunk|beitragsnummer)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:zu\s+zahlender\s+betrag|offener\s+betrag|gesamtbetrag|betrag)\s*:?\s*(?:€\s*)?(\d{1,3}(?:\.\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i,
+      /((?:\d{1,3}(?:\.\d{3})+|\d+),\d{2})\s*(?:€|euro)\s+(?:für|fällig)/i
+    ],
+    dueDate: [
+      /(?:fällig\s+(?:am|zum)|zahlbar\s+bis|bis\s+(?:spätestens\s+)?zum)\s*:?\s*(\d{1,2}\.\s?\d{1,2}\.\s?\d{2,4}|\d{1,2}\.\s*[a-zäA-ZÄ]+\.?\s+\d{4})/i
+    ],
+    accountNumber: [
+      /beitragsnummer\s*:?\s*(\d{3}\s?\d{3}\s?\d{3})/i
+    ]
+  },
+  confirmationKeywords: ['rundfunkbeitrag', 'beitragsnummer', 'beitragsservice', 'quartal', 'ard', 'zdf']
+};
+
+/**
+ * Combine all German patterns
+ */
+export const allGermanPatterns: BillPattern[] = [
+  rechnungGerman,
+  stromrechnungGerman,
+  mobilfunkGerman,
+  versicherungGerman,
+  rundfunkbeitragGerman
+];
+
+/**
+ * Helper functions for German bill processing
+ */
+
+// Month names and common abbreviations, as written in German bills
+const GERMAN_MONTHS: Record<string, number> = {
+  januar: 0, jan: 0, jänner: 0,
+  februar: 1, feb: 1,
+  märz: 2, maerz: 2, mär: 2, mrz: 2,
+  april: 3, apr: 3,
+  mai: 4,
+  juni: 5, jun: 5,
+  juli: 6, jul: 6,
+  august: 7, aug: 7,
+  september: 8, sep: 8, sept: 8,
+  oktober: 9, okt: 9,
+  november: 10, nov: 10,
+  dezember: 11, dez: 11
+};
+
+/**
+ * Clean amount string from German bill formats
+ *
+ * @param amountStr Raw amount string from bill, e.g. "1.234,56 €"
+ * @returns Cleaned and normalized number
+ */
+export function cleanGermanAmount(amountStr: string): number {
+  try {
+    const cleanStr = amountStr
+      .replace(/[€\s]|EUR/gi, '') // Remove currency and spaces
+      .replace(/\./g, '')         // Remove dots (thousand separators in German)
+      .replace(/,/g, '.');        // Convert comma to dot (for JS number parsing)
+
+    return parseFloat(cleanStr);
+  } catch (error) {
+    console.error('Error cleaning German amount:', error);
+    return 0;
+  }
+}
+
+/**
+ * Parse German date formats
+ *
+ * @param dateStr Date string from German bill
+ * @returns Date object or null if parsing fails
+ */
+export function parseGermanDate(dateStr: string): Date | null {
+  try {
+    // Try DD.MM.YYYY and DD.MM.YY (the usual numeric format)
+    const numericMatch = dateStr.match(/(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4}|\d{2})(?!\d)/);
+    if (numericMatch) {
+      const [_, day, month, year] = numericMatch;
+      const fullYear = year.length === 2 ? 2000 + parseInt(year) : parseInt(year);
+      return new Date(fullYear, parseInt(month) - 1, parseInt(day));
+    }
+
+    // Try "15. März 2024" and abbreviations like "15. Mrz. 2024"
+    const namedMatch = dateStr.match(/(\d{1,2})\.?\s*([a-zäA-ZÄ]+)\.?\s+(\d{4})/);
+    if (namedMatch) {
+      const [_, day, monthStr, year] = namedMatch;
+      const month = GERMAN_MONTHS[monthStr.toLowerCase()];
+      if (month !== undefined) {
+        return new Date(parseInt(year), month, parseInt(day));
+      }
+    }
+
+    // Try ISO YYYY-MM-DD as last resort
+    const isoMatch = dateStr.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (isoMatch) {
+      const [_, year, month, day] = isoMatch;
+      return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error parsing German date:', error);
+    return null;
+  }
+}
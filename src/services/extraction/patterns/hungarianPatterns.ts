@@ -36,6 +36,11 @@ export const utilityBillHungarian: BillPattern = {
       /(?:felhasználó|fogyasztási\s+hely)\s*(?:azonosító|szám):?\s*([A-Z0-9\-]+)/i
     ]
   },
+  layoutFields: {
+    amount: [{ label: /fizetendő\s+(?:összeg|összesen)/i }, { label: /végösszeg/i }],
+    dueDate: [{ label: /fizetési\s+határid[őo]/i }],
+    accountNumber: [{ label: /(?:ügyfél|fogyasztó|felhasználó)\s*azonosító/i }]
+  },
   confirmationKeywords: ['számla', 'fizetés', 'közmű', 'szolgáltatás', 'fogyasztás']
 };
 
@@ -106,6 +111,11 @@ export const mvmBillHungarian: BillPattern = {
       /vevő\s*\(\s*fizető\s*\)\s*azonosító:?\s*([A-Z0-9\-]+)/i
     ]
   },
+  layoutFields: {
+    amount: [{ label: /fizetendő\s+összeg/i }, { label: /bruttó\s+számlaérték/i }],
+    dueDate: [{ label: /fizetési\s+határid[őo]/i }],
+    accountNumber: [{ label: /(?:ügyfél|fogyasztó|felhasználó)\s*azonosító/i }, { label: /vevő\s*\(\s*fizető\s*\)\s*azonosító/i }]
+  },
   confirmationKeywords: [
     'áram', 'villamos energia', 'mvm', 'számla', 'elszámoló számla'
   ]
@@ -140,6 +150,11 @@ export const digiBillHungarian: BillPattern = {
       /(?:számla\s+sorszáma)[^:]*:?\s*([A-Z0-9\-\/]+)/i
     ]
   },
+  layoutFields: {
+    amount: [{ label: /fizetendő\s+(?:összeg|összesen)/i }],
+    dueDate: [{ label: /fizetési\s+határid[őo]/i }, { label: /esedékesség/i }],
+    accountNumber: [{ label: /szerződésszám/i }]
+  },
   confirmationKeywords: [
     'digi', 'távközlési', 'internet', 'telefon', 'kábeltévé', 'előfizetés'
   ]
@@ -288,6 +303,11 @@ export const dijnetBillHungarian: BillPattern = {
       /(?:számlakibocsátó)\s*:\s*([^\n\r*]+)/i
     ]
   },
+  layoutFields: {
+    amount: [{ label: /fizetendő\s+(?:összeg|összesen)/i }],
+    dueDate: [{ label: /fizetési\s+határid[őo]/i }],
+    accountNumber: [{ label: /ügyfélazonosító/i }]
+  },
   confirmationKeywords: [
     'díjnet', 'számla', 'fizetés', 'elektronikus', 'e-számla', 'szolgáltató'
   ]
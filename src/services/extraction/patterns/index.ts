@@ -5,6 +5,8 @@
  */
 
 import { Vendor } from "../../../types/Bill";
+import { LanguageCode } from "../../multilingual/languageRegistry";
+import { LayoutPosition } from "../../pdf/pdfLayout";
 
 /**
  * Content patterns for bill information extraction
@@ -31,6 +33,23 @@ export interface ContentPatterns {
   vendor?: RegExp[];
 }
 
+/**
+ * Label of a field in PDF layouts, the value is looked for to its right, then below it
+ */
+export interface LayoutField {
+  label: RegExp;
+  positions?: LayoutPosition[];
+}
+
+/**
+ * Layout labels of bill fields, tried before the content patterns on PDFs
+ */
+export interface LayoutFields {
+  amount?: LayoutField[];
+  dueDate?: LayoutField[];
+  accountNumber?: LayoutField[];
+}
+
 /**
  * Bill pattern definition
  */
@@ -48,7 +67,12 @@ export interface BillPattern {
   /**
    * Language this pattern is designed for
    */
-  language: 'en' | 'hu' | 'de';
+  language: LanguageCode;
+  
+  /**
+   * Currency of the amounts this pattern extracts (ISO code)
+   */
+  currency?: string;
   
   /**
    * Vendor information
@@ -60,11 +84,26 @@ export interface BillPattern {
    */
   subjectPatterns: RegExp[];
   
+  /**
+   * Sender patterns that select this pattern like a matching subject does
+   */
+  senderPatterns?: RegExp[];
+  
+  /**
+   * Patterns the content must all match for this pattern to apply
+   */
+  bodyPatterns?: RegExp[];
+  
   /**
    * Content patterns to extract specific bill data
    */
   contentPatterns: ContentPatterns;
   
+  /**
+   * Labels locating field values in the layout of PDFs
+   */
+  layoutFields?: LayoutFields;
+  
   /**
    * Keywords to confirm this pattern type
    */
@@ -78,6 +117,11 @@ import {
   parseHungarianDate, 
   detectHungarianBill 
 } from './hungarianPatterns';
+import { allGermanPatterns, cleanGermanAmount, parseGermanDate } from './germanPatterns';
+import { allSlovakPatterns } from './slovakPatterns';
+import { allCzechPatterns } from './czechPatterns';
+import { allRomanianPatterns } from './romanianPatterns';
+import { allPolishPatterns } from './polishPatterns';
 
 // Utility bill patterns
 const utilityBillPatterns: BillPattern[] = [
@@ -233,12 +277,19 @@ export const allPatterns: BillPattern[] = [
   ...subscriptionBillPatterns,
   ...telecomBillPatterns,
   ...insuranceBillPatterns,
-  ...allHungarianPatterns // Include our enhanced Hungarian patterns
+  ...allHungarianPatterns, // Include our enhanced Hungarian patterns
+  ...allGermanPatterns,
+  ...allSlovakPatterns,
+  ...allCzechPatterns,
+  ...allRomanianPatterns,
+  ...allPolishPatterns
 ];
 
 // Export utility functions
 export {
   cleanHungarianAmount,
   parseHungarianDate,
-  detectHungarianBill
+  detectHungarianBill,
+  cleanGermanAmount,
+  parseGermanDate
 }; 
\ No newline at end of file
@@ -0,0 +1,124 @@
+/**
+ * Polish Bill Patterns
+ *
+ * This file contains patterns for extracting bill information from Polish
+ * invoices, utility and telecom bills. Amounts are in złoty with a decimal
+ * comma ("1 234,56 zł") and dates are written day first ("15.03.2024").
+ */
+
+import { BillPattern } from '../patterns';
+
+/**
+ * Generic Invoice (Faktura) Pattern
+ */
+export const fakturaPolish: BillPattern = {
+  id: 'faktura-pl',
+  name: 'Invoice (Polish)',
+  language: 'pl',
+  currency: 'PLN',
+  subjectPatterns: [
+    /faktur[aęy]/i,
+    /rachun(?:ek|ku)/i,
+    /(?:przypomnienie|wezwanie)\s+do\s+zapłaty/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:kwota\s+do\s+zapłaty|razem\s+do\s+zapłaty|do\s+zapłaty|należność)\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:zł|PLN)?/i
+    ],
+    dueDate: [
+      /(?:termin\s+płatności|zapłać\s+do|płatne\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:numer\s+klienta|nr\s+klienta|numer\s+umowy)\s*:?\s*([A-Z0-9\-\/]+)/i
+    ]
+  },
+  confirmationKeywords: ['faktura', 'termin płatności', 'do zapłaty', 'kwota', 'nabywca', 'sprzedawca']
+};
+
+/**
+ * Energy Bill Pattern
+ */
+export const energiaPolish: BillPattern = {
+  id: 'energia-pl',
+  name: 'Energy Bill (Polish)',
+  language: 'pl',
+  currency: 'PLN',
+  vendor: {
+    category: 'Utilities'
+  },
+  subjectPatterns: [
+    /(?:prąd|energi[aię]\s+elektryczn|paliwo\s+gazowe|gaz)/i,
+    /(?:prognoz|rozliczeni)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:kwota\s+do\s+zapłaty|do\s+zapłaty|niedopłata)\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:zł|PLN)?/i
+    ],
+    dueDate: [
+      /(?:termin\s+płatności|zapłać\s+do|płatne\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:numer\s+klienta|nr\s+klienta|numer\s+umowy)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /(?:numer\s+PPE|PPE)\s*:?\s*([A-Z0-9\-]+)/i
+    ]
+  },
+  confirmationKeywords: ['energia', 'zużycie', 'kwh', 'ppe', 'taryfa', 'licznik']
+};
+
+/**
+ * Telecom Bill Pattern
+ */
+export const telekomPolish: BillPattern = {
+  id: 'telekom-pl',
+  name: 'Telecom Bill (Polish)',
+  language: 'pl',
+  currency: 'PLN',
+  vendor: {
+    category: 'Telecommunications'
+  },
+  subjectPatterns: [
+    /(?:orange|play|plus|t-mobile).*(?:faktur|rachun)/i,
+    /(?:faktur|rachun).*(?:orange|play|plus|t-mobile)/i,
+    /abonament/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:kwota\s+do\s+zapłaty|razem\s+do\s+zapłaty|do\s+zapłaty)\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:zł|PLN)?/i
+    ],
+    dueDate: [
+      /(?:termin\s+płatności|zapłać\s+do|płatne\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:numer\s+klienta|nr\s+klienta|numer\s+konta)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /numer\s+telefonu\s*:?\s*(\+?\d[\d\s]{6,}\d)/i
+    ]
+  },
+  confirmationKeywords: ['abonament', 'numer telefonu', 'pakiet', 'internet', 'połączenia', 'usługi']
+};
+
+/**
+ * Combine all Polish patterns
+ */
+export const allPolishPatterns: BillPattern[] = [
+  fakturaPolish,
+  energiaPolish,
+  telekomPolish
+];
+
+/**
+ * Month index by Polish month name (nominative and genitive)
+ */
+export const POLISH_MONTHS: Record<string, number> = {
+  styczeń: 0, stycznia: 0,
+  luty: 1, lutego: 1,
+  marzec: 2, marca: 2,
+  kwiecień: 3, kwietnia: 3,
+  maj: 4, maja: 4,
+  czerwiec: 5, czerwca: 5,
+  lipiec: 6, lipca: 6,
+  sierpień: 7, sierpnia: 7,
+  wrzesień: 8, września: 8,
+  październik: 9, października: 9,
+  listopad: 10, listopada: 10,
+  grudzień: 11, grudnia: 11
+};
@@ -0,0 +1,123 @@
+/**
+ * Romanian Bill Patterns
+ *
+ * This file contains patterns for extracting bill information from Romanian
+ * invoices, utility and telecom bills. Amounts are in lei with a decimal
+ * comma ("1.234,56 lei") and dates are written day first ("15.03.2024").
+ * Bills are often written without diacritics, so patterns accept both.
+ */
+
+import { BillPattern } from '../patterns';
+
+/**
+ * Generic Invoice (Factură) Pattern
+ */
+export const facturaRomanian: BillPattern = {
+  id: 'factura-ro',
+  name: 'Invoice (Romanian)',
+  language: 'ro',
+  currency: 'RON',
+  subjectPatterns: [
+    /factur[aăi]/i,
+    /(?:notificare|aviz)\s+de\s+plat[aă]/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:total\s+de\s+plat[aă]|suma\s+de\s+plat[aă]|total\s+factur[aă]|de\s+plat[aă])\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:lei|RON)?/i
+    ],
+    dueDate: [
+      /(?:data\s+scaden[tțţ]ei|scaden[tțţ][aă]|termen\s+de\s+plat[aă])\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:cod\s+client|num[aă]r\s+client|cod\s+abonat)\s*:?\s*([A-Z0-9\-\/]+)/i
+    ]
+  },
+  confirmationKeywords: ['factura', 'factură', 'scadență', 'scadenta', 'plată', 'plata', 'cod client']
+};
+
+/**
+ * Energy Bill Pattern
+ */
+export const energieRomanian: BillPattern = {
+  id: 'energie-ro',
+  name: 'Energy Bill (Romanian)',
+  language: 'ro',
+  currency: 'RON',
+  vendor: {
+    category: 'Utilities'
+  },
+  subjectPatterns: [
+    /(?:energie|electricitate|gaze\s+naturale)/i,
+    /factur[aă]\s+(?:de\s+)?(?:energie|gaze|ap[aă])/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:total\s+de\s+plat[aă]|sold\s+de\s+plat[aă]|de\s+plat[aă])\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:lei|RON)?/i
+    ],
+    dueDate: [
+      /(?:data\s+scaden[tțţ]ei|scaden[tțţ][aă]|termen\s+de\s+plat[aă])\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:cod\s+client|cod\s+loc\s+de\s+consum|POD)\s*:?\s*([A-Z0-9\-\/]+)/i
+    ]
+  },
+  confirmationKeywords: ['energie', 'consum', 'kwh', 'loc de consum', 'furnizor', 'index']
+};
+
+/**
+ * Telecom Bill Pattern
+ */
+export const telecomRomanian: BillPattern = {
+  id: 'telecom-ro',
+  name: 'Telecom Bill (Romanian)',
+  language: 'ro',
+  currency: 'RON',
+  vendor: {
+    category: 'Telecommunications'
+  },
+  subjectPatterns: [
+    /(?:orange|vodafone|digi|telekom).*factur/i,
+    /factur.*(?:orange|vodafone|digi|telekom)/i,
+    /abonament/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:total\s+de\s+plat[aă]|suma\s+de\s+plat[aă]|de\s+plat[aă])\s*:?\s*(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)\s*(?:lei|RON)?/i
+    ],
+    dueDate: [
+      /(?:data\s+scaden[tțţ]ei|scaden[tțţ][aă]|termen\s+de\s+plat[aă])\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:cod\s+client|num[aă]r\s+cont|cont\s+client)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /num[aă]r\s+(?:de\s+)?telefon\s*:?\s*(\+?\d[\d\s]{6,}\d)/i
+    ]
+  },
+  confirmationKeywords: ['abonament', 'telefon', 'trafic', 'date mobile', 'minute', 'servicii']
+};
+
+/**
+ * Combine all Romanian patterns
+ */
+export const allRomanianPatterns: BillPattern[] = [
+  facturaRomanian,
+  energieRomanian,
+  telecomRomanian
+];
+
+/**
+ * Month index by Romanian month name or abbreviation
+ */
+export const ROMANIAN_MONTHS: Record<string, number> = {
+  ianuarie: 0, ian: 0,
+  februarie: 1, feb: 1,
+  martie: 2, mar: 2,
+  aprilie: 3, apr: 3,
+  mai: 4,
+  iunie: 5, iun: 5,
+  iulie: 6, iul: 6,
+  august: 7, aug: 7,
+  septembrie: 8, sep: 8, sept: 8,
+  octombrie: 9, oct: 9,
+  noiembrie: 10, nov: 10,
+  decembrie: 11, dec: 11
+};
@@ -0,0 +1,124 @@
+/**
+ * Slovak Bill Patterns
+ *
+ * This file contains patterns for extracting bill information from Slovak
+ * invoices, utility and telecom bills. Amounts are in euro with a decimal
+ * comma ("1 234,56 €") and dates are written day first ("15.03.2024").
+ */
+
+import { BillPattern } from '../patterns';
+
+/**
+ * Generic Invoice (Faktúra) Pattern
+ */
+export const fakturaSlovak: BillPattern = {
+  id: 'faktura-sk',
+  name: 'Invoice (Slovak)',
+  language: 'sk',
+  currency: 'EUR',
+  subjectPatterns: [
+    /fakt[úu]r[ayu]/i,
+    /(?:upomienka|výzva\s+na\s+úhradu)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:suma\s+na\s+úhradu|suma\s+k\s+úhrade|celkom\s+na\s+úhradu|celková\s+suma|k\s+úhrade)\s*:?\s*(?:€\s*)?(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i
+    ],
+    dueDate: [
+      /(?:dátum\s+splatnosti|splatnosť|splatné\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:číslo\s+zákazníka|zákaznícke\s+číslo)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /variabilný\s+symbol\s*:?\s*([0-9]+)/i
+    ]
+  },
+  confirmationKeywords: ['faktúra', 'splatnosti', 'úhradu', 'suma', 'zákazník', 'variabilný symbol']
+};
+
+/**
+ * Energy Bill Pattern
+ */
+export const energiaSlovak: BillPattern = {
+  id: 'energia-sk',
+  name: 'Energy Bill (Slovak)',
+  language: 'sk',
+  currency: 'EUR',
+  vendor: {
+    category: 'Utilities'
+  },
+  subjectPatterns: [
+    /vyúčtovani[ea]/i,
+    /(?:elektrin|plyn|zálohov[áé]\s+platb)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:suma\s+na\s+úhradu|nedoplatok|k\s+úhrade|výška\s+zálohy)\s*:?\s*(?:€\s*)?(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i
+    ],
+    dueDate: [
+      /(?:dátum\s+splatnosti|splatnosť|splatné\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:zmluvný\s+účet|číslo\s+zmluvy)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /(?:číslo\s+odberného\s+miesta|EIC)\s*:?\s*([A-Z0-9\-]+)/i
+    ]
+  },
+  confirmationKeywords: ['elektrina', 'plyn', 'spotreba', 'kwh', 'odberné miesto', 'záloha']
+};
+
+/**
+ * Telecom Bill Pattern
+ */
+export const telekomSlovak: BillPattern = {
+  id: 'telekom-sk',
+  name: 'Telecom Bill (Slovak)',
+  language: 'sk',
+  currency: 'EUR',
+  vendor: {
+    category: 'Telecommunications'
+  },
+  subjectPatterns: [
+    /(?:telekom|orange|o2|4ka).*fakt[úu]r/i,
+    /fakt[úu]r.*(?:telekom|orange|o2|4ka)/i,
+    /(?:mobiln|paušál)/i
+  ],
+  contentPatterns: {
+    amount: [
+      /(?:suma\s+na\s+úhradu|celkom\s+na\s+úhradu|k\s+úhrade)\s*:?\s*(?:€\s*)?(\d{1,3}(?:[ .]\d{3})+(?:,\d{2})?|\d+(?:,\d{2})?)/i
+    ],
+    dueDate: [
+      /(?:dátum\s+splatnosti|splatnosť|splatné\s+do)\s*:?\s*(\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4}|\d{4}-\d{2}-\d{2})/i
+    ],
+    accountNumber: [
+      /(?:číslo\s+zákazníka|zákaznícke\s+číslo)\s*:?\s*([A-Z0-9\-\/]+)/i,
+      /telefónne\s+číslo\s*:?\s*(\+?\d[\d\s]{6,}\d)/i
+    ]
+  },
+  confirmationKeywords: ['paušál', 'telefónne číslo', 'dáta', 'volania', 'mobil', 'služby']
+};
+
+/**
+ * Combine all Slovak patterns
+ */
+export const allSlovakPatterns: BillPattern[] = [
+  fakturaSlovak,
+  energiaSlovak,
+  telekomSlovak
+];
+
+/**
+ * Month index by Slovak month name (nominative and genitive) or abbreviation
+ */
+export const SLOVAK_MONTHS: Record<string, number> = {
+  január: 0, januára: 0, jan: 0,
+  február: 1, februára: 1, feb: 1,
+  marec: 2, marca: 2, mar: 2,
+  apríl: 3, apríla: 3, apr: 3,
+  máj: 4, mája: 4,
+  jún: 5, júna: 5,
+  júl: 6, júla: 6,
+  august: 7, augusta: 7, aug: 7,
+  september: 8, septembra: 8, sep: 8,
+  október: 9, októbra: 9, okt: 9,
+  november: 10, novembra: 10, nov: 10,
+  december: 11, decembra: 11, dec: 11
+};
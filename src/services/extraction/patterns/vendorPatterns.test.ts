@@ -0,0 +1,63 @@
+import { compileVendorPattern, parseVendorPattern } from './vendorPatterns';
+import { PatternBasedExtractor } from '../strategies/patternBasedExtractor';
+import { patternRegistry } from '../../multilingual/patternRegistry';
+
+const waterWorksPattern = {
+  vendorName: 'City Water Works',
+  emailPattern: 'billing@citywater\\.example',
+  category: 'Utilities',
+  currency: 'USD',
+  fields: {
+    amount: ['amount due:?\\s*\\$?([\\d,]+\\.\\d{2})'],
+    dueDate: ['due by:?\\s*(\\d{1,2}/\\d{1,2}/\\d{4})'],
+    accountNumber: ['account number:?\\s*([A-Z0-9-]+)']
+  }
+};
+
+describe('Vendor Patterns', () => {
+  afterEach(() => {
+    patternRegistry.setUserPatterns([]);
+  });
+
+  it('should accept a valid pattern', () => {
+    const { pattern, errors } = parseVendorPattern(JSON.stringify(waterWorksPattern));
+
+    expect(errors).toEqual([]);
+    expect(pattern?.vendorName).toBe('City Water Works');
+  });
+
+  it('should report invalid JSON, regexes and missing captures', () => {
+    expect(parseVendorPattern('{ vendorName').errors[0]).toMatch(/^Invalid JSON/);
+
+    const { errors } = parseVendorPattern(JSON.stringify({
+      vendorName: 'Broken',
+      subjectPattern: 'invoice (',
+      fields: { amount: ['total \\d+'] }
+    }));
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/subjectPattern is not a valid regular expression/);
+    expect(errors[1]).toMatch(/fields.amount\[0\] must capture the value/);
+  });
+
+  it('should extract bills from the sender of a compiled pattern', async () => {
+    patternRegistry.setUserPatterns([compileVendorPattern({ ...waterWorksPattern, id: 'water' })]);
+
+    const result = await new PatternBasedExtractor().extractFromEmail({
+      messageId: 'fixture',
+      from: 'City Water <billing@citywater.example>',
+      subject: 'Your statement is ready',
+      body: 'Account number: CW-1234\nAmount due: $48.20\nDue by 11/05/2026',
+      date: '',
+      language: 'en'
+    });
+
+    const bill = result.bills.find(b => b.matchedPattern === 'user-water');
+
+    expect(bill).toBeDefined();
+    expect(bill?.amount).toBe(48.2);
+    expect(bill?.currency).toBe('USD');
+    expect(bill?.accountNumber).toBe('CW-1234');
+    expect(bill?.vendor?.category).toBe('Utilities');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Vendor Patterns
+ *
+ * Compiles user-defined vendor patterns, stored as JSON, into bill patterns
+ * the pattern-based extractor can run next to the built-in ones
+ */
+
+import { VendorPattern } from '../../../types';
+import { BillPattern } from '../patterns';
+import { ANY_LANGUAGE } from '../../multilingual/patternRegistry';
+import type { FieldCapture } from '../strategies/patternBasedExtractor';
+
+/**
+ * Prefix keeping user pattern IDs apart from the built-in ones
+ */
+export const USER_PATTERN_PREFIX = 'user-';
+
+/**
+ * Compile a regex source the way vendor patterns are matched
+ */
+function compileRegex(source: string): RegExp {
+  return new RegExp(source, 'i');
+}
+
+/**
+ * Describe why a regex source doesn't compile, or return null when it does
+ */
+function getRegexError(source: unknown, field: string, requireCapture: boolean): string | null {
+  if (typeof source !== 'string' || source.trim() === '') {
+    return `${field} must be a non-empty regular expression`;
+  }
+
+  try {
+    const regex = compileRegex(source);
+
+    // Count capture groups by matching an empty alternative
+    const groupCount = new RegExp(`${regex.source}|`).exec('')!.length - 1;
+    if (requireCapture && groupCount < 1) {
+      return `${field} must capture the value in a group, e.g. "Total:\\\\s*([\\\\d.,]+)"`;
+    }
+  } catch (error) {
+    return `${field} is not a valid regular expression: ${error instanceof Error ? error.message : error}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a parsed vendor pattern
+ *
+ * @param value Parsed JSON value
+ * @returns Validation errors, empty when the pattern is valid
+ */
+export function validateVendorPattern(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Pattern must be a JSON object'];
+  }
+
+  const pattern = value as Partial<VendorPattern>;
+  const errors: string[] = [];
+
+  if (typeof pattern.vendorName !== 'string' || pattern.vendorName.trim() === '') {
+    errors.push('vendorName is required');
+  }
+
+  if (!pattern.emailPattern && !pattern.subjectPattern) {
+    errors.push('Either emailPattern or subjectPattern is required to select emails');
+  }
+
+  (['emailPattern', 'subjectPattern', 'contentPattern'] as const).forEach(field => {
+    if (pattern[field] !== undefined) {
+      const error = getRegexError(pattern[field], field, false);
+      if (error) {
+        errors.push(error);
+      }
+    }
+  });
+
+  for (const field of ['language', 'category', 'currency'] as const) {
+    if (pattern[field] !== undefined && typeof pattern[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (!pattern.fields || typeof pattern.fields !== 'object') {
+    errors.push('fields with at least one amount regex is required');
+    return errors;
+  }
+
+  if (!Array.isArray(pattern.fields.amount) || pattern.fields.amount.length === 0) {
+    errors.push('fields.amount must list at least one regex');
+  }
+
+  (['amount', 'dueDate', 'accountNumber'] as const).forEach(field => {
+    const sources = pattern.fields![field];
+    if (sources === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(sources)) {
+      errors.push(`fields.${field} must be an array of regexes`);
+      return;
+    }
+
+    sources.forEach((source, index) => {
+      const error = getRegexError(source, `fields.${field}[${index}]`, true);
+      if (error) {
+        errors.push(error);
+      }
+    });
+  });
+
+  if (pattern.confirmationKeywords !== undefined &&
+      (!Array.isArray(pattern.confirmationKeywords) ||
+       pattern.confirmationKeywords.some(keyword => typeof keyword !== 'string'))) {
+    errors.push('confirmationKeywords must be an array of strings');
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a vendor pattern from JSON text
+ *
+ * @param json JSON text of a single pattern
+ * @returns The pattern when valid, with any parse or validation errors
+ */
+export function parseVendorPattern(json: string): { pattern?: VendorPattern; errors: string[] } {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const errors = validateVendorPattern(value);
+  return errors.length > 0 ? { errors } : { pattern: value as VendorPattern, errors };
+}
+
+/**
+ * Compile a validated vendor pattern into a bill pattern
+ *
+ * @param definition Vendor pattern definition
+ * @returns Bill pattern with compiled regexes
+ */
+export function compileVendorPattern(definition: VendorPattern): BillPattern {
+  return {
+    id: `${USER_PATTERN_PREFIX}${definition.id}`,
+    name: definition.vendorName,
+    language: definition.language || ANY_LANGUAGE,
+    currency: definition.currency,
+    vendor: {
+      name: definition.vendorName,
+      category: definition.category
+    },
+    subjectPatterns: definition.subjectPattern ? [compileRegex(definition.subjectPattern)] : [],
+    senderPatterns: definition.emailPattern ? [compileRegex(definition.emailPattern)] : undefined,
+    bodyPatterns: definition.contentPattern ? [compileRegex(definition.contentPattern)] : undefined,
+    contentPatterns: {
+      amount: definition.fields.amount.map(compileRegex),
+      dueDate: definition.fields.dueDate?.map(compileRegex),
+      accountNumber: definition.fields.accountNumber?.map(compileRegex)
+    },
+    confirmationKeywords: definition.confirmationKeywords
+  };
+}
+
+/**
+ * Escape text for use as a literal in a regex
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Draft a vendor pattern for an email's sender, reusing the field regexes
+ * that captured values from it
+ *
+ * @param from From header of the email
+ * @param pattern Pattern that extracted the bill, for its language, currency and category
+ * @param captures Field captures of that pattern
+ * @returns Pattern definition ready to edit and save
+ */
+export function draftVendorPattern(
+  from: string,
+  pattern?: BillPattern,
+  captures: FieldCapture[] = []
+): Omit<VendorPattern, 'id'> {
+  const address = (from.match(/<([^>]+)>/)?.[1] || from).trim();
+  const displayName = from.replace(/<[^>]*>/, '').replace(/"/g, '').trim();
+  const domain = address.split('@')[1] || address;
+
+  const regexesFor = (field: FieldCapture['field']) =>
+    captures.filter(capture => capture.field === field).map(capture => capture.regex);
+
+  const amount = regexesFor('amount');
+  const dueDate = regexesFor('dueDate');
+  const accountNumber = regexesFor('accountNumber');
+
+  return {
+    vendorName: pattern?.vendor?.name || displayName || domain,
+    emailPattern: address ? escapeRegex(address) : undefined,
+    language: pattern && pattern.language !== ANY_LANGUAGE ? pattern.language : undefined,
+    category: pattern?.vendor?.category,
+    currency: pattern?.currency,
+    fields: {
+      amount: amount.length > 0
+        ? amount
+        : pattern?.contentPatterns.amount.map(regex => regex.source) || ['(?:total|amount due):?\\s*([\\d.,]+)'],
+      dueDate: dueDate.length > 0 ? dueDate : undefined,
+      accountNumber: accountNumber.length > 0 ? accountNumber : undefined
+    }
+  };
+}
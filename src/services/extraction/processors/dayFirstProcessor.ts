@@ -0,0 +1,66 @@
+/**
+ * Day-First Language Processor
+ *
+ * Provides processing for languages that write amounts with a decimal comma
+ * and dates day first, configured with each language's month names
+ */
+
+import { LanguageProcessor } from './index';
+import { cleanDecimalCommaAmount, parseDayFirstDate } from '../patterns/dayFirstFormats';
+import { SLOVAK_MONTHS } from '../patterns/slovakPatterns';
+import { CZECH_MONTHS } from '../patterns/czechPatterns';
+import { ROMANIAN_MONTHS } from '../patterns/romanianPatterns';
+import { POLISH_MONTHS } from '../patterns/polishPatterns';
+
+/**
+ * Processor for day-first, decimal comma languages
+ */
+export class DayFirstProcessor implements LanguageProcessor {
+  private monthNames: Record<string, number>;
+
+  /**
+   * @param monthNames Month index by lowercase month name or abbreviation
+   */
+  constructor(monthNames: Record<string, number>) {
+    this.monthNames = monthNames;
+  }
+
+  /**
+   * Process text for better extraction
+   *
+   * @param text Raw text to process
+   * @returns Enhanced text for extraction
+   */
+  processText(text: string): string {
+    // Normalize whitespace, including the non-breaking spaces used as thousand separators
+    return text.replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Clean amount string
+   *
+   * @param amountStr Raw amount string
+   * @returns Cleaned numeric value
+   */
+  cleanAmount(amountStr: string): number {
+    return cleanDecimalCommaAmount(amountStr);
+  }
+
+  /**
+   * Parse day-first date formats
+   *
+   * @param dateStr Raw date string
+   * @returns Parsed Date object or null if parsing fails
+   */
+  parseDate(dateStr: string): Date | null {
+    return parseDayFirstDate(dateStr, this.monthNames);
+  }
+}
+
+/**
+ * Create and export processors for the day-first languages
+ */
+export const slovakProcessor = new DayFirstProcessor(SLOVAK_MONTHS);
+export const czechProcessor = new DayFirstProcessor(CZECH_MONTHS);
+export const romanianProcessor = new DayFirstProcessor(ROMANIAN_MONTHS);
+export const polishProcessor = new DayFirstProcessor(POLISH_MONTHS);
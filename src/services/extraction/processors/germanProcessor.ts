@@ -0,0 +1,55 @@
+/**
+ * German Language Processor
+ *
+ * Provides specialized processing for German text and data formats
+ */
+
+import { LanguageProcessor } from './index';
+import { cleanGermanAmount, parseGermanDate } from '../patterns/germanPatterns';
+
+/**
+ * Processor for German language content
+ */
+export class GermanProcessor implements LanguageProcessor {
+  /**
+   * Process German text for better extraction
+   *
+   * @param text Raw text to process
+   * @returns Enhanced text for extraction
+   */
+  processText(text: string): string {
+    // Normalize whitespace
+    let processed = text.replace(/\s+/g, ' ');
+
+    // Use the euro sign for the currency written out
+    processed = processed.replace(/\bEUR\b/g, '€');
+    processed = processed.replace(/\bEuro\b/g, '€');
+
+    return processed;
+  }
+
+  /**
+   * Clean German amount string
+   *
+   * @param amountStr Raw amount string
+   * @returns Cleaned numeric value
+   */
+  cleanAmount(amountStr: string): number {
+    return cleanGermanAmount(amountStr);
+  }
+
+  /**
+   * Parse German date formats
+   *
+   * @param dateStr Raw date string
+   * @returns Parsed Date object or null if parsing fails
+   */
+  parseDate(dateStr: string): Date | null {
+    return parseGermanDate(dateStr);
+  }
+}
+
+/**
+ * Create and export default German processor
+ */
+export const germanProcessor = new GermanProcessor();
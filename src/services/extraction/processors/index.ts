@@ -77,10 +77,17 @@ export const processorRegistry = new ProcessorRegistry();
 // Import processors
 import { englishProcessor } from './englishProcessor';
 import { hungarianProcessor } from './hungarianProcessor';
+import { germanProcessor } from './germanProcessor';
+import { slovakProcessor, czechProcessor, romanianProcessor, polishProcessor } from './dayFirstProcessor';
 
 // Register processors
 processorRegistry.registerProcessor('en', englishProcessor);
 processorRegistry.registerProcessor('hu', hungarianProcessor);
+processorRegistry.registerProcessor('de', germanProcessor);
+processorRegistry.registerProcessor('sk', slovakProcessor);
+processorRegistry.registerProcessor('cs', czechProcessor);
+processorRegistry.registerProcessor('ro', romanianProcessor);
+processorRegistry.registerProcessor('pl', polishProcessor);
 
 /**
  * Get the appropriate processor for a language
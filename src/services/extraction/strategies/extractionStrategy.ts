@@ -5,6 +5,8 @@
  */
 
 import { BillExtractionResult } from "../../../types/Bill";
+import { LanguageCode } from "../../multilingual/languageRegistry";
+import { PdfLayout } from "../../pdf/pdfLayout";
 
 /**
  * Basic context for all extraction operations
@@ -14,7 +16,7 @@ export interface BaseExtractionContext {
    * Optional language code to use for extraction
    * If not provided, the extractor should try to detect the language
    */
-  language?: 'en' | 'hu' | 'de';
+  language?: LanguageCode;
 }
 
 /**
@@ -76,6 +78,16 @@ export interface PdfExtractionContext extends BaseExtractionContext {
    */
   pdfData?: string;
 
+  /**
+   * Positioned text of the PDF, when PDF.js could parse it
+   */
+  layout?: PdfLayout;
+
+  /**
+   * E-invoice XML, the attachment itself or embedded in a ZUGFeRD or Factur-X PDF
+   */
+  xml?: string;
+
   /**
    * Message ID of the source email (if from an attachment)
    */
@@ -0,0 +1,150 @@
+/**
+ * Learned Template Extractor
+ *
+ * This strategy reads bills from a sender's emails with the template learned
+ * from the user's corrections of earlier bills from that sender
+ */
+
+import { Bill, BillExtractionResult } from "../../../types/Bill";
+import { EmailExtractionContext, ExtractionStrategy } from "./extractionStrategy";
+import { getProcessorForLanguage } from "../processors";
+import {
+  AMOUNT_SOURCE,
+  DATE_SOURCE,
+  LearnedFieldTemplate,
+  SEPARATOR_SOURCE,
+  VendorTemplate,
+  getPrefixSource,
+  vendorTemplateStore
+} from "../vendorTemplates";
+
+/**
+ * Prefix of the matchedPattern of bills read with a learned template
+ */
+export const LEARNED_PATTERN_PREFIX = 'learned-';
+
+// Confidence of a sender with a template, before any field is found
+const BASE_CONFIDENCE = 0.5;
+
+// Added for each field found with its template
+const FIELD_CONFIDENCE = 0.2;
+
+// Added for each further correction confirming a field's template
+const CONFIRMATION_CONFIDENCE = 0.05;
+
+const MAX_CONFIDENCE = 0.95;
+
+export class LearnedTemplateExtractor implements ExtractionStrategy {
+  readonly name = 'Learned Template Extractor';
+
+  /**
+   * @param getTemplate Looks up the template learned for a sender
+   */
+  constructor(
+    private getTemplate: (from: string) => Promise<VendorTemplate | undefined> =
+      from => vendorTemplateStore.getTemplate(from)
+  ) {}
+
+  /**
+   * Extract bills from email content
+   *
+   * @param context Email extraction context
+   * @returns Extraction result with detected bills
+   */
+  async extractFromEmail(context: EmailExtractionContext): Promise<BillExtractionResult> {
+    try {
+      const template = await this.getTemplate(context.from);
+      if (!template) {
+        return { success: false, bills: [], confidence: 0 };
+      }
+
+      const bill: Bill = {
+        id: `${LEARNED_PATTERN_PREFIX}${Date.now()}`,
+        vendor: template.vendor ? { name: template.vendor, category: template.category } : undefined,
+        currency: template.currency,
+        extractedAt: new Date().toISOString(),
+        extractionMethod: this.name,
+        matchedPattern: `${LEARNED_PATTERN_PREFIX}${template.sender}`,
+        source: {
+          type: 'email',
+          messageId: context.messageId,
+          from: context.from,
+          date: context.date,
+          subject: context.subject
+        },
+        confidence: BASE_CONFIDENCE
+      };
+
+      const amount = this.matchField(template.fields.amount, AMOUNT_SOURCE, context.body);
+      if (amount) {
+        const value = getProcessorForLanguage(amount.field.language).cleanAmount(amount.value);
+        if (!isNaN(value) && value > 0) {
+          bill.amount = value;
+          bill.language = amount.field.language;
+          bill.confidence = (bill.confidence || 0) + this.getFieldConfidence(amount.field);
+        }
+      }
+
+      const dueDate = this.matchField(template.fields.dueDate, DATE_SOURCE, context.body);
+      if (dueDate) {
+        const date = getProcessorForLanguage(dueDate.field.language).parseDate(dueDate.value);
+        if (date && !isNaN(date.getTime())) {
+          bill.dueDate = date.toISOString();
+          bill.language = bill.language || dueDate.field.language;
+          bill.confidence = (bill.confidence || 0) + this.getFieldConfidence(dueDate.field);
+        }
+      }
+
+      // The template may be stale, e.g. after the sender changed its layout
+      if (!bill.amount && !bill.dueDate) {
+        return { success: false, bills: [], confidence: 0 };
+      }
+
+      bill.confidence = Math.min(MAX_CONFIDENCE, bill.confidence || 0);
+
+      return {
+        success: true,
+        bills: [bill],
+        confidence: bill.confidence
+      };
+    } catch (error) {
+      console.error('Error in learned template extraction:', error);
+      return {
+        success: false,
+        bills: [],
+        confidence: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Find the value following a field's learned prefix
+   *
+   * @param field Learned field template, if any
+   * @param valueSource Regex source of the field's values
+   * @param content Text content to search
+   * @returns Matched value with its template, or null
+   */
+  private matchField(
+    field: LearnedFieldTemplate | undefined,
+    valueSource: string,
+    content: string
+  ): { field: LearnedFieldTemplate; value: string } | null {
+    if (!field) {
+      return null;
+    }
+
+    const regex = new RegExp(`${getPrefixSource(field.prefix)}${SEPARATOR_SOURCE}(${valueSource})`, 'iu');
+    const match = content.match(regex);
+
+    return match ? { field, value: match[1] } : null;
+  }
+
+  /**
+   * Confidence gained from a field found with its template
+   */
+  private getFieldConfidence(field: LearnedFieldTemplate): number {
+    return FIELD_CONFIDENCE + CONFIRMATION_CONFIDENCE * (field.confirmations - 1);
+  }
+}
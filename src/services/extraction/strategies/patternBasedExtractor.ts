@@ -8,7 +8,62 @@ import { Bill, BillExtractionResult } from "../../../types/Bill";
 import { EmailExtractionContext, ExtractionStrategy, PdfExtractionContext } from "./extractionStrategy";
 import { patternRegistry } from "../../multilingual/patternRegistry";
 import { getProcessorForLanguage } from "../processors";
-import { BillPattern } from "../patterns";
+import { BillPattern, LayoutFields } from "../patterns";
+import { PdfLayout, findValueByLabel } from "../../pdf/pdfLayout";
+
+/**
+ * Values looked for next to layout labels
+ */
+const LAYOUT_VALUE_PATTERNS: Record<keyof LayoutFields, RegExp> = {
+  amount: /^(?:Ft\.?|HUF|EUR|€|\$)?\s*(\d{1,3}(?:[ .,]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)/i,
+  dueDate: /^(\d{4}[.\/-]\s?\d{1,2}[.\/-]\s?\d{1,2}\.?|\d{1,2}[.\/-]\s?\d{1,2}[.\/-]\s?\d{4})/,
+  accountNumber: /^([A-Z0-9][A-Z0-9\-\/]{3,})/i
+};
+
+// Values found next to their label are more reliable than regex matches over the text
+const LAYOUT_FIELD_CONFIDENCE = 0.3;
+
+/**
+ * Regex match of a bill field
+ */
+export interface FieldCapture {
+  field: 'amount' | 'dueDate' | 'accountNumber' | 'vendor';
+  
+  /**
+   * Source of the regex that matched
+   */
+  regex: string;
+  
+  /**
+   * Full match followed by the captured groups
+   */
+  groups: string[];
+  
+  /**
+   * Value parsed from the first group, undefined when it didn't parse
+   */
+  value?: string | number;
+}
+
+/**
+ * How a pattern matched an email or PDF
+ */
+export interface PatternTrace {
+  patternId: string;
+  patternName: string;
+  
+  /**
+   * What selected the pattern (e.g. 'subject', 'sender'), empty if it wasn't
+   */
+  selectedBy: string[];
+  
+  captures: FieldCapture[];
+  
+  /**
+   * Bill the pattern produced, null when it wasn't selected or found nothing
+   */
+  bill: Bill | null;
+}
 
 export class PatternBasedExtractor implements ExtractionStrategy {
   readonly name = 'Pattern Based Extractor';
@@ -56,13 +111,8 @@ export class PatternBasedExtractor implements ExtractionStrategy {
       let highestConfidence = 0;
       
       for (const pattern of patterns) {
-        // Check if subject matches any pattern or if this is a trusted source
-        const subjectMatches = pattern.subjectPatterns.some(regex => 
-          regex.test(processedSubject)
-        );
-        
-        // Process if subject matches OR this is from a trusted source
-        if (subjectMatches || context.isTrustedSource) {
+        // Process if subject or sender matches OR this is from a trusted source
+        if (this.getEmailSelectionReasons(pattern, context, processedSubject, processedBody).length > 0) {
           const bill = this.extractBillFromPattern(pattern, processedBody, processor);
           if (bill) {
             // Add email-specific metadata
@@ -149,17 +199,14 @@ export class PatternBasedExtractor implements ExtractionStrategy {
       
       for (const pattern of patterns) {
         // For PDFs, we don't have a subject, so we check patterns directly in content
-        const keywordMatches = this.countKeywordMatches(pattern, processedText);
-        
-        // Lower threshold for trusted sources (1 instead of 2 keywords)
-        const requiredMatches = context.isTrustedSource ? 1 : 2;
-        
-        if (keywordMatches >= requiredMatches) {
-          const bill = this.extractBillFromPattern(pattern, processedText, processor);
+        if (this.getPdfSelectionReasons(pattern, context, processedText).length > 0) {
+          const bill = this.extractBillFromPattern(pattern, processedText, processor, undefined, context.layout);
           if (bill) {
             // Add PDF-specific metadata
             bill.source = {
               type: 'pdf',
+              messageId: context.messageId,
+              attachmentId: context.attachmentId,
               fileName: context.filename,
               date: new Date().toISOString() // Use current date as fallback
             };
@@ -196,35 +243,170 @@ export class PatternBasedExtractor implements ExtractionStrategy {
     }
   }
   
+  /**
+   * Run every pattern of the context's language and report how each one
+   * matched, for debugging why a bill was or wasn't picked up
+   * 
+   * @param context Email or PDF extraction context
+   * @returns Trace of each pattern, selected or not
+   */
+  tracePatterns(context: EmailExtractionContext | PdfExtractionContext): PatternTrace[] {
+    if (!context.language) {
+      return [];
+    }
+    
+    const processor = getProcessorForLanguage(context.language);
+    const isPdf = 'text' in context;
+    const content = processor.processText(isPdf ? context.text : context.body);
+    const subject = isPdf ? '' : processor.processText(context.subject);
+    
+    return patternRegistry.getPatternsForLanguage(context.language).map(pattern => {
+      const selectedBy = isPdf
+        ? this.getPdfSelectionReasons(pattern, context, content)
+        : this.getEmailSelectionReasons(pattern, context as EmailExtractionContext, subject, content);
+      
+      // Captures are traced for unselected patterns too, to show what they would extract
+      const captures: FieldCapture[] = [];
+      const bill = this.extractBillFromPattern(pattern, content, processor, captures, isPdf ? context.layout : undefined);
+      
+      return {
+        patternId: pattern.id,
+        patternName: pattern.name,
+        selectedBy,
+        captures,
+        bill: selectedBy.length > 0 ? bill : null
+      };
+    });
+  }
+  
+  /**
+   * Get why a pattern applies to an email
+   * 
+   * @param pattern Bill pattern to check
+   * @param context Email extraction context
+   * @param subject Processed subject
+   * @param body Processed body
+   * @returns What selected the pattern, empty when it doesn't apply
+   */
+  private getEmailSelectionReasons(
+    pattern: BillPattern,
+    context: EmailExtractionContext,
+    subject: string,
+    body: string
+  ): string[] {
+    // Body patterns must match whatever selected the pattern
+    if (!this.matchesBodyPatterns(pattern, body)) {
+      return [];
+    }
+    
+    const reasons: string[] = [];
+    
+    if (pattern.subjectPatterns.some(regex => regex.test(subject))) {
+      reasons.push('subject');
+    }
+    
+    if (pattern.senderPatterns?.some(regex => regex.test(context.from))) {
+      reasons.push('sender');
+    }
+    
+    if (context.isTrustedSource) {
+      reasons.push('trusted source');
+    }
+    
+    return reasons;
+  }
+  
+  /**
+   * Get why a pattern applies to PDF text
+   * 
+   * @param pattern Bill pattern to check
+   * @param context PDF extraction context
+   * @param text Processed PDF text
+   * @returns What selected the pattern, empty when it doesn't apply
+   */
+  private getPdfSelectionReasons(
+    pattern: BillPattern,
+    context: PdfExtractionContext,
+    text: string
+  ): string[] {
+    const reasons: string[] = [];
+    const keywordMatches = this.countKeywordMatches(pattern, text);
+    
+    // Lower threshold for trusted sources (1 instead of 2 keywords)
+    const requiredMatches = context.isTrustedSource ? 1 : 2;
+    
+    if (keywordMatches >= requiredMatches) {
+      reasons.push(`${keywordMatches} keywords`);
+    }
+    
+    // Patterns with body patterns of their own apply whenever those match
+    if (pattern.bodyPatterns && this.matchesBodyPatterns(pattern, text)) {
+      reasons.push('content');
+    }
+    
+    return reasons;
+  }
+  
   /**
    * Extract bill details using a specific pattern
    * 
    * @param pattern Bill pattern to match against
    * @param content Text content to extract from
    * @param processor Language-specific processor
+   * @param captures Optional list collecting the regex match of each field
+   * @param layout Optional PDF layout, searched for the pattern's layout fields first
    * @returns Bill object if extraction successful, null otherwise
    */
   private extractBillFromPattern(
     pattern: BillPattern, 
     content: string, 
-    processor: any
+    processor: any,
+    captures?: FieldCapture[],
+    layout?: PdfLayout
   ): Bill | null {
     try {
       const bill: Bill = {
         id: `${pattern.id}-${Date.now()}`,
         type: pattern.name,
         vendor: pattern.vendor,
+        currency: pattern.currency,
         language: pattern.language,
         extractedAt: new Date().toISOString(),
+        extractionMethod: this.name,
+        matchedPattern: pattern.id,
         confidence: 0
       };
       
+      // Extract fields placed next to their labels in the PDF layout
+      const layoutAmount = this.matchLayoutField(pattern, 'amount', layout);
+      if (layoutAmount) {
+        bill.amount = processor.cleanAmount(layoutAmount.value);
+        captures?.push({ field: 'amount', regex: layoutAmount.regex, groups: [layoutAmount.value, layoutAmount.value], value: bill.amount });
+        bill.confidence = (bill.confidence || 0) + LAYOUT_FIELD_CONFIDENCE;
+      }
+      
+      const layoutDueDate = this.matchLayoutField(pattern, 'dueDate', layout);
+      const layoutDate = layoutDueDate ? processor.parseDate(layoutDueDate.value) : null;
+      if (layoutDueDate && layoutDate) {
+        bill.dueDate = layoutDate.toISOString();
+        captures?.push({ field: 'dueDate', regex: layoutDueDate.regex, groups: [layoutDueDate.value, layoutDueDate.value], value: bill.dueDate });
+        bill.confidence = (bill.confidence || 0) + LAYOUT_FIELD_CONFIDENCE;
+      }
+      
+      const layoutAccountNumber = this.matchLayoutField(pattern, 'accountNumber', layout);
+      if (layoutAccountNumber) {
+        bill.accountNumber = layoutAccountNumber.value;
+        captures?.push({ field: 'accountNumber', regex: layoutAccountNumber.regex, groups: [layoutAccountNumber.value, layoutAccountNumber.value], value: bill.accountNumber });
+        bill.confidence = (bill.confidence || 0) + LAYOUT_FIELD_CONFIDENCE;
+      }
+      
       // Extract amount
-      if (pattern.contentPatterns.amount) {
+      if (pattern.contentPatterns.amount && !bill.amount) {
         for (const regex of pattern.contentPatterns.amount) {
           const match = content.match(regex);
           if (match && match[1]) {
             bill.amount = processor.cleanAmount(match[1]);
+            captures?.push({ field: 'amount', regex: regex.source, groups: Array.from(match), value: bill.amount });
             bill.confidence = (bill.confidence || 0) + 0.25;
             break;
           }
@@ -232,11 +414,12 @@ export class PatternBasedExtractor implements ExtractionStrategy {
       }
       
       // Extract due date
-      if (pattern.contentPatterns.dueDate) {
+      if (pattern.contentPatterns.dueDate && !bill.dueDate) {
         for (const regex of pattern.contentPatterns.dueDate) {
           const match = content.match(regex);
           if (match && match[1]) {
             const date = processor.parseDate(match[1]);
+            captures?.push({ field: 'dueDate', regex: regex.source, groups: Array.from(match), value: date?.toISOString() });
             if (date) {
               bill.dueDate = date.toISOString();
               bill.confidence = (bill.confidence || 0) + 0.25;
@@ -247,11 +430,12 @@ export class PatternBasedExtractor implements ExtractionStrategy {
       }
       
       // Extract account number
-      if (pattern.contentPatterns.accountNumber) {
+      if (pattern.contentPatterns.accountNumber && !bill.accountNumber) {
         for (const regex of pattern.contentPatterns.accountNumber) {
           const match = content.match(regex);
           if (match && match[1]) {
             bill.accountNumber = match[1];
+            captures?.push({ field: 'accountNumber', regex: regex.source, groups: Array.from(match), value: bill.accountNumber });
             bill.confidence = (bill.confidence || 0) + 0.25;
             break;
           }
@@ -265,6 +449,7 @@ export class PatternBasedExtractor implements ExtractionStrategy {
           if (match && match[1]) {
             bill.vendor = bill.vendor || {};
             bill.vendor.name = match[1].trim();
+            captures?.push({ field: 'vendor', regex: regex.source, groups: Array.from(match), value: bill.vendor.name });
             bill.confidence = (bill.confidence || 0) + 0.25;
             break;
           }
@@ -287,6 +472,44 @@ export class PatternBasedExtractor implements ExtractionStrategy {
     }
   }
   
+  /**
+   * Find a field's value next to one of the pattern's layout labels
+   * 
+   * @param pattern Bill pattern with optional layout fields
+   * @param field Field to find
+   * @param layout PDF layout, if any
+   * @returns Value text with a description of the label that located it, or null
+   */
+  private matchLayoutField(
+    pattern: BillPattern,
+    field: keyof LayoutFields,
+    layout?: PdfLayout
+  ): { value: string; regex: string } | null {
+    if (!layout) {
+      return null;
+    }
+    
+    for (const { label, positions } of pattern.layoutFields?.[field] || []) {
+      const value = findValueByLabel(layout, label, LAYOUT_VALUE_PATTERNS[field], positions);
+      if (value) {
+        return { value, regex: `layout: ${label.source}` };
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Check that content matches every body pattern of a pattern
+   * 
+   * @param pattern Bill pattern with optional body patterns
+   * @param content Text content to check
+   * @returns Whether all body patterns match, true when there are none
+   */
+  private matchesBodyPatterns(pattern: BillPattern, content: string): boolean {
+    return (pattern.bodyPatterns || []).every(regex => regex.test(content));
+  }
+  
   /**
    * Count keyword matches in content
    * 
@@ -0,0 +1,96 @@
+/**
+ * XML Invoice Extractor
+ *
+ * This strategy reads bills exactly from structured e-invoices: XML invoice
+ * attachments and the invoice XML embedded in ZUGFeRD and Factur-X PDFs
+ */
+
+import { Bill, BillExtractionResult } from "../../../types/Bill";
+import { EmailExtractionContext, ExtractionStrategy, PdfExtractionContext } from "./extractionStrategy";
+import { EXACT_CONFIDENCE } from "../billReconciler";
+import { parseXmlInvoice } from "../xmlInvoice";
+
+/**
+ * Prefix of the matchedPattern of bills read from e-invoices, followed by the format
+ */
+export const XML_INVOICE_PATTERN_PREFIX = 'xml-';
+
+/**
+ * Keep only the e-invoice bills of a message when it has any. The bills found
+ * in its body and other attachments are guesses at the same invoice, and have
+ * a different source, so the reconciler can't merge them.
+ *
+ * @param bills Bills of one message, from its body and attachments
+ * @returns The e-invoice bills, or all bills when there are none
+ */
+export function preferXmlInvoiceBills<T extends { matchedPattern?: string }>(bills: T[]): T[] {
+  const invoiceBills = bills.filter(bill => bill.matchedPattern?.startsWith(XML_INVOICE_PATTERN_PREFIX));
+  return invoiceBills.length > 0 ? invoiceBills : bills;
+}
+
+export class XmlInvoiceExtractor implements ExtractionStrategy {
+  readonly name = 'XML Invoice Extractor';
+
+  /**
+   * Email bodies carry no e-invoice, those come as attachments
+   *
+   * @param context Email extraction context
+   * @returns Empty extraction result
+   */
+  async extractFromEmail(context: EmailExtractionContext): Promise<BillExtractionResult> {
+    return { success: false, bills: [], confidence: 0 };
+  }
+
+  /**
+   * Extract the bill of an e-invoice attachment
+   *
+   * @param context PDF extraction context with the invoice XML
+   * @returns Extraction result with the invoice's bill
+   */
+  async extractFromPdf(context: PdfExtractionContext): Promise<BillExtractionResult> {
+    try {
+      if (!context.xml) {
+        return { success: false, bills: [], confidence: 0 };
+      }
+
+      const invoice = parseXmlInvoice(context.xml);
+      if (!invoice) {
+        return { success: false, bills: [], confidence: 0, error: 'Not a supported XML invoice' };
+      }
+
+      const bill: Bill = {
+        id: `${XML_INVOICE_PATTERN_PREFIX}${Date.now()}`,
+        amount: invoice.amountDue,
+        currency: invoice.currency,
+        dueDate: invoice.dueDate,
+        invoiceNumber: invoice.invoiceNumber,
+        issueDate: invoice.issueDate,
+        totals: invoice.totals,
+        lineItems: invoice.lineItems.length > 0 ? invoice.lineItems : undefined,
+        vendor: invoice.supplierName ? { name: invoice.supplierName } : undefined,
+        extractedAt: new Date().toISOString(),
+        extractionMethod: this.name,
+        matchedPattern: `${XML_INVOICE_PATTERN_PREFIX}${invoice.format}`,
+        source: {
+          type: 'pdf',
+          messageId: context.messageId,
+          attachmentId: context.attachmentId,
+          fileName: context.filename
+        },
+        language: context.language,
+        // Values read from the invoice's own data aren't guesses
+        confidence: EXACT_CONFIDENCE
+      };
+
+      return { success: true, bills: [bill], confidence: EXACT_CONFIDENCE };
+    } catch (error) {
+      console.error('Error in XML invoice extraction:', error);
+      return {
+        success: false,
+        bills: [],
+        confidence: 0,
+        error: error instanceof Error ? error.message : 'Unknown error in XML invoice extraction'
+      };
+    }
+  }
+}
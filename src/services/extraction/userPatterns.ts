@@ -0,0 +1,105 @@
+/**
+ * User Patterns
+ *
+ * Keeps the custom vendor patterns stored per user in Supabase loaded into
+ * the pattern registry next to the built-in patterns
+ */
+
+import { VendorPattern } from '../../types';
+import { deleteUserPattern, getUserPatterns, saveUserPattern } from '../supabase/client';
+import { patternRegistry } from '../multilingual/patternRegistry';
+import { compileVendorPattern, validateVendorPattern } from './patterns/vendorPatterns';
+
+// User whose patterns are in the registry, so scans don't refetch them per message
+let loadedUserId: string | null = null;
+
+/**
+ * Load a user's custom patterns into the pattern registry
+ *
+ * @param userId Supabase user ID, or null to clear the user patterns
+ * @param force Reload even if the user's patterns are already loaded
+ * @returns Number of patterns loaded
+ */
+export async function loadUserPatterns(userId: string | null, force = false): Promise<number> {
+  if (!userId) {
+    patternRegistry.setUserPatterns([]);
+    loadedUserId = null;
+    return 0;
+  }
+
+  if (!force && loadedUserId === userId) {
+    return patternRegistry.getUserPatterns().length;
+  }
+
+  const definitions = await getUserPatterns(userId);
+  const patterns = definitions
+    .filter(definition => {
+      // Stored patterns were validated on save, but the format may have changed since
+      const errors = validateVendorPattern(definition);
+      if (errors.length > 0) {
+        console.warn(`Skipping invalid user pattern ${definition.id}:`, errors);
+        return false;
+      }
+      return true;
+    })
+    .map(compileVendorPattern);
+
+  patternRegistry.setUserPatterns(patterns);
+  loadedUserId = userId;
+  console.log(`Loaded ${patterns.length} user patterns`);
+
+  return patterns.length;
+}
+
+/**
+ * List a user's custom patterns
+ *
+ * @param userId Supabase user ID
+ * @returns Stored pattern definitions
+ */
+export async function listUserPatterns(userId: string): Promise<VendorPattern[]> {
+  return getUserPatterns(userId);
+}
+
+/**
+ * Validate and save a custom pattern, then reload the user's patterns
+ *
+ * @param userId Supabase user ID
+ * @param pattern Pattern definition, updated in place when it has an ID
+ * @returns Response with the saved pattern or the validation errors
+ */
+export async function storeUserPattern(
+  userId: string,
+  pattern: VendorPattern
+): Promise<{ success: boolean; pattern?: VendorPattern; error?: string }> {
+  const errors = validateVendorPattern(pattern);
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('; ') };
+  }
+
+  const result = await saveUserPattern(userId, pattern);
+  if (result.success) {
+    await loadUserPatterns(userId, true);
+  }
+
+  return result;
+}
+
+/**
+ * Delete a custom pattern, then reload the user's patterns
+ *
+ * @param userId Supabase user ID
+ * @param patternId Pattern ID
+ * @returns Response with status
+ */
+export async function removeUserPattern(
+  userId: string,
+  patternId: string
+): Promise<{ success: boolean; error?: string }> {
+  const result = await deleteUserPattern(userId, patternId);
+  if (result.success) {
+    await loadUserPatterns(userId, true);
+  }
+
+  return result;
+}
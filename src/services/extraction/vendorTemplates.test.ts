@@ -0,0 +1,74 @@
+import { VendorTemplate, findValueContext, learnTemplate } from './vendorTemplates';
+import { LearnedTemplateExtractor } from './strategies/learnedTemplateExtractor';
+import { PatternBasedExtractor } from './strategies/patternBasedExtractor';
+import { initializePatternRegistry } from '../multilingual/registerPatterns';
+
+const FROM = 'Northwind Gas <billing@northwind.example>';
+
+const januaryBill = [
+  'Northwind Gas',
+  'Invoice 2026-0117',
+  'Meter reading: 1,482 m3',
+  'Balance brought forward: 12.00',
+  'Total to pay: $63.40',
+  'Please pay by',
+  'March 3, 2026'
+].join('\n');
+
+const februaryBill = januaryBill
+  .replace('2026-0117', '2026-0214')
+  .replace('$63.40', '$71.95')
+  .replace('March 3, 2026', 'April 2, 2026');
+
+describe('Vendor Templates', () => {
+  beforeAll(() => {
+    initializePatternRegistry();
+  });
+
+  it('should locate a corrected value and the label in front of it', () => {
+    expect(findValueContext(januaryBill, 'amount', 63.4, 'en')).toEqual({ prefix: 'Total to pay', language: 'en' });
+    expect(findValueContext(januaryBill, 'dueDate', '2026-03-03', 'en')).toEqual({ prefix: 'Please pay by', language: 'en' });
+    expect(findValueContext(januaryBill, 'amount', 99.99, 'en')).toBe(null);
+  });
+
+  it('should confirm a template when the same label is learned again', () => {
+    const correction = { from: FROM, body: januaryBill, vendor: 'Northwind Gas', amount: 63.4, dueDate: '2026-03-03', language: 'en' };
+    const first = learnTemplate(undefined, correction);
+    const second = learnTemplate(first.template, correction);
+
+    expect(first.learnedFields).toEqual(['amount', 'dueDate']);
+    expect(second.template.sender).toBe('billing@northwind.example');
+    expect(second.template.fields.amount?.confirmations).toBe(2);
+  });
+
+  it('should read the next bill of the sender with more confidence than the built-in strategies', async () => {
+    const { template } = learnTemplate(undefined, {
+      from: FROM,
+      body: januaryBill,
+      vendor: 'Northwind Gas',
+      category: 'Utilities',
+      amount: 63.4,
+      dueDate: '2026-03-03',
+      language: 'en'
+    });
+    const templates: Record<string, VendorTemplate> = { [template.sender]: template };
+    const context = {
+      messageId: 'fixture',
+      from: FROM,
+      subject: 'Your gas bill',
+      body: februaryBill,
+      date: '',
+      language: 'en'
+    };
+
+    const learned = await new LearnedTemplateExtractor(async from => templates[from.match(/<(.+)>/)![1]])
+      .extractFromEmail(context);
+    const patterns = await new PatternBasedExtractor().extractFromEmail(context);
+
+    expect(learned.bills).toHaveLength(1);
+    expect(learned.bills[0].amount).toBe(71.95);
+    expect(learned.bills[0].dueDate).toBe(new Date(2026, 3, 2).toISOString());
+    expect(learned.bills[0].vendor?.category).toBe('Utilities');
+    expect(learned.confidence).toBeGreaterThan(patterns.confidence);
+  });
+});
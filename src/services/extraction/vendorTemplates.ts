@@ -0,0 +1,330 @@
+/**
+ * Vendor Templates
+ *
+ * Learns per-sender templates from the corrections users make to extracted
+ * bills. A template remembers the text in front of the correct amount and due
+ * date, so the next bill from the same sender is read from the same place.
+ */
+
+import { LanguageCode } from '../multilingual/languageRegistry';
+import { getProcessorForLanguage, processorRegistry } from './processors';
+
+// Storage key for learned templates in chrome.storage.local
+const VENDOR_TEMPLATES_KEY = 'vendor_templates';
+
+// Senders with the oldest templates are forgotten beyond this
+const MAX_TEMPLATES = 200;
+
+// Longest label kept in front of a value
+const MAX_PREFIX_LENGTH = 40;
+
+// Labels shorter than this are too generic to locate a value
+const MIN_PREFIX_LETTERS = 3;
+
+/**
+ * Amounts such as "48.20", "1,234.56" or "12 345"
+ */
+export const AMOUNT_SOURCE = '\\d+(?:[ .,]\\d{3})*(?:[.,]\\d{1,2})?';
+
+/**
+ * Numeric dates and dates with a month name, in the orders the language processors parse
+ */
+export const DATE_SOURCE = [
+  '\\d{4}\\.\\s*\\p{L}+\\s+\\d{1,2}\\.?',
+  '\\d{1,4}[./-]\\s?\\d{1,2}[./-]\\s?\\d{1,4}\\.?',
+  '\\p{L}+\\.?\\s+\\d{1,2},?\\s+\\d{4}',
+  '\\d{1,2}\\.?\\s+\\p{L}+\\.?\\s+\\d{4}'
+].join('|');
+
+/**
+ * Characters allowed between a label and its value, e.g. ": $" or a line break
+ */
+export const SEPARATOR_SOURCE = '[^\\p{L}\\p{N}]{0,12}';
+
+/**
+ * Where a field's value is found in a sender's emails
+ */
+export interface LearnedFieldTemplate {
+  /**
+   * Text in front of the value, on its line or the line above
+   */
+  prefix: string;
+
+  /**
+   * Language whose processor reproduced the corrected value
+   */
+  language: LanguageCode;
+
+  /**
+   * Number of corrections that pointed at the same prefix
+   */
+  confirmations: number;
+
+  learnedAt: string;
+}
+
+/**
+ * Template learned for one sender
+ */
+export interface VendorTemplate {
+  /**
+   * Lowercased sender address
+   */
+  sender: string;
+  vendor?: string;
+  category?: string;
+  currency?: string;
+  fields: {
+    amount?: LearnedFieldTemplate;
+    dueDate?: LearnedFieldTemplate;
+  };
+  updatedAt: string;
+}
+
+/**
+ * Bill values confirmed by the user for an email
+ */
+export interface BillCorrection {
+  /**
+   * From header of the email
+   */
+  from: string;
+
+  /**
+   * Plain text body of the email
+   */
+  body: string;
+
+  vendor?: string;
+  category?: string;
+  currency?: string;
+  amount?: number;
+
+  /**
+   * Due date as YYYY-MM-DD or an ISO string
+   */
+  dueDate?: string;
+
+  /**
+   * Language tried first when reading values, e.g. the user's input language
+   */
+  language?: LanguageCode;
+}
+
+/**
+ * Get the lowercased address of a From header
+ */
+export function getSenderAddress(from: string): string {
+  return (from.match(/<([^>]+)>/)?.[1] || from).trim().toLowerCase();
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time, the way date inputs report it
+ */
+function toDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Get the label in front of a value, or null when there's no usable one
+ *
+ * @param text Text containing the value
+ * @param index Index of the value in the text
+ */
+function getPrefix(text: string, index: number): string | null {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  let prefix = text.slice(lineStart, index);
+
+  // Fall back to the line above for values shown under their label
+  if (!/\p{L}/u.test(prefix) && lineStart > 0) {
+    const lines = text.slice(0, lineStart).split('\n').filter(line => line.trim() !== '');
+    prefix = lines[lines.length - 1] || '';
+  }
+
+  prefix = prefix.replace(/[^\p{L}\p{N}]+$/u, '').replace(/\s+/g, ' ').trim();
+  if (prefix.length > MAX_PREFIX_LENGTH) {
+    prefix = prefix.slice(-MAX_PREFIX_LENGTH).replace(/^\S*\s/, '');
+  }
+
+  return (prefix.match(/\p{L}/gu) || []).length >= MIN_PREFIX_LETTERS ? prefix : null;
+}
+
+/**
+ * Build the regex source matching a learned prefix, digits such as invoice
+ * numbers are allowed to change between emails
+ */
+export function getPrefixSource(prefix: string): string {
+  return prefix
+    .split(/(\d+|\s+)/)
+    .map(part => {
+      if (/^\d+$/.test(part)) return '\\d+';
+      if (/^\s+$/.test(part)) return '\\s+';
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+}
+
+/**
+ * Languages to try when reading a value, the preferred one first
+ */
+function getCandidateLanguages(preferred?: LanguageCode): LanguageCode[] {
+  const languages = processorRegistry.getSupportedLanguages();
+  return preferred ? [preferred, ...languages.filter(language => language !== preferred)] : languages;
+}
+
+/**
+ * Find where a corrected value appears in an email's text
+ *
+ * @param text Email text
+ * @param field Field the value belongs to
+ * @param value Corrected amount, or due date as YYYY-MM-DD
+ * @param preferredLanguage Language tried first when parsing candidates
+ * @returns Label in front of the value and the language that parsed it, or null
+ */
+export function findValueContext(
+  text: string,
+  field: 'amount' | 'dueDate',
+  value: number | string,
+  preferredLanguage?: LanguageCode
+): { prefix: string; language: LanguageCode } | null {
+  const regex = new RegExp(field === 'amount' ? AMOUNT_SOURCE : DATE_SOURCE, 'gu');
+  const languages = getCandidateLanguages(preferredLanguage);
+
+  for (const match of text.matchAll(regex)) {
+    const language = languages.find(code => {
+      const processor = getProcessorForLanguage(code);
+      if (field === 'amount') {
+        return Math.abs(processor.cleanAmount(match[0]) - Number(value)) < 0.005;
+      }
+      const date = processor.parseDate(match[0]);
+      return date !== null && !isNaN(date.getTime()) && toDay(date) === value;
+    });
+
+    if (!language) {
+      continue;
+    }
+
+    const prefix = getPrefix(text, match.index!);
+    if (prefix) {
+      return { prefix, language };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Learn a field template, confirming the existing one when the prefix is the same
+ */
+function learnField(
+  existing: LearnedFieldTemplate | undefined,
+  context: { prefix: string; language: LanguageCode }
+): LearnedFieldTemplate {
+  if (existing && existing.prefix === context.prefix && existing.language === context.language) {
+    return { ...existing, confirmations: existing.confirmations + 1, learnedAt: new Date().toISOString() };
+  }
+
+  return { ...context, confirmations: 1, learnedAt: new Date().toISOString() };
+}
+
+/**
+ * Update a sender's template with a correction
+ *
+ * @param existing Template learned so far, if any
+ * @param correction Values confirmed by the user
+ * @returns Updated template and the fields located in the email
+ */
+export function learnTemplate(
+  existing: VendorTemplate | undefined,
+  correction: BillCorrection
+): { template: VendorTemplate; learnedFields: string[] } {
+  const sender = getSenderAddress(correction.from);
+  const template: VendorTemplate = {
+    sender,
+    vendor: correction.vendor || existing?.vendor,
+    category: correction.category || existing?.category,
+    currency: correction.currency || existing?.currency,
+    fields: { ...existing?.fields },
+    updatedAt: new Date().toISOString()
+  };
+  const learnedFields: string[] = [];
+
+  if (typeof correction.amount === 'number' && !isNaN(correction.amount)) {
+    const context = findValueContext(correction.body, 'amount', correction.amount, correction.language);
+    if (context) {
+      template.fields.amount = learnField(existing?.fields.amount, context);
+      learnedFields.push('amount');
+    }
+  }
+
+  if (correction.dueDate) {
+    // Extracted dates are ISO strings of local midnight, date inputs give the day itself
+    const day = /^\d{4}-\d{2}-\d{2}$/.test(correction.dueDate)
+      ? correction.dueDate
+      : toDay(new Date(correction.dueDate));
+    const context = findValueContext(correction.body, 'dueDate', day, correction.language);
+    if (context) {
+      template.fields.dueDate = learnField(existing?.fields.dueDate, context);
+      learnedFields.push('dueDate');
+    }
+  }
+
+  return { template, learnedFields };
+}
+
+/**
+ * Learned templates, kept in chrome.storage.local keyed by sender address
+ */
+export class VendorTemplateStore {
+  private templates: Record<string, VendorTemplate> | null = null;
+
+  /**
+   * Load the templates from storage once
+   */
+  private async load(): Promise<Record<string, VendorTemplate>> {
+    if (!this.templates) {
+      const stored = await chrome.storage.local.get(VENDOR_TEMPLATES_KEY);
+      this.templates = stored[VENDOR_TEMPLATES_KEY] || {};
+    }
+    return this.templates!;
+  }
+
+  /**
+   * Get the template learned for a sender
+   *
+   * @param from Sender address or From header
+   * @returns Template, or undefined when nothing was learned
+   */
+  async getTemplate(from: string): Promise<VendorTemplate | undefined> {
+    const templates = await this.load();
+    return templates[getSenderAddress(from)];
+  }
+
+  /**
+   * Learn from a correction and store the sender's updated template
+   *
+   * @param correction Values confirmed by the user
+   * @returns Fields located in the email
+   */
+  async recordCorrection(correction: BillCorrection): Promise<string[]> {
+    const templates = await this.load();
+    const sender = getSenderAddress(correction.from);
+    const { template, learnedFields } = learnTemplate(templates[sender], correction);
+
+    templates[sender] = template;
+
+    const senders = Object.keys(templates);
+    if (senders.length > MAX_TEMPLATES) {
+      senders
+        .sort((a, b) => templates[a].updatedAt.localeCompare(templates[b].updatedAt))
+        .slice(0, senders.length - MAX_TEMPLATES)
+        .forEach(oldest => delete templates[oldest]);
+    }
+
+    await chrome.storage.local.set({ [VENDOR_TEMPLATES_KEY]: templates });
+    return learnedFields;
+  }
+}
+
+export const vendorTemplateStore = new VendorTemplateStore();
@@ -0,0 +1,198 @@
+import { isXmlAttachment, parseXmlInvoice } from './xmlInvoice';
+import { XmlInvoiceExtractor, preferXmlInvoiceBills } from './strategies/xmlInvoiceExtractor';
+import { reconcileBills } from './billReconciler';
+
+const navInvoice = `<?xml version="1.0" encoding="UTF-8"?>
+<InvoiceData xmlns="http://schemas.nav.gov.hu/OSA/3.0/data" xmlns:base="http://schemas.nav.gov.hu/OSA/3.0/base">
+  <invoiceNumber>E-FŐGÁZ-2026-0042</invoiceNumber>
+  <invoiceIssueDate>2026-03-15</invoiceIssueDate>
+  <invoiceMain>
+    <invoice>
+      <invoiceHead>
+        <supplierInfo>
+          <supplierTaxNumber>
+            <base:taxpayerId>01234567</base:taxpayerId>
+            <base:vatCode>2</base:vatCode>
+            <base:countyCode>44</base:countyCode>
+          </supplierTaxNumber>
+          <supplierName>Főgáz Zrt.</supplierName>
+        </supplierInfo>
+        <invoiceDetail>
+          <currencyCode>HUF</currencyCode>
+          <paymentDate>2026-04-02</paymentDate>
+        </invoiceDetail>
+      </invoiceHead>
+      <invoiceLines>
+        <line>
+          <lineNumber>1</lineNumber>
+          <lineDescription>Földgáz</lineDescription>
+          <quantity>120</quantity>
+          <unitOfMeasure>OWN</unitOfMeasure>
+          <unitOfMeasureOwn>m3</unitOfMeasureOwn>
+          <unitPrice>50</unitPrice>
+          <lineAmountsNormal>
+            <lineNetAmountData><lineNetAmount>6000</lineNetAmount></lineNetAmountData>
+            <lineVatRate><vatPercentage>0.27</vatPercentage></lineVatRate>
+            <lineGrossAmountData><lineGrossAmountNormal>7620</lineGrossAmountNormal></lineGrossAmountData>
+          </lineAmountsNormal>
+        </line>
+      </invoiceLines>
+      <invoiceSummary>
+        <summaryNormal>
+          <invoiceNetAmount>6000</invoiceNetAmount>
+          <invoiceVatAmount>1620</invoiceVatAmount>
+        </summaryNormal>
+        <summaryGrossData><invoiceGrossAmount>7620</invoiceGrossAmount></summaryGrossData>
+      </invoiceSummary>
+    </invoice>
+  </invoiceMain>
+</InvoiceData>`;
+
+const ublInvoice = `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:ID>0042</cbc:ID>
+  <cbc:IssueDate>2026-03-01</cbc:IssueDate>
+  <cbc:DueDate>2026-03-31</cbc:DueDate>
+  <cbc:DocumentCurrencyCode>EUR</cbc:DocumentCurrencyCode>
+  <cac:AccountingSupplierParty>
+    <cac:Party>
+      <cac:PartyName><cbc:Name>Northwind Hosting</cbc:Name></cac:PartyName>
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:TaxTotal><cbc:TaxAmount currencyID="EUR">4.75</cbc:TaxAmount></cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:TaxExclusiveAmount currencyID="EUR">25.00</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="EUR">29.75</cbc:TaxInclusiveAmount>
+    <cbc:PrepaidAmount currencyID="EUR">9.75</cbc:PrepaidAmount>
+    <cbc:PayableAmount currencyID="EUR">20.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="MON">1</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="EUR">25.00</cbc:LineExtensionAmount>
+    <cac:Item>
+      <cbc:Name>VPS S</cbc:Name>
+      <cac:ClassifiedTaxCategory><cbc:Percent>19</cbc:Percent></cac:ClassifiedTaxCategory>
+    </cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="EUR">25.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+</Invoice>`;
+
+const crossIndustryInvoice = `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"
+  xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"
+  xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocument>
+    <ram:ID>RE-2026-117</ram:ID>
+    <ram:IssueDateTime><udt:DateTimeString format="102">20260310</udt:DateTimeString></ram:IssueDateTime>
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>
+    <ram:IncludedSupplyChainTradeLineItem>
+      <ram:SpecifiedTradeProduct><ram:Name>Strom Grundpreis</ram:Name></ram:SpecifiedTradeProduct>
+      <ram:SpecifiedLineTradeAgreement>
+        <ram:NetPriceProductTradePrice><ram:ChargeAmount>12.50</ram:ChargeAmount></ram:NetPriceProductTradePrice>
+      </ram:SpecifiedLineTradeAgreement>
+      <ram:SpecifiedLineTradeDelivery><ram:BilledQuantity unitCode="C62">2</ram:BilledQuantity></ram:SpecifiedLineTradeDelivery>
+      <ram:SpecifiedLineTradeSettlement>
+        <ram:ApplicableTradeTax><ram:RateApplicablePercent>19</ram:RateApplicablePercent></ram:ApplicableTradeTax>
+        <ram:SpecifiedTradeSettlementLineMonetarySummation><ram:LineTotalAmount>25.00</ram:LineTotalAmount></ram:SpecifiedTradeSettlementLineMonetarySummation>
+      </ram:SpecifiedLineTradeSettlement>
+    </ram:IncludedSupplyChainTradeLineItem>
+    <ram:ApplicableHeaderTradeAgreement>
+      <ram:SellerTradeParty><ram:Name>Stadtwerke Musterstadt GmbH</ram:Name></ram:SellerTradeParty>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:InvoiceCurrencyCode>EUR</ram:InvoiceCurrencyCode>
+      <ram:SpecifiedTradePaymentTerms>
+        <ram:DueDateDateTime><udt:DateTimeString format="102">20260331</udt:DateTimeString></ram:DueDateDateTime>
+      </ram:SpecifiedTradePaymentTerms>
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:TaxBasisTotalAmount>25.00</ram:TaxBasisTotalAmount>
+        <ram:TaxTotalAmount currencyID="EUR">4.75</ram:TaxTotalAmount>
+        <ram:GrandTotalAmount>29.75</ram:GrandTotalAmount>
+        <ram:DuePayableAmount>29.75</ram:DuePayableAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>`;
+
+describe('XML Invoices', () => {
+  it('should read NAV Online Számla invoice data', () => {
+    const invoice = parseXmlInvoice(navInvoice);
+
+    expect(invoice?.format).toBe('nav');
+    expect(invoice?.invoiceNumber).toBe('E-FŐGÁZ-2026-0042');
+    expect(invoice?.supplierName).toBe('Főgáz Zrt.');
+    expect(invoice?.supplierTaxNumber).toBe('01234567-2-44');
+    expect(invoice?.dueDate).toBe(new Date(2026, 3, 2).toISOString());
+    expect(invoice?.totals).toEqual({ net: 6000, vat: 1620, gross: 7620 });
+    expect(invoice?.lineItems).toEqual([{
+      description: 'Földgáz',
+      quantity: 120,
+      unit: 'm3',
+      unitPrice: 50,
+      netAmount: 6000,
+      vatRate: 27,
+      grossAmount: 7620
+    }]);
+  });
+
+  it('should read UBL and Cross Industry invoices', () => {
+    const ubl = parseXmlInvoice(ublInvoice);
+    const cii = parseXmlInvoice(crossIndustryInvoice);
+
+    expect(ubl?.invoiceNumber).toBe('0042');
+    expect(ubl?.supplierName).toBe('Northwind Hosting');
+    expect(ubl?.amountDue).toBe(20);
+    expect(ubl?.totals).toEqual({ net: 25, vat: 4.75, gross: 29.75 });
+    expect(ubl?.lineItems[0].unit).toBe('MON');
+
+    expect(cii?.format).toBe('cii');
+    expect(cii?.issueDate).toBe(new Date(2026, 2, 10).toISOString());
+    expect(cii?.dueDate).toBe(new Date(2026, 2, 31).toISOString());
+    expect(cii?.supplierName).toBe('Stadtwerke Musterstadt GmbH');
+    expect(cii?.lineItems[0].quantity).toBe(2);
+
+    expect(parseXmlInvoice('<feed><entry/></feed>')).toBe(null);
+    expect(isXmlAttachment('szamla.XML')).toBe(true);
+    expect(isXmlAttachment('invoice', 'text/xml')).toBe(true);
+  });
+
+  it('should take priority over guessed values without a conflict', async () => {
+    const result = await new XmlInvoiceExtractor().extractFromPdf({
+      text: '',
+      xml: navInvoice,
+      filename: 'szamla.xml',
+      messageId: 'msg-1',
+      attachmentId: 'att-1'
+    });
+    const guessed = {
+      ...result.bills[0],
+      id: 'regex',
+      amount: 6000,
+      vendor: { name: 'Főgáz', category: 'Utilities' },
+      extractionMethod: 'Regex Based Extractor'
+    };
+
+    const bills = reconcileBills([
+      { bill: guessed, confidence: 0.7 },
+      { bill: result.bills[0], confidence: result.confidence }
+    ]);
+
+    expect(bills).toHaveLength(1);
+    expect(bills[0].amount).toBe(7620);
+    expect(bills[0].invoiceNumber).toBe('E-FŐGÁZ-2026-0042');
+    expect(bills[0].vendor?.category).toBe('Utilities');
+    expect(bills[0].conflicts).toBeUndefined();
+  });
+
+  it('should replace the other bills of a message with its e-invoice bills', () => {
+    const bodyBill = { id: 'body', amount: 7000, matchedPattern: 'mvm' };
+    const pdfBill = { id: 'pdf', amount: 7620, matchedPattern: 'xml-cii' };
+
+    expect(preferXmlInvoiceBills([bodyBill, pdfBill])).toEqual([pdfBill]);
+    expect(preferXmlInvoiceBills([bodyBill])).toEqual([bodyBill]);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * XML E-Invoices
+ *
+ * Reads the structured fields of standard XML e-invoices: Hungarian NAV
+ * Online Számla invoice data, UBL 2.x invoices (Peppol) and UN/CEFACT Cross
+ * Industry Invoices, the XML of ZUGFeRD 2 and Factur-X PDFs
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { BillLineItem, BillTotals } from '../../types/Bill';
+
+/**
+ * Supported e-invoice formats
+ */
+export type XmlInvoiceFormat = 'nav' | 'ubl' | 'cii';
+
+/**
+ * Fields of an e-invoice, dates as ISO strings of the local day like the
+ * language processors return them
+ */
+export interface XmlInvoice {
+  format: XmlInvoiceFormat;
+  invoiceNumber?: string;
+  supplierName?: string;
+  supplierTaxNumber?: string;
+  issueDate?: string;
+  dueDate?: string;
+  currency?: string;
+  totals: BillTotals;
+
+  /**
+   * Amount left to pay, the gross total unless the invoice states otherwise
+   */
+  amountDue?: number;
+
+  lineItems: BillLineItem[];
+}
+
+// Root elements of each format, after namespace prefixes are removed
+const ROOT_ELEMENTS: Record<string, XmlInvoiceFormat> = {
+  InvoiceData: 'nav',
+  Invoice: 'ubl',
+  CrossIndustryInvoice: 'cii'
+};
+
+const XML_MIME_TYPES = ['application/xml', 'text/xml'];
+
+// Prefixes are dropped so the same paths work whatever a document names its namespaces
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  // Invoice numbers and tax numbers must keep their leading zeros
+  parseTagValue: false,
+  parseAttributeValue: false
+});
+
+/**
+ * Whether an attachment is an XML document
+ *
+ * @param fileName Attachment file name
+ * @param mimeType Attachment MIME type, if known
+ */
+export function isXmlAttachment(fileName: string, mimeType?: string): boolean {
+  return fileName.toLowerCase().endsWith('.xml') || (!!mimeType && XML_MIME_TYPES.includes(mimeType.toLowerCase()));
+}
+
+/**
+ * Follow a path of element names, taking the first of repeated elements
+ */
+function child(node: any, ...path: string[]): any {
+  return path.reduce((current, name) => {
+    const next = current?.[name];
+    return Array.isArray(next) ? next[0] : next;
+  }, node);
+}
+
+/**
+ * Get all elements at the end of a path
+ */
+function children(node: any, ...path: string[]): any[] {
+  const parent = child(node, ...path.slice(0, -1));
+  const value = parent?.[path[path.length - 1]];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Get the text of the element at the end of a path
+ */
+function text(node: any, ...path: string[]): string | undefined {
+  const value = child(node, ...path);
+  const content = typeof value === 'object' && value !== null ? value['#text'] : value;
+  if (content === undefined || content === null) {
+    return undefined;
+  }
+  const trimmed = String(content).trim();
+  return trimmed === '' ? undefined : trimmed;
+}
+
+/**
+ * Get the number in the element at the end of a path, XML decimals use a point
+ */
+function number(node: any, ...path: string[]): number | undefined {
+  const value = text(node, ...path);
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Get an attribute of the element at the end of a path
+ */
+function attribute(node: any, name: string, ...path: string[]): string | undefined {
+  const value = child(node, ...path)?.[`@_${name}`];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Convert a YYYY-MM-DD or YYYYMMDD (CII format 102) date to the ISO string of the local day
+ */
+function toDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).toISOString() : undefined;
+}
+
+/**
+ * Fill in the gross total from the net and VAT totals
+ */
+function completeTotals(totals: BillTotals): BillTotals {
+  if (totals.gross === undefined && totals.net !== undefined && totals.vat !== undefined) {
+    return { ...totals, gross: Math.round((totals.net + totals.vat) * 100) / 100 };
+  }
+  return totals;
+}
+
+/**
+ * Read NAV Online Számla invoice data
+ */
+function parseNavInvoice(root: any): XmlInvoice {
+  const invoice = child(root, 'invoiceMain', 'invoice');
+  const head = child(invoice, 'invoiceHead');
+  const detail = child(head, 'invoiceDetail');
+  const summary = child(invoice, 'invoiceSummary');
+  const taxNumber = child(head, 'supplierInfo', 'supplierTaxNumber');
+
+  const totals = completeTotals({
+    net: number(summary, 'summaryNormal', 'invoiceNetAmount'),
+    vat: number(summary, 'summaryNormal', 'invoiceVatAmount'),
+    gross: number(summary, 'summaryGrossData', 'invoiceGrossAmount')
+  });
+
+  return {
+    format: 'nav',
+    invoiceNumber: text(root, 'invoiceNumber'),
+    supplierName: text(head, 'supplierInfo', 'supplierName'),
+    supplierTaxNumber: taxNumber
+      ? [text(taxNumber, 'taxpayerId'), text(taxNumber, 'vatCode'), text(taxNumber, 'countyCode')].filter(Boolean).join('-')
+      : undefined,
+    issueDate: toDate(text(root, 'invoiceIssueDate')),
+    dueDate: toDate(text(detail, 'paymentDate')),
+    currency: text(detail, 'currencyCode'),
+    totals,
+    amountDue: totals.gross,
+    lineItems: children(invoice, 'invoiceLines', 'line').map(line => {
+      const amounts = child(line, 'lineAmountsNormal');
+      // NAV states VAT rates as fractions, e.g. 0.27
+      const vatFraction = number(amounts, 'lineVatRate', 'vatPercentage');
+      return {
+        description: text(line, 'lineDescription'),
+        quantity: number(line, 'quantity'),
+        unit: text(line, 'unitOfMeasureOwn') || text(line, 'unitOfMeasure'),
+        unitPrice: number(line, 'unitPrice'),
+        netAmount: number(amounts, 'lineNetAmountData', 'lineNetAmount'),
+        vatRate: vatFraction === undefined ? undefined : Math.round(vatFraction * 10000) / 100,
+        grossAmount: number(amounts, 'lineGrossAmountData', 'lineGrossAmountNormal')
+      };
+    })
+  };
+}
+
+/**
+ * Read a UBL 2.x invoice
+ */
+function parseUblInvoice(root: any): XmlInvoice {
+  const party = child(root, 'AccountingSupplierParty', 'Party');
+  const monetaryTotal = child(root, 'LegalMonetaryTotal');
+
+  const totals = completeTotals({
+    net: number(monetaryTotal, 'TaxExclusiveAmount'),
+    vat: number(root, 'TaxTotal', 'TaxAmount'),
+    gross: number(monetaryTotal, 'TaxInclusiveAmount')
+  });
+
+  return {
+    format: 'ubl',
+    invoiceNumber: text(root, 'ID'),
+    supplierName: text(party, 'PartyName', 'Name') || text(party, 'PartyLegalEntity', 'RegistrationName'),
+    supplierTaxNumber: text(party, 'PartyTaxScheme', 'CompanyID'),
+    issueDate: toDate(text(root, 'IssueDate')),
+    // UBL 2.0 only has the due date of the payment means
+    dueDate: toDate(text(root, 'DueDate') || text(root, 'PaymentMeans', 'PaymentDueDate')),
+    currency: text(root, 'DocumentCurrencyCode'),
+    totals,
+    amountDue: number(monetaryTotal, 'PayableAmount') ?? totals.gross,
+    lineItems: children(root, 'InvoiceLine').map(line => ({
+      description: text(line, 'Item', 'Name') || text(line, 'Item', 'Description'),
+      quantity: number(line, 'InvoicedQuantity'),
+      unit: attribute(line, 'unitCode', 'InvoicedQuantity'),
+      unitPrice: number(line, 'Price', 'PriceAmount'),
+      netAmount: number(line, 'LineExtensionAmount'),
+      vatRate: number(line, 'Item', 'ClassifiedTaxCategory', 'Percent')
+    }))
+  };
+}
+
+/**
+ * Read a Cross Industry Invoice, as embedded in ZUGFeRD 2 and Factur-X PDFs
+ */
+function parseCrossIndustryInvoice(root: any): XmlInvoice {
+  const transaction = child(root, 'SupplyChainTradeTransaction');
+  const seller = child(transaction, 'ApplicableHeaderTradeAgreement', 'SellerTradeParty');
+  const settlement = child(transaction, 'ApplicableHeaderTradeSettlement');
+  const summation = child(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation');
+
+  const totals = completeTotals({
+    net: number(summation, 'TaxBasisTotalAmount'),
+    vat: number(summation, 'TaxTotalAmount'),
+    gross: number(summation, 'GrandTotalAmount')
+  });
+
+  return {
+    format: 'cii',
+    invoiceNumber: text(root, 'ExchangedDocument', 'ID'),
+    supplierName: text(seller, 'Name'),
+    supplierTaxNumber: text(seller, 'SpecifiedTaxRegistration', 'ID'),
+    issueDate: toDate(text(root, 'ExchangedDocument', 'IssueDateTime', 'DateTimeString')),
+    dueDate: toDate(text(settlement, 'SpecifiedTradePaymentTerms', 'DueDateDateTime', 'DateTimeString')),
+    currency: text(settlement, 'InvoiceCurrencyCode'),
+    totals,
+    amountDue: number(summation, 'DuePayableAmount') ?? totals.gross,
+    lineItems: children(transaction, 'IncludedSupplyChainTradeLineItem').map(line => {
+      const lineSettlement = child(line, 'SpecifiedLineTradeSettlement');
+      return {
+        description: text(line, 'SpecifiedTradeProduct', 'Name'),
+        quantity: number(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity'),
+        unit: attribute(line, 'unitCode', 'SpecifiedLineTradeDelivery', 'BilledQuantity'),
+        unitPrice: number(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice', 'ChargeAmount'),
+        netAmount: number(lineSettlement, 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount'),
+        vatRate: number(lineSettlement, 'ApplicableTradeTax', 'RateApplicablePercent')
+      };
+    })
+  };
+}
+
+/**
+ * Parse an XML e-invoice
+ *
+ * @param xml XML document
+ * @returns Invoice fields, or null when the document isn't a supported e-invoice
+ */
+export function parseXmlInvoice(xml: string): XmlInvoice | null {
+  let document: any;
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    console.error('Error parsing XML invoice:', error);
+    return null;
+  }
+
+  const rootName = Object.keys(document || {}).find(name => name in ROOT_ELEMENTS);
+  if (!rootName) {
+    return null;
+  }
+
+  const root = document[rootName];
+  switch (ROOT_ELEMENTS[rootName]) {
+    case 'nav':
+      return parseNavInvoice(root);
+    case 'ubl':
+      return parseUblInvoice(root);
+    case 'cii':
+      return parseCrossIndustryInvoice(root);
+    default:
+      return null;
+  }
+}
@@ -1,4 +1,6 @@
 import { GmailMessage, GmailAttachment } from '../../types';
+import { SCAN_LIMITS } from '../../config/constants';
+import { GmailBatchClient, GMAIL_QUOTA_COSTS } from './gmailBatchClient';
 
 // Gmail API scope
 export const GMAIL_SCOPE = 'https://www.googleapis.com/auth/gmail.readonly';
@@ -24,64 +26,40 @@ export async function searchEmails(token: string, options: SearchOptions): Promi
     console.log(`Gmail API: Executing search with query: ${query}`);
     console.log(`Gmail API: Maximum results to fetch: ${maxResults}`);
     
-    // First fetch message IDs
-    const response = await fetch(
-      `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${encodeURIComponent(query)}&maxResults=${maxResults}`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      }
-    );
+    // Batch client retries rate limited requests with exponential backoff
+    const client = new GmailBatchClient({ getToken: async () => token });
     
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('Gmail API search error:', error);
-      throw new Error(`Gmail API error: ${error.error?.message || 'Unknown error'}`);
-    }
+    // First fetch message IDs, following nextPageToken until maxResults are collected
+    const data: { messages: Array<{ id: string }> } = { messages: [] };
+    const limit = Math.min(maxResults, SCAN_LIMITS.MAX_SEARCH_RESULTS);
+    let pageToken: string | undefined;
     
-    const data = await response.json();
+    do {
+      const pageSize = Math.min(limit - data.messages.length, SCAN_LIMITS.SEARCH_PAGE_SIZE);
+      const page = await client.request(
+        `/messages?q=${encodeURIComponent(query)}&maxResults=${pageSize}` +
+          (pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''),
+        GMAIL_QUOTA_COSTS.MESSAGES_LIST
+      );
+      data.messages.push(...(page.messages || []));
+      pageToken = page.nextPageToken;
+    } while (pageToken && data.messages.length < limit);
     
-    if (!data.messages || data.messages.length === 0) {
+    if (data.messages.length === 0) {
       console.log('Gmail API: No messages found matching search criteria');
       return [];
     }
     
     console.log(`Gmail API: Found ${data.messages.length} matching messages, retrieving details...`);
     
-    // Fetch message details in parallel, but with reasonable batch size to avoid rate limits
-    const BATCH_SIZE = 5;
-    const results: GmailMessage[] = [];
-    let successCount = 0;
-    
-    for (let i = 0; i < data.messages.length; i += BATCH_SIZE) {
-      const batch = data.messages.slice(i, i + BATCH_SIZE);
-      console.log(`Gmail API: Fetching details for messages ${i+1} to ${Math.min(i+BATCH_SIZE, data.messages.length)}`);
-      
-      // Process batch in parallel
-      const batchPromises = batch.map((msg: { id: string }) => 
-        getEmailContent(token, msg.id)
-          .catch(err => {
-            console.error(`Error fetching message ${msg.id}:`, err);
-            return null;
-          })
-      );
-      
-      // Await all promises in this batch
-      const batchResults = await Promise.all(batchPromises);
-      
-      // Filter out null results and add valid ones to our array
-      const validResults = batchResults.filter(msg => msg !== null);
-      results.push(...validResults);
-      successCount += validResults.length;
-      
-      // Add a small delay between batches to avoid rate limiting
-      if (i + BATCH_SIZE < data.messages.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    }
+    // Fetch message details through the batch endpoint, preserving search order
+    const fetched = await client.getMessages(data.messages.map(msg => msg.id));
+    const results: GmailMessage[] = data.messages
+      .map(msg => fetched.get(msg.id))
+      .filter((msg): msg is GmailMessage => Boolean(msg));
+    const successCount = results.length;
     
-    console.log(`Gmail API: Successfully retrieved details for ${successCount}/${data.messages.length} messages`);
+    console.log(`Gmail API: Successfully retrieved details for ${successCount}/${data.messages.length} messages (${client.quotaUnitsUsed} quota units)`);
     return results;
   } catch (error) {
     console.error('Gmail API: Failed to search emails:', error);
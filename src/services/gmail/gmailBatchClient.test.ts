@@ -0,0 +1,140 @@
+import { GMAIL_QUOTA_COSTS, GmailBatchClient, parseBatchResponse } from './gmailBatchClient';
+
+const BOUNDARY = 'batch_response_boundary';
+
+// Multipart response as returned by the batch endpoint, parts need not follow request order
+const part = (index: number, status: string, body: any) => [
+  `--${BOUNDARY}`,
+  'Content-Type: application/http',
+  `Content-ID: <response-item-${index}>`,
+  '',
+  `HTTP/1.1 ${status}`,
+  'Content-Type: application/json; charset=UTF-8',
+  '',
+  JSON.stringify(body),
+  ''
+].join('\r\n');
+
+const batchResponse = (...parts: string[]) => parts.join('\r\n') + `\r\n--${BOUNDARY}--`;
+
+const rateLimitBody = { error: { code: 429, message: 'Too many concurrent requests for user' } };
+
+const multipart = (text: string) => new Response(text, {
+  status: 200,
+  headers: { 'Content-Type': `multipart/mixed; boundary=${BOUNDARY}` }
+});
+
+const json = (status: number, body: any) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+describe('Gmail Batch Client', () => {
+  const originalFetch = global.fetch;
+  let responses: Response[];
+  let requests: Array<{ url: string; body?: string }>;
+
+  beforeEach(() => {
+    responses = [];
+    requests = [];
+    global.fetch = (async (url: string, init: RequestInit = {}) => {
+      requests.push({ url, body: init.body as string | undefined });
+      const response = responses.shift();
+      if (!response) {
+        throw new Error(`Unexpected request to ${url}`);
+      }
+      return response;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const createClient = (maxRetries = 3) => new GmailBatchClient({
+    getToken: async () => 'test-token',
+    maxRetries,
+    baseDelayMs: 1,
+    maxDelayMs: 1
+  });
+
+  it('should parse each part of a multipart batch response', () => {
+    const text = batchResponse(
+      part(1, '404 Not Found', { error: { code: 404, message: 'Requested entity was not found.' } }),
+      part(0, '200 OK', { id: 'msg-a', snippet: 'Your invoice {INV-1} is ready' })
+    );
+
+    const parts = parseBatchResponse(text, BOUNDARY);
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0].index).toBe(1);
+    expect(parts[0].status).toBe(404);
+    expect(parts[0].body.error.code).toBe(404);
+    expect(parts[1].index).toBe(0);
+    expect(parts[1].status).toBe(200);
+    expect(parts[1].body).toEqual({ id: 'msg-a', snippet: 'Your invoice {INV-1} is ready' });
+  });
+
+  it('should retry only the rate limited messages of a batch', async () => {
+    responses.push(
+      multipart(batchResponse(
+        part(0, '200 OK', { id: 'msg-a' }),
+        part(1, '429 Too Many Requests', rateLimitBody),
+        part(2, '404 Not Found', { error: { code: 404 } })
+      )),
+      multipart(batchResponse(part(0, '200 OK', { id: 'msg-b' })))
+    );
+    const client = createClient();
+
+    const messages = await client.getMessages(['msg-a', 'msg-b', 'msg-c']);
+
+    expect(messages.size).toBe(2);
+    expect(messages.get('msg-a').id).toBe('msg-a');
+    expect(messages.get('msg-b').id).toBe('msg-b');
+    expect(messages.has('msg-c')).toBe(false);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].body).toContain('/messages/msg-b?format=full');
+    expect(requests[1].body).not.toContain('/messages/msg-a?');
+    expect(client.quotaUnitsUsed).toBe(4 * GMAIL_QUOTA_COSTS.MESSAGES_GET);
+  });
+
+  it('should resend a batch rejected with 429', async () => {
+    responses.push(
+      json(429, rateLimitBody),
+      json(429, rateLimitBody),
+      multipart(batchResponse(part(0, '200 OK', { id: 'msg-a' })))
+    );
+    const client = createClient();
+
+    const messages = await client.getMessages(['msg-a']);
+
+    expect(messages.get('msg-a').id).toBe('msg-a');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should retry a single request after 429 responses', async () => {
+    responses.push(
+      json(429, rateLimitBody),
+      json(200, { id: 'msg-a', threadId: 'thread-a' })
+    );
+    const client = createClient();
+
+    const message = await client.getMessage('msg-a');
+
+    expect(message.threadId).toBe('thread-a');
+    expect(requests).toHaveLength(2);
+    expect(client.quotaUnitsUsed).toBe(2 * GMAIL_QUOTA_COSTS.MESSAGES_GET);
+  });
+
+  it('should give up once the retries are used up', async () => {
+    responses.push(
+      json(429, rateLimitBody),
+      json(429, rateLimitBody),
+      json(429, rateLimitBody)
+    );
+    const client = createClient(2);
+
+    await expect(client.getMessage('msg-a')).rejects.toThrow('Too many concurrent requests for user');
+    expect(requests).toHaveLength(3);
+  });
+});
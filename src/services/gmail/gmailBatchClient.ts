@@ -0,0 +1,361 @@
+/**
+ * Gmail Batch Client
+ *
+ * Fetches Gmail messages through the batch endpoint (multipart/mixed), retries
+ * quota errors with exponential backoff and jitter, and tracks the quota units used
+ */
+
+import { getAccessTokenWithRefresh } from "../auth/googleAuth";
+
+// Base URL for Gmail API
+const GMAIL_API_BASE_URL = "https://gmail.googleapis.com/gmail/v1/users/me";
+
+// Batch endpoint and the path prefix used for requests inside a batch
+const GMAIL_BATCH_URL = "https://gmail.googleapis.com/batch/gmail/v1";
+const GMAIL_BATCH_PATH_PREFIX = "/gmail/v1/users/me";
+
+// Gmail recommends at most 50 requests per batch
+const MAX_BATCH_SIZE = 50;
+
+/**
+ * Quota units charged by Gmail per method
+ * @see https://developers.google.com/gmail/api/reference/quota
+ */
+export const GMAIL_QUOTA_COSTS = {
+  MESSAGES_LIST: 5,
+  MESSAGES_GET: 5,
+  THREADS_GET: 10,
+  ATTACHMENTS_GET: 5,
+  MESSAGES_MODIFY: 5,
+  MESSAGES_BATCH_MODIFY: 50,
+  HISTORY_LIST: 2,
+  LABELS_LIST: 1,
+  LABELS_CREATE: 5,
+  PROFILE_GET: 1
+};
+
+/**
+ * Options for the batch client
+ */
+export interface GmailBatchClientOptions {
+  /** Returns the OAuth token to use, defaults to getAccessTokenWithRefresh */
+  getToken?: () => Promise<string | null>;
+  /** Maximum number of retries after a quota error */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs?: number;
+}
+
+/**
+ * Thrown when a Gmail API request fails for good, with its HTTP status
+ */
+export class GmailApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "GmailApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * A single response parsed out of a multipart batch response
+ */
+interface BatchPartResponse {
+  index: number;
+  status: number;
+  body: any;
+}
+
+/**
+ * Checks whether a Gmail error response should be retried
+ *
+ * @param status HTTP status code
+ * @param body Parsed error body
+ * @returns True for rate limit and transient server errors
+ */
+export function isRetryableGmailError(status: number, body: any): boolean {
+  if (status === 429 || status === 500 || status === 503) {
+    return true;
+  }
+
+  if (status === 403) {
+    const reasons: string[] = (body?.error?.errors || []).map((e: { reason?: string }) => e.reason);
+    return reasons.includes("rateLimitExceeded") || reasons.includes("userRateLimitExceeded");
+  }
+
+  return false;
+}
+
+/**
+ * Computes a backoff delay: exponential growth with equal jitter
+ *
+ * @param attempt Zero-based retry attempt
+ * @param baseDelayMs Base delay in milliseconds
+ * @param maxDelayMs Maximum delay in milliseconds
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Gmail client that batches message fetches and adapts to rate limits
+ */
+export class GmailBatchClient {
+  private getToken: () => Promise<string | null>;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  /** Quota units charged by requests made through this client */
+  quotaUnitsUsed = 0;
+
+  constructor(options: GmailBatchClientOptions = {}) {
+    this.getToken = options.getToken || getAccessTokenWithRefresh;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 32000;
+  }
+
+  /**
+   * Makes a single Gmail API request, retrying quota errors with backoff
+   *
+   * @param path Path relative to users/me (e.g. "/messages/123")
+   * @param cost Quota units charged for the request
+   * @param init Fetch options
+   * @returns Parsed JSON response
+   */
+  async request(path: string, cost: number, init: RequestInit = {}): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.requireToken();
+      const response = await fetch(`${GMAIL_API_BASE_URL}${path}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+          ...(init.headers || {})
+        }
+      });
+      this.quotaUnitsUsed += cost;
+
+      if (response.ok) {
+        // Some methods, like messages.batchModify, return an empty body
+        const text = await response.text();
+        return text ? JSON.parse(text) : null;
+      }
+
+      const body = await response.json().catch(() => ({}));
+      if (isRetryableGmailError(response.status, body) && attempt < this.maxRetries) {
+        const delay = computeBackoffDelay(attempt, this.baseDelayMs, this.maxDelayMs);
+        console.warn(`Gmail API rate limited (${response.status}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      throw new GmailApiError(
+        `Gmail API error: ${body.error?.message || response.statusText || "Unknown error"}`,
+        response.status
+      );
+    }
+  }
+
+  /**
+   * Fetches a single message
+   *
+   * @param messageId Gmail message ID
+   * @param format Message format
+   * @returns Gmail message
+   */
+  async getMessage(messageId: string, format: "full" | "metadata" | "minimal" = "full"): Promise<any> {
+    return this.request(`/messages/${messageId}?format=${format}`, GMAIL_QUOTA_COSTS.MESSAGES_GET);
+  }
+
+  /**
+   * Fetches a thread with all of its messages
+   *
+   * @param threadId Gmail thread ID
+   * @param format Gmail API message format
+   * @returns Thread with its messages, oldest first
+   */
+  async getThread(threadId: string, format: "full" | "metadata" | "minimal" = "full"): Promise<any> {
+    return this.request(`/threads/${threadId}?format=${format}`, GMAIL_QUOTA_COSTS.THREADS_GET);
+  }
+
+  /**
+   * Fetches an attachment's base64url data
+   *
+   * @param messageId Gmail message ID
+   * @param attachmentId Attachment ID
+   * @returns Base64url encoded data, or null if the attachment is empty
+   */
+  async getAttachment(messageId: string, attachmentId: string): Promise<string | null> {
+    const data = await this.request(
+      `/messages/${messageId}/attachments/${attachmentId}`,
+      GMAIL_QUOTA_COSTS.ATTACHMENTS_GET
+    );
+    return data?.data || null;
+  }
+
+  /**
+   * Fetches many messages through the batch endpoint
+   *
+   * Messages that still fail after retries are left out of the result, so callers
+   * can fall back to getMessage for a proper error.
+   *
+   * @param messageIds Gmail message IDs
+   * @param format Message format
+   * @returns Map of message ID to message
+   */
+  async getMessages(
+    messageIds: string[],
+    format: "full" | "metadata" | "minimal" = "full"
+  ): Promise<Map<string, any>> {
+    const messages = new Map<string, any>();
+
+    for (let i = 0; i < messageIds.length; i += MAX_BATCH_SIZE) {
+      let pending = messageIds.slice(i, i + MAX_BATCH_SIZE);
+
+      for (let attempt = 0; pending.length > 0; attempt++) {
+        const paths = pending.map(id => `${GMAIL_BATCH_PATH_PREFIX}/messages/${id}?format=${format}`);
+        let parts: BatchPartResponse[];
+
+        try {
+          parts = await this.sendBatch(paths, GMAIL_QUOTA_COSTS.MESSAGES_GET);
+        } catch (error) {
+          console.error("Gmail batch request failed:", error);
+          break;
+        }
+
+        const retry: string[] = [];
+        for (const part of parts) {
+          const messageId = pending[part.index];
+          if (messageId === undefined) continue;
+
+          if (part.status >= 200 && part.status < 300) {
+            messages.set(messageId, part.body);
+          } else if (isRetryableGmailError(part.status, part.body)) {
+            retry.push(messageId);
+          } else {
+            console.warn(`Gmail batch: message ${messageId} failed with status ${part.status}`);
+          }
+        }
+
+        if (retry.length === 0 || attempt >= this.maxRetries) {
+          break;
+        }
+
+        const delay = computeBackoffDelay(attempt, this.baseDelayMs, this.maxDelayMs);
+        console.warn(`Gmail batch: ${retry.length} requests rate limited, retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+        pending = retry;
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Sends one multipart/mixed batch of GET requests
+   *
+   * @param paths Request paths, including the /gmail/v1 prefix
+   * @param costPerRequest Quota units charged per inner request
+   * @returns Parsed part responses
+   */
+  private async sendBatch(paths: string[], costPerRequest: number): Promise<BatchPartResponse[]> {
+    const boundary = `batch_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    const body = paths.map((path, index) => [
+      `--${boundary}`,
+      "Content-Type: application/http",
+      `Content-ID: <item-${index}>`,
+      "",
+      `GET ${path}`,
+      ""
+    ].join("\r\n")).join("\r\n") + `\r\n--${boundary}--`;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.requireToken();
+      const response = await fetch(GMAIL_BATCH_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": `multipart/mixed; boundary=${boundary}`
+        },
+        body
+      });
+      this.quotaUnitsUsed += costPerRequest * paths.length;
+
+      if (response.ok) {
+        const responseBoundary = response.headers.get("Content-Type")?.match(/boundary=([^;]+)/)?.[1];
+        if (!responseBoundary) {
+          throw new Error("Gmail batch response is missing its multipart boundary");
+        }
+        return parseBatchResponse(await response.text(), responseBoundary.replace(/"/g, ""));
+      }
+
+      const errorBody = await response.json().catch(() => ({}));
+      if (isRetryableGmailError(response.status, errorBody) && attempt < this.maxRetries) {
+        const delay = computeBackoffDelay(attempt, this.baseDelayMs, this.maxDelayMs);
+        console.warn(`Gmail batch rate limited (${response.status}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      throw new Error(`Gmail batch error: ${errorBody.error?.message || response.statusText || "Unknown error"}`);
+    }
+  }
+
+  private async requireToken(): Promise<string> {
+    const token = await this.getToken();
+    if (!token) {
+      throw new Error("Not authenticated");
+    }
+    return token;
+  }
+}
+
+/**
+ * Parses a multipart/mixed batch response into its individual HTTP responses
+ *
+ * @param text Raw response body
+ * @param boundary Multipart boundary from the Content-Type header
+ * @returns Part responses, indexed by the Content-ID of the request
+ */
+export function parseBatchResponse(text: string, boundary: string): BatchPartResponse[] {
+  const results: BatchPartResponse[] = [];
+  const parts = text.split(`--${boundary}`);
+
+  parts.forEach((part, position) => {
+    const trimmed = part.trim();
+    if (!trimmed || trimmed === "--") return;
+
+    // Content-ID of the response is "<response-item-N>"
+    const idMatch = trimmed.match(/Content-ID:\s*<response-item-(\d+)>/i);
+    const statusMatch = trimmed.match(/HTTP\/[\d.]+\s+(\d{3})/);
+    if (!statusMatch) return;
+
+    const jsonStart = trimmed.indexOf("{", statusMatch.index);
+    let body: any = null;
+    if (jsonStart !== -1) {
+      try {
+        body = JSON.parse(trimmed.slice(jsonStart, trimmed.lastIndexOf("}") + 1));
+      } catch (error) {
+        console.warn("Gmail batch: could not parse part body", error);
+      }
+    }
+
+    results.push({
+      index: idMatch ? parseInt(idMatch[1], 10) : position - 1,
+      status: parseInt(statusMatch[1], 10),
+      body
+    });
+  });
+
+  return results;
+}
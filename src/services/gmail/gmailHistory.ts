@@ -0,0 +1,186 @@
+/**
+ * Gmail History Service
+ *
+ * Supports incremental scanning by tracking a per-user Gmail historyId checkpoint
+ * and listing only the messages added since that checkpoint
+ */
+
+import { GMAIL_QUOTA_COSTS, GmailApiError, GmailBatchClient } from "./gmailBatchClient";
+
+// Storage key for history checkpoints in chrome.storage.local
+const HISTORY_CHECKPOINTS_KEY = "gmail_history_checkpoints";
+
+// Upper bound on history pages to walk before falling back to a full scan
+const MAX_HISTORY_PAGES = 20;
+
+// The checkpoint is stored when a scan ends but its historyId is taken when the
+// scan starts, so searches since a checkpoint reach back further than its time
+const CHECKPOINT_SEARCH_SLACK_SECONDS = 24 * 60 * 60;
+
+/**
+ * Stored checkpoint for a single user
+ */
+export interface HistoryCheckpoint {
+  historyId: string;
+  updatedAt: string;
+}
+
+/**
+ * Result of listing message additions since a checkpoint
+ */
+export interface HistoryChangesResult {
+  /** False when the checkpoint is too old (or the listing too long) and a full scan is needed */
+  success: boolean;
+  /** IDs of messages added since the checkpoint */
+  messageIds: string[];
+  /** Latest historyId returned by Gmail, to be stored as the new checkpoint */
+  historyId?: string;
+  /** True when Gmail no longer has history for the checkpoint (HTTP 404) */
+  expired?: boolean;
+  error?: string;
+}
+
+/**
+ * Gets the mailbox's current historyId from the Gmail profile
+ *
+ * @param client Gmail client the request is made and its quota counted with
+ * @returns Current historyId, or null if it could not be fetched
+ */
+export async function getCurrentHistoryId(client: GmailBatchClient = new GmailBatchClient()): Promise<string | null> {
+  try {
+    const data = await client.request("/profile", GMAIL_QUOTA_COSTS.PROFILE_GET);
+    return data?.historyId ? String(data.historyId) : null;
+  } catch (error) {
+    console.error("Error fetching current history ID:", error);
+    return null;
+  }
+}
+
+/**
+ * Lists IDs of messages added to the mailbox since the given historyId
+ *
+ * @param startHistoryId Checkpoint historyId
+ * @param client Gmail client the requests are made and their quota counted with
+ * @returns Added message IDs and the new historyId, or expired: true when a full scan is needed
+ */
+export async function listMessagesAddedSince(
+  startHistoryId: string,
+  client: GmailBatchClient = new GmailBatchClient()
+): Promise<HistoryChangesResult> {
+  try {
+    const messageIds = new Set<string>();
+    let historyId: string | undefined;
+    let pageToken: string | undefined;
+    let pages = 0;
+
+    do {
+      const params = new URLSearchParams({
+        startHistoryId,
+        historyTypes: "messageAdded",
+        maxResults: "500"
+      });
+      if (pageToken) {
+        params.set("pageToken", pageToken);
+      }
+
+      let data: any;
+      try {
+        data = await client.request(`/history?${params.toString()}`, GMAIL_QUOTA_COSTS.HISTORY_LIST);
+      } catch (error) {
+        // Gmail returns 404 when the startHistoryId is outside the available history window
+        if (error instanceof GmailApiError && error.status === 404) {
+          console.warn(`History checkpoint ${startHistoryId} has expired`);
+          return { success: false, messageIds: [], expired: true };
+        }
+        throw error;
+      }
+
+      for (const record of data?.history || []) {
+        for (const added of record.messagesAdded || []) {
+          // Skip drafts, they are never bills we want to extract
+          if (added.message?.id && !(added.message.labelIds || []).includes("DRAFT")) {
+            messageIds.add(added.message.id);
+          }
+        }
+      }
+
+      historyId = data?.historyId ? String(data.historyId) : historyId;
+      pageToken = data?.nextPageToken;
+      pages++;
+    } while (pageToken && pages < MAX_HISTORY_PAGES);
+
+    if (pageToken) {
+      console.warn(`History listing exceeded ${MAX_HISTORY_PAGES} pages, falling back to a full scan`);
+      return { success: false, messageIds: [], error: "Too many history changes" };
+    }
+
+    return { success: true, messageIds: Array.from(messageIds), historyId };
+  } catch (error) {
+    console.error("Error listing Gmail history:", error);
+    return {
+      success: false,
+      messageIds: [],
+      error: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
+}
+
+/**
+ * Restricts a search query to messages received since a checkpoint, so an
+ * incremental scan only searches the days the added messages arrived in
+ *
+ * @param query Gmail search query
+ * @param checkpoint Checkpoint the incremental scan starts from
+ * @returns Query with an after: bound, as epoch seconds
+ */
+export function restrictQueryToCheckpoint(query: string, checkpoint: HistoryCheckpoint): string {
+  const checkpointSeconds = Math.floor(new Date(checkpoint.updatedAt).getTime() / 1000);
+  if (isNaN(checkpointSeconds)) {
+    return query;
+  }
+
+  return `(${query}) after:${checkpointSeconds - CHECKPOINT_SEARCH_SLACK_SECONDS}`;
+}
+
+/**
+ * Gets the stored history checkpoint for a user
+ *
+ * @param userId User ID the checkpoint belongs to
+ * @returns Checkpoint or null if none is stored
+ */
+export async function getHistoryCheckpoint(userId: string): Promise<HistoryCheckpoint | null> {
+  const data = await chrome.storage.local.get(HISTORY_CHECKPOINTS_KEY);
+  return data?.[HISTORY_CHECKPOINTS_KEY]?.[userId] || null;
+}
+
+/**
+ * Stores the history checkpoint for a user
+ *
+ * @param userId User ID the checkpoint belongs to
+ * @param historyId Gmail historyId to resume from next time
+ */
+export async function saveHistoryCheckpoint(userId: string, historyId: string): Promise<void> {
+  const data = await chrome.storage.local.get(HISTORY_CHECKPOINTS_KEY);
+  const checkpoints = data?.[HISTORY_CHECKPOINTS_KEY] || {};
+
+  checkpoints[userId] = {
+    historyId,
+    updatedAt: new Date().toISOString()
+  };
+
+  await chrome.storage.local.set({ [HISTORY_CHECKPOINTS_KEY]: checkpoints });
+}
+
+/**
+ * Removes the history checkpoint for a user, forcing the next scan to be a full scan
+ *
+ * @param userId User ID the checkpoint belongs to
+ */
+export async function clearHistoryCheckpoint(userId: string): Promise<void> {
+  const data = await chrome.storage.local.get(HISTORY_CHECKPOINTS_KEY);
+  const checkpoints = data?.[HISTORY_CHECKPOINTS_KEY] || {};
+
+  delete checkpoints[userId];
+
+  await chrome.storage.local.set({ [HISTORY_CHECKPOINTS_KEY]: checkpoints });
+}
@@ -0,0 +1,207 @@
+/**
+ * Gmail Labels Service
+ *
+ * Labels processed bill emails by extraction outcome. Labelling is opt-in and
+ * needs the gmail.modify scope, which is requested separately from the default scopes.
+ */
+
+import { GMAIL_MODIFY_SCOPE } from "../../config/constants";
+import { getAccessTokenForScopes } from "../auth/googleAuth";
+import { GmailBatchClient, GMAIL_QUOTA_COSTS } from "./gmailBatchClient";
+
+// Label used when the user hasn't configured one
+export const DEFAULT_BILL_LABEL = "Bills";
+
+// Bills extracted below this confidence are labelled for review
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// messages.batchModify accepts at most 1000 message IDs per call
+const MAX_BATCH_MODIFY_IDS = 1000;
+
+// Subjects of payment confirmations rather than bills awaiting payment
+const PAID_SUBJECT_PATTERN =
+  /\b(?:payment (?:received|confirmation|successful)|thank you for your payment|receipt|paid)\b|sikeres (?:fizetés|befizetés)|fizetés visszaigazolás|kifizetve|fizetve/i;
+
+export type BillLabelOutcome = "bill" | "paid" | "needs_review";
+
+/**
+ * Processing outcome of a single message, as recorded by the scan
+ */
+export interface LabelCandidate {
+  messageId: string;
+  status: "success" | "no_bills" | "error";
+  subject?: string;
+  confidence?: number;
+  bills: Array<{ amount?: number }>;
+}
+
+/**
+ * Result of labelling a scan's messages
+ */
+export interface LabelResult {
+  success: boolean;
+  labelled: number;
+  /** True when the gmail.modify scope has not been granted */
+  missingScope?: boolean;
+  error?: string;
+}
+
+/**
+ * Gets the label names for each outcome, nested under the base label
+ *
+ * @param baseLabel Configured label name
+ * @returns Label name per outcome
+ */
+export function getBillLabelNames(baseLabel: string = DEFAULT_BILL_LABEL): Record<BillLabelOutcome, string> {
+  const base = baseLabel.trim().replace(/\/+$/, "") || DEFAULT_BILL_LABEL;
+
+  return {
+    bill: base,
+    paid: `${base}/Paid`,
+    needs_review: `${base}/Needs-review`
+  };
+}
+
+/**
+ * Checks whether an email subject looks like a payment confirmation rather than
+ * a bill that still has to be paid
+ *
+ * @param subject Email subject
+ * @returns True for payment confirmations and receipts
+ */
+export function isPaymentConfirmation(subject: string = ""): boolean {
+  return PAID_SUBJECT_PATTERN.test(subject);
+}
+
+/**
+ * Decides which label a processed message gets
+ *
+ * @param candidate Processing outcome of the message
+ * @returns Outcome to label with, or null when the message is left unlabelled
+ */
+export function classifyLabelOutcome(candidate: LabelCandidate): BillLabelOutcome | null {
+  if (candidate.status === "error") {
+    return "needs_review";
+  }
+
+  if (candidate.bills.length === 0) {
+    return null;
+  }
+
+  const incomplete = candidate.bills.some(bill => bill.amount === undefined || bill.amount === null);
+  if (incomplete || (candidate.confidence !== undefined && candidate.confidence < LOW_CONFIDENCE_THRESHOLD)) {
+    return "needs_review";
+  }
+
+  return isPaymentConfirmation(candidate.subject) ? "paid" : "bill";
+}
+
+/**
+ * Finds the bill labels, creating any that don't exist yet
+ *
+ * @param client Gmail client authorized with gmail.modify
+ * @param baseLabel Configured label name
+ * @returns Label ID per outcome
+ */
+export async function ensureBillLabels(
+  client: GmailBatchClient,
+  baseLabel: string
+): Promise<Record<BillLabelOutcome, string>> {
+  const names = getBillLabelNames(baseLabel);
+  const data = await client.request("/labels", GMAIL_QUOTA_COSTS.LABELS_LIST);
+  const existing = new Map<string, string>(
+    (data.labels || []).map((label: { id: string; name: string }) => [label.name.toLowerCase(), label.id])
+  );
+
+  const ids = {} as Record<BillLabelOutcome, string>;
+
+  // The parent label comes first so Gmail nests the others under it
+  for (const outcome of ["bill", "paid", "needs_review"] as BillLabelOutcome[]) {
+    const name = names[outcome];
+    let id = existing.get(name.toLowerCase());
+
+    if (!id) {
+      const created = await client.request("/labels", GMAIL_QUOTA_COSTS.LABELS_CREATE, {
+        method: "POST",
+        body: JSON.stringify({
+          name,
+          labelListVisibility: "labelShow",
+          messageListVisibility: "show"
+        })
+      });
+      id = created.id as string;
+      console.log(`Created Gmail label ${name}`);
+    }
+
+    ids[outcome] = id;
+  }
+
+  return ids;
+}
+
+/**
+ * Labels processed messages by extraction outcome
+ *
+ * Does not prompt for the gmail.modify scope, so it can run from the background;
+ * the options page requests the scope when labelling is switched on.
+ *
+ * @param candidates Processing outcomes of the scanned messages
+ * @param baseLabel Configured label name
+ * @returns Number of labelled messages
+ */
+export async function labelProcessedMessages(
+  candidates: LabelCandidate[],
+  baseLabel: string = DEFAULT_BILL_LABEL
+): Promise<LabelResult> {
+  try {
+    const byOutcome: Record<BillLabelOutcome, string[]> = { bill: [], paid: [], needs_review: [] };
+    for (const candidate of candidates) {
+      const outcome = classifyLabelOutcome(candidate);
+      if (outcome) {
+        byOutcome[outcome].push(candidate.messageId);
+      }
+    }
+
+    const total = byOutcome.bill.length + byOutcome.paid.length + byOutcome.needs_review.length;
+    if (total === 0) {
+      return { success: true, labelled: 0 };
+    }
+
+    const token = await getAccessTokenForScopes([GMAIL_MODIFY_SCOPE]);
+    if (!token) {
+      return {
+        success: false,
+        labelled: 0,
+        missingScope: true,
+        error: "Labelling needs permission to modify Gmail messages"
+      };
+    }
+
+    const client = new GmailBatchClient({ getToken: async () => token });
+    const labelIds = await ensureBillLabels(client, baseLabel);
+
+    for (const outcome of Object.keys(byOutcome) as BillLabelOutcome[]) {
+      const messageIds = byOutcome[outcome];
+
+      for (let i = 0; i < messageIds.length; i += MAX_BATCH_MODIFY_IDS) {
+        await client.request("/messages/batchModify", GMAIL_QUOTA_COSTS.MESSAGES_BATCH_MODIFY, {
+          method: "POST",
+          body: JSON.stringify({
+            ids: messageIds.slice(i, i + MAX_BATCH_MODIFY_IDS),
+            addLabelIds: [labelIds[outcome]]
+          })
+        });
+      }
+    }
+
+    console.log(`Labelled ${total} messages (${byOutcome.bill.length} bills, ${byOutcome.paid.length} paid, ${byOutcome.needs_review.length} for review)`);
+    return { success: true, labelled: total };
+  } catch (error) {
+    console.error("Error labelling processed messages:", error);
+    return {
+      success: false,
+      labelled: 0,
+      error: error instanceof Error ? error.message : "Unknown error"
+    };
+  }
+}
@@ -7,52 +7,85 @@
 import { getAccessToken, getAccessTokenWithRefresh } from "../auth/googleAuth";
 import { Bill } from "../../types/Bill";
 import { getSharedBillExtractor } from "../extraction/extractorFactory";
+import { LanguageCode } from "../multilingual/languageRegistry";
+import { SCAN_LIMITS } from "../../config/constants";
+import { GmailBatchClient, GMAIL_QUOTA_COSTS } from "./gmailBatchClient";
 
 // Base URL for Gmail API
 const GMAIL_API_BASE_URL = "https://gmail.googleapis.com/gmail/v1/users/me";
 
 /**
- * Fetches emails from Gmail based on search query
+ * Result of a paginated Gmail search
+ */
+export interface PaginatedSearchResult {
+  /** Matching message IDs, newest first, up to the cap */
+  messageIds: string[];
+  /** True when more matches existed beyond the cap */
+  truncated: boolean;
+}
+
+/**
+ * Fetches all message IDs matching a query, following nextPageToken up to a hard cap
  * 
  * @param query Search query to filter emails
- * @param maxResults Maximum number of results to return
- * @returns List of email message IDs
+ * @param cap Maximum number of message IDs to collect
+ * @param client Gmail client to send requests through, so callers can track quota usage
+ * @returns Matching message IDs and whether the cap cut the results short
  */
-export async function searchEmails(
-  query: string = "subject:(bill OR invoice OR receipt OR payment) newer_than:30d",
-  maxResults: number = 20
-): Promise<string[]> {
+export async function searchAllEmails(
+  query: string,
+  cap: number = SCAN_LIMITS.MAX_SEARCH_RESULTS,
+  client: GmailBatchClient = new GmailBatchClient()
+): Promise<PaginatedSearchResult> {
   try {
-    const accessToken = await getAccessTokenWithRefresh();
-    
-    if (!accessToken) {
-      throw new Error("Not authenticated");
-    }
+    const limit = Math.min(Math.max(cap, 1), SCAN_LIMITS.MAX_SEARCH_RESULTS);
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
     
-    const response = await fetch(
-      `${GMAIL_API_BASE_URL}/messages?q=${encodeURIComponent(query)}&maxResults=${maxResults}`,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
+    do {
+      const pageSize = Math.min(limit - messageIds.length, SCAN_LIMITS.SEARCH_PAGE_SIZE);
+      const params = new URLSearchParams({
+        q: query,
+        maxResults: String(pageSize)
+      });
+      if (pageToken) {
+        params.set("pageToken", pageToken);
       }
-    );
+      
+      const data = await client.request(`/messages?${params.toString()}`, GMAIL_QUOTA_COSTS.MESSAGES_LIST);
+      messageIds.push(...(data.messages || []).map((message: { id: string }) => message.id));
+      pageToken = data.nextPageToken;
+    } while (pageToken && messageIds.length < limit);
     
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Gmail API error: ${error.error?.message || "Unknown error"}`);
+    if (pageToken) {
+      console.warn(`Gmail search stopped at ${messageIds.length} results, more matches exist`);
     }
     
-    const data = await response.json();
-    return (data.messages || []).map((message: { id: string }) => message.id);
+    return {
+      messageIds,
+      truncated: Boolean(pageToken)
+    };
   } catch (error) {
     console.error("Error searching emails:", error);
     throw error;
   }
 }
 
+/**
+ * Fetches emails from Gmail based on search query
+ * 
+ * @param query Search query to filter emails
+ * @param maxResults Maximum number of results to return
+ * @returns List of email message IDs
+ */
+export async function searchEmails(
+  query: string = "subject:(bill OR invoice OR receipt OR payment) newer_than:30d",
+  maxResults: number = 20
+): Promise<string[]> {
+  const { messageIds } = await searchAllEmails(query, maxResults);
+  return messageIds;
+}
+
 /**
  * Fetches full email details by ID
  * 
@@ -99,7 +132,7 @@ export async function getEmailById(messageId: string): Promise<any> {
  */
 export async function scanEmailsForBills(
   maxResults: number = 20,
-  options: { language?: 'en' | 'hu' } = {}
+  options: { language?: LanguageCode } = {}
 ): Promise<Bill[]> {
   try {
     // Get the bill extractor instance
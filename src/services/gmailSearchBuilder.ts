@@ -4,48 +4,141 @@
  * Builds search queries for bills in multiple languages
  */
 
+import {
+  BillSearchType,
+  LanguageCode,
+  LanguageDefinition,
+  languageRegistry
+} from './multilingual/languageRegistry';
+
+/**
+ * Explicit date range for a search, as YYYY-MM-DD strings (both inclusive)
+ */
+export interface SearchDateRange {
+  startDate: string;
+  endDate?: string;
+}
+
+/**
+ * Formats a date the way Gmail's after:/before: operators expect (YYYY/MM/DD)
+ */
+function formatGmailDate(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}/${month}/${day}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD string as a UTC date
+ */
+function parseDateOnly(value: string): Date {
+  const [year, month, day] = value.split('-').map(part => parseInt(part, 10));
+  const date = new Date(Date.UTC(year, (month || 1) - 1, day || 1));
+  
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  
+  return date;
+}
+
+/**
+ * Builds the after:/before: clauses for a search window
+ * 
+ * @param searchWindow Number of days to look back, or an explicit date range
+ * @returns Gmail date clauses
+ */
+export function buildDateClause(searchWindow: number | SearchDateRange): string {
+  if (typeof searchWindow === 'number') {
+    // Fix date calculation - subtract days from current date
+    const date = new Date();
+    date.setDate(date.getDate() - Math.abs(searchWindow)); // Ensure positive number
+    const formattedDate = date.toISOString().split('T')[0]; // YYYY-MM-DD
+    
+    console.log(`Looking for emails after ${formattedDate} (${searchWindow} days ago)`);
+    return `after:${formattedDate}`;
+  }
+  
+  const start = parseDateOnly(searchWindow.startDate);
+  let clause = `after:${formatGmailDate(start)}`;
+  
+  if (searchWindow.endDate) {
+    // before: is exclusive, so search up to the day after the end date
+    const end = parseDateOnly(searchWindow.endDate);
+    if (end < start) {
+      throw new Error('End date must not be before start date');
+    }
+    end.setUTCDate(end.getUTCDate() + 1);
+    clause += ` before:${formatGmailDate(end)}`;
+  }
+  
+  console.log(`Looking for emails between ${searchWindow.startDate} and ${searchWindow.endDate || 'today'}`);
+  return clause;
+}
+
+/**
+ * Splits a date range into calendar-month chunks, oldest first
+ * 
+ * @param range Date range to split, defaults the end to today
+ * @returns Month-sized date ranges covering the whole range
+ */
+export function splitDateRangeByMonth(range: SearchDateRange): Required<SearchDateRange>[] {
+  const start = parseDateOnly(range.startDate);
+  const end = range.endDate ? parseDateOnly(range.endDate) : parseDateOnly(new Date().toISOString().split('T')[0]);
+  const chunks: Required<SearchDateRange>[] = [];
+  
+  let chunkStart = start;
+  while (chunkStart <= end) {
+    const monthEnd = new Date(Date.UTC(chunkStart.getUTCFullYear(), chunkStart.getUTCMonth() + 1, 0));
+    const chunkEnd = monthEnd < end ? monthEnd : end;
+    
+    chunks.push({
+      startDate: chunkStart.toISOString().split('T')[0],
+      endDate: chunkEnd.toISOString().split('T')[0]
+    });
+    
+    chunkStart = new Date(Date.UTC(chunkEnd.getUTCFullYear(), chunkEnd.getUTCMonth(), chunkEnd.getUTCDate() + 1));
+  }
+  
+  return chunks;
+}
+
+/**
+ * Builds the Gmail search clause matching bills in one language
+ * 
+ * @param definition Language definition with its search terms
+ * @returns Subject terms, or any email with an attachment
+ */
+function buildLanguageClause(definition: LanguageDefinition): string {
+  return `(subject:(${definition.searchTerms.join(' OR ')}) OR has:attachment)`;
+}
+
 /**
- * Builds a Gmail search query for bills in English and Hungarian
+ * Builds a Gmail search query for bills in the registered languages
  * 
- * @param days Number of days to look back (default: 30)
- * @param language Optional language filter ('en', 'hu', or undefined for both)
+ * @param searchWindow Number of days to look back (default: 30), or an explicit date range
+ * @param language Optional language filter (a registered language code, or undefined for all)
  * @param trustedSources Optional list of trusted email sources to filter by
  * @param trustedSourcesOnly Whether to only include emails from trusted sources
  * @returns Formatted Gmail search query string
  */
 export function buildBillSearchQuery(
-  days: number = 30, 
-  language?: 'en' | 'hu', 
+  searchWindow: number | SearchDateRange = 30, 
+  language?: LanguageCode, 
   trustedSources?: string[],
   trustedSourcesOnly: boolean = false
 ): string {
-  // Fix date calculation - subtract days from current date
-  const date = new Date();
-  date.setDate(date.getDate() - Math.abs(days)); // Ensure positive number
-  const formattedDate = date.toISOString().split('T')[0]; // YYYY-MM-DD
-  
-  console.log(`Looking for emails after ${formattedDate} (${days} days ago)`);
-  
-  // English search terms - include both subject and body content
-  const englishTerms = '(subject:(invoice OR bill OR receipt OR payment OR statement OR due) OR has:attachment)';
+  const definition = languageRegistry.getLanguage(language);
   
-  // Hungarian search terms - include common terms for bills and expand to search in body
-  const hungarianTerms = '(subject:(számla OR fizetés OR díj OR "Új számla" OR "számla készült" OR áram OR gáz OR víz OR szolgáltatás) OR has:attachment)';
-  
-  let languageQuery: string;
-  
-  // Build query based on language preference
-  if (language === 'en') {
-    languageQuery = englishTerms;
-  } else if (language === 'hu') {
-    languageQuery = hungarianTerms;
-  } else {
-    // Default: search for both languages
-    languageQuery = `(${englishTerms} OR ${hungarianTerms})`;
-  }
+  // Build query based on language preference, searching every registered
+  // language when none (or an unknown one, such as 'auto') is selected
+  const languageQuery = definition
+    ? buildLanguageClause(definition)
+    : `(${languageRegistry.getAllLanguages().map(buildLanguageClause).join(' OR ')})`;
   
   // Add date filter
-  let query = `${languageQuery} after:${formattedDate}`;
+  let query = `${languageQuery} ${buildDateClause(searchWindow)}`;
   
   // Add trusted sources filter if provided
   if (trustedSources && trustedSources.length > 0) {
@@ -95,34 +188,21 @@ export function buildBillSearchQuery(
  * @returns Specific search query for the bill type
  */
 export function buildSpecificBillSearchQuery(
-  billType: 'utility' | 'subscription' | 'telco' | 'all',
+  billType: BillSearchType | 'all',
   days: number = 30,
-  language?: 'en' | 'hu',
+  language?: LanguageCode,
   trustedSources?: string[]
 ): string {
   const baseQuery = buildBillSearchQuery(days, language, trustedSources);
   
-  let specificTerms: string;
-  
-  switch (billType) {
-    case 'utility':
-      specificTerms = language === 'hu' 
-        ? '(áram OR villany OR gáz OR víz OR közüzemi OR szolgáltató)'
-        : '(electricity OR water OR gas OR utility OR power OR energy)';
-      break;
-    case 'subscription':
-      specificTerms = language === 'hu'
-        ? '(előfizetés OR havi díj OR ismétlődő)'
-        : '(subscription OR monthly OR recurring)';
-      break;
-    case 'telco':
-      specificTerms = language === 'hu'
-        ? '(telefon OR mobil OR internet OR vodafone OR telekom OR yettel OR digi)'
-        : '(phone OR mobile OR internet OR broadband OR wireless OR telecom)';
-      break;
-    default:
-      return baseQuery; // Return the base query for 'all'
+  if (billType === 'all') {
+    return baseQuery; // Return the base query for 'all'
   }
   
-  return `${baseQuery} ${specificTerms}`;
-} 
\ No newline at end of file
+  // Fall back to English terms for languages without bill type terms
+  const terms = languageRegistry.getLanguage(language)?.billTypeTerms?.[billType]
+    || languageRegistry.getLanguage('en')?.billTypeTerms?.[billType]
+    || [];
+  
+  return terms.length > 0 ? `${baseQuery} (${terms.join(' OR ')})` : baseQuery;
+}
@@ -7,10 +7,13 @@
 
 import { Bill, BillExtractionResult } from "../../types/Bill";
 import { EmailExtractionContext, ExtractionStrategy, PdfExtractionContext } from "../extraction/strategies/extractionStrategy";
-import { defaultLanguageDetector, LanguageDetector } from "./languageDetector";
+import { defaultLanguageDetector, isRankedLanguageDetector, LanguageDetector } from "./languageDetector";
 import { extractorFactory } from "./extractorFactory";
 import { patternRegistry } from "./patternRegistry";
 
+// Below this probability the runner-up language is tried as well
+const UNCERTAIN_LANGUAGE_PROBABILITY = 0.8;
+
 /**
  * Primary extraction service that handles multilingual bill detection
  */
@@ -30,20 +33,17 @@ export class MultilingualBillExtractor {
   async extractFromEmail(context: EmailExtractionContext): Promise<BillExtractionResult> {
     try {
       // Detect language if not specified
-      const detectedLanguage = context.language || 
-        this.languageDetector.detect(context.subject + ' ' + context.body);
-      
-      // Create context with detected language
-      const updatedContext: EmailExtractionContext = {
-        ...context,
-        language: detectedLanguage as 'en' | 'hu' | 'de'
-      };
-      
-      // Get appropriate extractor for this language
-      const extractor = extractorFactory.createExtractorForLanguage(detectedLanguage);
+      const languages = context.language ?
+        [context.language] :
+        this.getCandidateLanguages(context.subject + ' ' + context.body);
       
-      // Execute extraction
-      return await extractor.extractFromEmail(updatedContext);
+      return await this.extractWithLanguages(languages, language => {
+        // Get appropriate extractor for this language
+        const extractor = extractorFactory.createExtractorForLanguage(language);
+        
+        // Execute extraction with the candidate language
+        return extractor.extractFromEmail({ ...context, language });
+      });
     } catch (error) {
       console.error('Error in multilingual email extraction:', error);
       return {
@@ -64,24 +64,21 @@ export class MultilingualBillExtractor {
   async extractFromPdf(context: PdfExtractionContext): Promise<BillExtractionResult> {
     try {
       // Detect language if not specified
-      const detectedLanguage = context.language || 
-        this.languageDetector.detect(context.text);
+      const languages = context.language ?
+        [context.language] :
+        this.getCandidateLanguages(context.text);
       
-      // Create context with detected language
-      const updatedContext: PdfExtractionContext = {
-        ...context,
-        language: detectedLanguage as 'en' | 'hu' | 'de'
-      };
-      
-      // Get appropriate extractor for this language
-      const extractor = extractorFactory.createExtractorForLanguage(detectedLanguage);
-      
-      if (!extractor) {
-        throw new Error(`No extractor found for language: ${detectedLanguage}`);
-      }
-      
-      // Execute extraction
-      return await extractor.extractFromPdf!(updatedContext);
+      return await this.extractWithLanguages(languages, language => {
+        // Get appropriate extractor for this language
+        const extractor = extractorFactory.createExtractorForLanguage(language);
+        
+        if (!extractor) {
+          throw new Error(`No extractor found for language: ${language}`);
+        }
+        
+        // Execute extraction with the candidate language
+        return extractor.extractFromPdf!({ ...context, language });
+      });
     } catch (error) {
       console.error('Error in multilingual PDF extraction:', error);
       return {
@@ -102,14 +99,12 @@ export class MultilingualBillExtractor {
    */
   async extractFromText(text: string, language?: string): Promise<BillExtractionResult> {
     try {
-      // Detect language if not specified
-      const detectedLanguage = language || this.languageDetector.detect(text);
-      
-      // Create a PDF context (since it accepts plain text)
+      // Create a PDF context (since it accepts plain text); the language is
+      // detected there when not specified
       const context: PdfExtractionContext = {
         text,
         filename: 'text-input.txt',
-        language: detectedLanguage as 'en' | 'hu' | 'de'
+        language
       };
       
       // Use the PDF extraction method
@@ -124,6 +119,68 @@ export class MultilingualBillExtractor {
       };
     }
   }
+  
+  /**
+   * Pick the languages to extract with: the most probable one, plus the
+   * runner-up when detection is uncertain and every language found in
+   * mixed-language text
+   * 
+   * @param text Text to detect the language of
+   * @returns Language codes in the order they should be tried
+   */
+  private getCandidateLanguages(text: string): string[] {
+    if (!isRankedLanguageDetector(this.languageDetector)) {
+      return [this.languageDetector.detect(text)];
+    }
+    
+    const detection = this.languageDetector.detectWithConfidence(text);
+    if (detection.candidates.length === 0) {
+      return [this.languageDetector.detect(text)];
+    }
+    
+    const [best, runnerUp] = detection.candidates;
+    const languages = [best.language];
+    
+    if (runnerUp && best.probability < UNCERTAIN_LANGUAGE_PROBABILITY) {
+      languages.push(runnerUp.language);
+    }
+    
+    if (detection.mixed) {
+      detection.segments.forEach(segment => languages.push(segment.language));
+    }
+    
+    return Array.from(new Set(languages));
+  }
+  
+  /**
+   * Run extraction for each candidate language and keep the most confident
+   * result that found bills
+   * 
+   * @param languages Candidate languages, most probable first
+   * @param extract Extraction for a single language
+   * @returns Best extraction result
+   */
+  private async extractWithLanguages(
+    languages: string[],
+    extract: (language: string) => Promise<BillExtractionResult>
+  ): Promise<BillExtractionResult> {
+    let bestResult: BillExtractionResult | null = null;
+    
+    for (const language of languages) {
+      const result = await extract(language);
+      
+      const hasBills = result.success && result.bills.length > 0;
+      const bestHasBills = bestResult !== null && bestResult.success && bestResult.bills.length > 0;
+      
+      if (!bestResult ||
+          (hasBills && !bestHasBills) ||
+          (hasBills === bestHasBills && result.confidence > bestResult.confidence)) {
+        bestResult = result;
+      }
+    }
+    
+    return bestResult!;
+  }
 }
 
 /**
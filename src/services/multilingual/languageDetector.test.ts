@@ -0,0 +1,56 @@
+import { AdvancedLanguageDetector } from './languageDetector';
+import { germanBillFixtures } from '../extraction/patterns/fixtures/germanBills';
+import {
+  czechBillFixtures,
+  polishBillFixtures,
+  romanianBillFixtures,
+  slovakBillFixtures
+} from '../extraction/patterns/fixtures/centralEuropeanBills';
+
+const fixturesByLanguage = {
+  de: germanBillFixtures,
+  sk: slovakBillFixtures,
+  cs: czechBillFixtures,
+  ro: romanianBillFixtures,
+  pl: polishBillFixtures
+};
+
+describe('AdvancedLanguageDetector', () => {
+  const detector = new AdvancedLanguageDetector();
+
+  Object.entries(fixturesByLanguage).forEach(([language, fixtures]) => {
+    fixtures.forEach(fixture => {
+      it(`should rank ${language} first for the ${language} ${fixture.name}`, () => {
+        const result = detector.detectWithConfidence(`${fixture.subject}\n${fixture.body}`);
+
+        expect(result.candidates[0].language).toBe(language);
+        expect(result.candidates[0].probability).toBeGreaterThan(0.8);
+        expect(result.mixed).toBe(false);
+      });
+    });
+  });
+
+  it('should return probabilities that sum to one', () => {
+    const result = detector.detectWithConfidence('Your invoice is ready. Amount due: $15.99');
+    const total = result.candidates.reduce((sum, candidate) => sum + candidate.probability, 0);
+
+    expect(result.candidates[0].language).toBe('en');
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('should rank both languages of a mixed-language email', () => {
+    const result = detector.detectWithConfidence(
+      'Hello,\nYou have received a new invoice from our billing system. Please see the details below and pay before the due date.\n\n' +
+      'Tisztelt Partnerünk! Mellékelten küldjük a havi számlát.\nFizetendő összeg: 45 600 Ft\nFizetési határidő: 2024.03.15.\n' +
+      'Köszönjük, hogy minket választott.'
+    );
+
+    expect(result.mixed).toBe(true);
+    expect(result.candidates.slice(0, 2).map(candidate => candidate.language).sort()).toEqual(['en', 'hu']);
+  });
+
+  it('should fall back to the simple detector for text without letters', () => {
+    expect(detector.detectWithConfidence('12345 678').candidates).toEqual([]);
+    expect(detector.detect('12345 678')).toBe('en');
+  });
+});
@@ -5,106 +5,356 @@
  * Used to automatically identify the language of emails and PDFs
  */
 
-// We'll need to add these packages later
-// In the meantime, we'll create a simple detector based on keywords and character sets
+import { LanguageCode, LanguageRegistry, languageRegistry } from './languageRegistry';
+import { LANGUAGE_SAMPLES } from './languageSamples';
 
 export interface LanguageDetector {
   detect(text: string): string;
 }
 
 /**
- * Simple detector that uses character frequency and keywords
- * to identify common languages in bill content
+ * Simple detector that uses distinctive characters and keywords
+ * to identify the registered languages in bill content
  */
 export class SimpleLanguageDetector implements LanguageDetector {
+  private registry: LanguageRegistry;
+  
+  constructor(registry: LanguageRegistry = languageRegistry) {
+    this.registry = registry;
+  }
+  
   detect(text: string): string {
     // Normalize text for detection
     const normalizedText = text.toLowerCase();
     
-    // Check for Hungarian-specific markers
-    if (this.isHungarian(normalizedText)) {
-      return 'hu';
-    }
+    let bestLanguage = 'en';
+    let bestScore = 0;
     
-    // Check for German-specific markers
-    if (this.isGerman(normalizedText)) {
-      return 'de';
+    for (const language of this.registry.getAllLanguages()) {
+      if (!language.detection) {
+        continue;
+      }
+      
+      const characterCount = this.countCharacters(normalizedText, language.detection.characters);
+      const keywordCount = language.detection.keywords
+        .filter(keyword => this.containsKeyword(normalizedText, keyword))
+        .length;
+      
+      // A language needs a few distinctive letters or two bill keywords to count
+      if (characterCount <= 3 && keywordCount < 2) {
+        continue;
+      }
+      
+      // Keywords are stronger evidence than letters shared with neighbouring languages
+      const score = keywordCount * 3 + characterCount;
+      if (score > bestScore) {
+        bestLanguage = language.code;
+        bestScore = score;
+      }
     }
     
     // Default to English if no other language is detected
-    return 'en';
+    return bestLanguage;
   }
   
-  private isHungarian(text: string): boolean {
-    // Hungarian special characters
-    const hungarianChars = 'áéíóöőúüűÁÉÍÓÖŐÚÜŰ';
-    let hungarianCharCount = 0;
-    
-    // Count Hungarian special characters
+  /**
+   * Count occurrences of any of the given characters
+   */
+  private countCharacters(text: string, characters: string): number {
+    let count = 0;
     for (const char of text) {
-      if (hungarianChars.includes(char)) {
-        hungarianCharCount++;
+      if (characters.includes(char)) {
+        count++;
       }
     }
-    
-    // Common Hungarian bill keywords
-    const hungarianBillKeywords = [
-      'számla', 'fizetési', 'határidő', 'összeg', 'díj', 'fizetendő',
-      'értesítő', 'közüzemi', 'szolgáltató', 'befizetés', 'előírás',
-      'áram', 'gáz', 'víz', 'közös költség', 'társasház'
-    ];
-    
-    // Count matching keywords
-    const keywordsFound = hungarianBillKeywords.filter(keyword => 
-      text.includes(keyword.toLowerCase())
-    );
-    
-    // Return true if we have enough Hungarian characteristics
-    return hungarianCharCount > 5 || keywordsFound.length >= 2;
+    return count;
   }
+  
+  /**
+   * Check whether a keyword starts a word in the text, so inflected forms
+   * match but words merely containing the keyword don't
+   */
+  private containsKeyword(text: string, keyword: string): boolean {
+    const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<!\\p{L})${escaped}`, 'u').test(text);
+  }
+}
 
-  private isGerman(text: string): boolean {
-    // German special characters
-    const germanChars = 'äöüßÄÖÜ';
-    let germanCharCount = 0;
-    
-    // Count German special characters
-    for (const char of text) {
-      if (germanChars.includes(char)) {
-        germanCharCount++;
-      }
+
+/**
+ * A language the text may be written in, with its estimated probability
+ */
+export interface LanguageCandidate {
+  language: LanguageCode;
+  probability: number;
+}
+
+/**
+ * A stretch of the text whose language was detected on its own
+ */
+export interface LanguageSegment {
+  /**
+   * Offsets of the segment in the original text
+   */
+  start: number;
+  end: number;
+  language: LanguageCode;
+  probability: number;
+}
+
+/**
+ * Ranked detection result for a text
+ */
+export interface LanguageDetectionResult {
+  /**
+   * Candidate languages, most probable first
+   */
+  candidates: LanguageCandidate[];
+
+  /**
+   * Segments of the text with their own most probable language
+   */
+  segments: LanguageSegment[];
+
+  /**
+   * Whether a sizeable part of the text is in a different language than the rest,
+   * like an English notification wrapped around a Hungarian invoice
+   */
+  mixed: boolean;
+}
+
+/**
+ * Detector that can rank candidate languages by probability
+ */
+export interface RankedLanguageDetector extends LanguageDetector {
+  detectWithConfidence(text: string): LanguageDetectionResult;
+}
+
+/**
+ * Check whether a detector can rank candidate languages
+ */
+export function isRankedLanguageDetector(detector: LanguageDetector): detector is RankedLanguageDetector {
+  return typeof (detector as RankedLanguageDetector).detectWithConfidence === 'function';
+}
+
+/**
+ * Trigram frequencies learned from a language sample
+ */
+interface TrigramProfile {
+  counts: Map<string, number>;
+  total: number;
+}
+
+// Additive smoothing for trigrams missing from a profile
+const TRIGRAM_SMOOTHING = 0.5;
+
+// Scales log-likelihoods into probabilities; trigrams of the same word aren't
+// independent, so plain Bayes would be far too sure of itself
+const PROBABILITY_SHARPNESS = 2;
+
+// Letters a segment needs before it is detected on its own
+const MIN_SEGMENT_LETTERS = 60;
+
+// Share of the text a second language needs for the text to count as mixed
+const MIXED_LANGUAGE_SHARE = 0.2;
+
+/**
+ * Count the character trigrams of each word, padded with spaces so word
+ * beginnings and endings are part of the profile
+ */
+function countTrigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const trigram = padded.slice(i, i + 3);
+      counts.set(trigram, (counts.get(trigram) || 0) + 1);
     }
-    
-    // Common German bill keywords
-    const germanBillKeywords = [
-      'rechnung', 'zahlung', 'betrag', 'fällig', 'gesamtbetrag', 
-      'kundennummer', 'zahlbar', 'leistung', 'abrechnung', 'bezahlen',
-      'euro', 'eur', 'stromverbrauch', 'versicherung'
-    ];
-    
-    // Count matching keywords
-    const keywordsFound = germanBillKeywords.filter(keyword => 
-      text.includes(keyword.toLowerCase())
-    );
-    
-    // Return true if we have enough German characteristics
-    return germanCharCount > 3 || keywordsFound.length >= 2;
   }
+  
+  return counts;
 }
 
 /**
- * Advanced language detector using proper NLP libraries
- * This is a placeholder for future implementation with the franc library
+ * Sum the counts of a trigram map
  */
-export class AdvancedLanguageDetector implements LanguageDetector {
+function totalCount(counts: Map<string, number>): number {
+  let total = 0;
+  counts.forEach(count => {
+    total += count;
+  });
+  return total;
+}
+
+/**
+ * Offline detector comparing character trigram frequencies against profiles
+ * learned from sample text in each language. Texts are detected segment by
+ * segment so mixed-language emails rank every language they contain.
+ */
+export class AdvancedLanguageDetector implements RankedLanguageDetector {
+  private profiles = new Map<LanguageCode, TrigramProfile>();
+  private vocabularySize = 0;
+  private fallbackDetector: LanguageDetector;
+  
+  /**
+   * @param samples Sample text by language code to learn the profiles from
+   * @param fallbackDetector Detector used for text without any letters
+   */
+  constructor(
+    samples: Record<LanguageCode, string> = LANGUAGE_SAMPLES,
+    fallbackDetector: LanguageDetector = new SimpleLanguageDetector()
+  ) {
+    this.fallbackDetector = fallbackDetector;
+    Object.entries(samples).forEach(([language, sample]) => this.addProfile(language, sample));
+  }
+  
+  /**
+   * Learn or replace the trigram profile of a language
+   * 
+   * @param language Language code
+   * @param sample Representative text in the language
+   */
+  addProfile(language: LanguageCode, sample: string): void {
+    const counts = countTrigrams(sample);
+    this.profiles.set(language, { counts, total: totalCount(counts) });
+    
+    const vocabulary = new Set<string>();
+    this.profiles.forEach(profile => profile.counts.forEach((_, trigram) => vocabulary.add(trigram)));
+    this.vocabularySize = vocabulary.size;
+  }
+  
   detect(text: string): string {
-    // TODO: Implement with franc library
-    // For now, fall back to the simple detector
-    return new SimpleLanguageDetector().detect(text);
+    const { candidates } = this.detectWithConfidence(text);
+    return candidates.length > 0 ? candidates[0].language : this.fallbackDetector.detect(text);
+  }
+  
+  /**
+   * Rank the languages of a text, detecting each segment separately and
+   * weighting the segments by their length
+   * 
+   * @param text Text to detect
+   * @returns Ranked candidates and the segments they came from
+   */
+  detectWithConfidence(text: string): LanguageDetectionResult {
+    const probabilities = new Map<LanguageCode, number>();
+    const segments: LanguageSegment[] = [];
+    const letterShares = new Map<LanguageCode, number>();
+    
+    const scoredSegments = this.splitSegments(text)
+      .map(segment => ({ ...segment, trigrams: countTrigrams(text.slice(segment.start, segment.end)) }))
+      .map(segment => ({ ...segment, size: totalCount(segment.trigrams) }))
+      .filter(segment => segment.size > 0);
+    const totalSize = scoredSegments.reduce((sum, segment) => sum + segment.size, 0);
+    
+    for (const segment of scoredSegments) {
+      const ranked = this.rank(segment.trigrams);
+      if (ranked.length === 0) {
+        continue;
+      }
+      
+      const weight = segment.size / totalSize;
+      ranked.forEach(({ language, probability }) => {
+        probabilities.set(language, (probabilities.get(language) || 0) + probability * weight);
+      });
+      
+      segments.push({
+        start: segment.start,
+        end: segment.end,
+        language: ranked[0].language,
+        probability: ranked[0].probability
+      });
+      letterShares.set(ranked[0].language, (letterShares.get(ranked[0].language) || 0) + weight);
+    }
+    
+    const candidates = Array.from(probabilities.entries())
+      .map(([language, probability]) => ({ language, probability }))
+      .sort((a, b) => b.probability - a.probability);
+    const mixed = Array.from(letterShares.values())
+      .filter(share => share >= MIXED_LANGUAGE_SHARE)
+      .length > 1;
+    
+    return { candidates, segments, mixed };
+  }
+  
+  /**
+   * Score trigram counts against every profile and normalize the scores
+   * into probabilities
+   */
+  private rank(trigrams: Map<string, number>): LanguageCandidate[] {
+    const size = totalCount(trigrams);
+    if (size === 0 || this.profiles.size === 0) {
+      return [];
+    }
+    
+    const scores = Array.from(this.profiles.entries()).map(([language, profile]) => {
+      let logLikelihood = 0;
+      trigrams.forEach((count, trigram) => {
+        const frequency = ((profile.counts.get(trigram) || 0) + TRIGRAM_SMOOTHING) /
+          (profile.total + TRIGRAM_SMOOTHING * this.vocabularySize);
+        logLikelihood += count * Math.log(frequency);
+      });
+      
+      // Evidence grows with the square root of the text length rather than linearly
+      return { language, score: (logLikelihood / Math.sqrt(size)) * PROBABILITY_SHARPNESS };
+    });
+    
+    const bestScore = Math.max(...scores.map(({ score }) => score));
+    const weights = scores.map(({ language, score }) => ({ language, weight: Math.exp(score - bestScore) }));
+    const weightSum = weights.reduce((sum, { weight }) => sum + weight, 0);
+    
+    return weights
+      .map(({ language, weight }) => ({ language, probability: weight / weightSum }))
+      .sort((a, b) => b.probability - a.probability);
+  }
+  
+  /**
+   * Split text into lines and sentences, merged until each segment has
+   * enough letters to be detected on its own
+   */
+  private splitSegments(text: string): Array<{ start: number; end: number }> {
+    const segments: Array<{ start: number; end: number; letters: number }> = [];
+    let current: { start: number; end: number; letters: number } | null = null;
+    
+    for (const match of Array.from(text.matchAll(/[^\n.!?]+[.!?]*/g))) {
+      const start = match.index || 0;
+      const end = start + match[0].length;
+      const letters = (match[0].match(/\p{L}/gu) || []).length;
+      
+      if (letters === 0) {
+        continue;
+      }
+      
+      if (current) {
+        current.end = end;
+        current.letters += letters;
+      } else {
+        current = { start, end, letters };
+      }
+      
+      if (current.letters >= MIN_SEGMENT_LETTERS) {
+        segments.push(current);
+        current = null;
+      }
+    }
+    
+    // A short remainder joins the segment before it
+    if (current) {
+      const previous = segments[segments.length - 1];
+      if (previous) {
+        previous.end = current.end;
+        previous.letters += current.letters;
+      } else {
+        segments.push(current);
+      }
+    }
+    
+    return segments.map(({ start, end }) => ({ start, end }));
   }
 }
 
 /**
  * Create and export default detector instance
  */
-export const defaultLanguageDetector = new SimpleLanguageDetector(); 
\ No newline at end of file
+export const defaultLanguageDetector = new AdvancedLanguageDetector();
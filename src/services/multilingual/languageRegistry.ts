@@ -0,0 +1,272 @@
+/**
+ * Language Registry Module
+ *
+ * Keeps the languages bills can be extracted in, with what each needs outside
+ * its pattern pack: Gmail search terms, detection hints, locale and currency.
+ * Adding a language means registering a definition here alongside its
+ * patterns and processor.
+ */
+
+/**
+ * Language code registered in the language registry (e.g., 'en', 'hu')
+ */
+export type LanguageCode = string;
+
+/**
+ * Bill types with their own search terms
+ */
+export type BillSearchType = 'utility' | 'subscription' | 'telco';
+
+/**
+ * Everything the scanner needs to know about a supported language
+ */
+export interface LanguageDefinition {
+  /**
+   * ISO 639-1 language code
+   */
+  code: LanguageCode;
+
+  /**
+   * English name shown in settings
+   */
+  name: string;
+
+  /**
+   * Locale used to format amounts and dates
+   */
+  locale: string;
+
+  /**
+   * Usual currency of bills in this language (ISO code)
+   */
+  currency: string;
+
+  /**
+   * Currency symbols and abbreviations written next to amounts
+   */
+  currencySymbols: string[];
+
+  /**
+   * Gmail subject search terms for bills, quoted when they contain spaces
+   */
+  searchTerms: string[];
+
+  /**
+   * Gmail search terms narrowing the search to a bill type
+   */
+  billTypeTerms?: Partial<Record<BillSearchType, string[]>>;
+
+  /**
+   * Hints for language detection, absent for the fallback language
+   */
+  detection?: {
+    /**
+     * Letters that are rare in the other registered languages
+     */
+    characters: string;
+
+    /**
+     * Bill keywords, matched at the start of words
+     */
+    keywords: string[];
+  };
+}
+
+export class LanguageRegistry {
+  private languages: Map<LanguageCode, LanguageDefinition> = new Map();
+
+  /**
+   * Register a language, replacing any earlier definition with the same code
+   *
+   * @param definition Language definition
+   */
+  registerLanguage(definition: LanguageDefinition): void {
+    this.languages.set(definition.code, definition);
+  }
+
+  /**
+   * Get the definition of a language
+   *
+   * @param code Language code
+   * @returns Language definition or undefined if not registered
+   */
+  getLanguage(code: LanguageCode | undefined): LanguageDefinition | undefined {
+    return code ? this.languages.get(code) : undefined;
+  }
+
+  /**
+   * Check whether a language is registered
+   *
+   * @param code Language code
+   * @returns True if the language is registered
+   */
+  isSupported(code: LanguageCode | undefined): boolean {
+    return Boolean(code && this.languages.has(code));
+  }
+
+  /**
+   * Get all registered languages, in registration order
+   *
+   * @returns Array of language definitions
+   */
+  getAllLanguages(): LanguageDefinition[] {
+    return Array.from(this.languages.values());
+  }
+
+  /**
+   * Get all registered language codes
+   *
+   * @returns Array of language codes
+   */
+  getLanguageCodes(): LanguageCode[] {
+    return Array.from(this.languages.keys());
+  }
+}
+
+/**
+ * Create and export default registry instance
+ */
+export const languageRegistry = new LanguageRegistry();
+
+// Register built-in languages
+languageRegistry.registerLanguage({
+  code: 'en',
+  name: 'English',
+  locale: 'en-US',
+  currency: 'USD',
+  currencySymbols: ['$', 'USD'],
+  searchTerms: ['invoice', 'bill', 'receipt', 'payment', 'statement', 'due'],
+  billTypeTerms: {
+    utility: ['electricity', 'water', 'gas', 'utility', 'power', 'energy'],
+    subscription: ['subscription', 'monthly', 'recurring'],
+    telco: ['phone', 'mobile', 'internet', 'broadband', 'wireless', 'telecom']
+  }
+});
+
+languageRegistry.registerLanguage({
+  code: 'hu',
+  name: 'Hungarian',
+  locale: 'hu-HU',
+  currency: 'HUF',
+  currencySymbols: ['Ft', 'HUF'],
+  searchTerms: ['számla', 'fizetés', 'díj', '"Új számla"', '"számla készült"', 'áram', 'gáz', 'víz', 'szolgáltatás'],
+  billTypeTerms: {
+    utility: ['áram', 'villany', 'gáz', 'víz', 'közüzemi', 'szolgáltató'],
+    subscription: ['előfizetés', 'havi díj', 'ismétlődő'],
+    telco: ['telefon', 'mobil', 'internet', 'vodafone', 'telekom', 'yettel', 'digi']
+  },
+  detection: {
+    characters: 'őűŐŰ',
+    keywords: [
+      'számla', 'fizetési', 'határidő', 'összeg', 'díj', 'fizetendő',
+      'értesítő', 'közüzemi', 'szolgáltató', 'befizetés', 'előírás',
+      'áram', 'gáz', 'víz', 'közös költség', 'társasház'
+    ]
+  }
+});
+
+languageRegistry.registerLanguage({
+  code: 'de',
+  name: 'German',
+  locale: 'de-DE',
+  currency: 'EUR',
+  currencySymbols: ['€', 'EUR'],
+  searchTerms: ['Rechnung', 'Stromrechnung', 'Abschlag', 'Mobilfunkrechnung', 'Beitragsrechnung', 'Versicherung', 'Rundfunkbeitrag', 'Zahlungserinnerung'],
+  billTypeTerms: {
+    utility: ['Strom', 'Gas', 'Wasser', 'Energie', 'Stadtwerke', 'Abschlag'],
+    subscription: ['Abonnement', 'Abo', 'monatlich', 'Mitgliedschaft'],
+    telco: ['Mobilfunk', 'Handy', 'Festnetz', 'DSL', 'Telekom', 'Vodafone', 'O2', 'congstar']
+  },
+  detection: {
+    characters: 'äöüßÄÖÜ',
+    keywords: [
+      'rechnung', 'zahlung', 'betrag', 'fällig', 'gesamtbetrag',
+      'kundennummer', 'zahlbar', 'leistung', 'abrechnung', 'bezahlen',
+      'stromverbrauch', 'versicherung'
+    ]
+  }
+});
+
+languageRegistry.registerLanguage({
+  code: 'sk',
+  name: 'Slovak',
+  locale: 'sk-SK',
+  currency: 'EUR',
+  currencySymbols: ['€', 'EUR'],
+  searchTerms: ['faktúra', 'vyúčtovanie', 'platba', '"suma na úhradu"', 'elektrina', 'plyn', 'zálohová'],
+  billTypeTerms: {
+    utility: ['elektrina', 'plyn', 'voda', 'energie', 'vyúčtovanie'],
+    subscription: ['predplatné', 'mesačne'],
+    telco: ['mobil', 'internet', 'telekom', 'orange', 'o2', '"4ka"']
+  },
+  detection: {
+    characters: 'ľĺŕôĽĹŔÔ',
+    keywords: [
+      'faktúra', 'faktúry', 'vyúčtovanie', 'splatnosti', 'suma', 'na úhradu',
+      'zálohová', 'variabilný symbol', 'elektrina', 'platba', 'zákazník'
+    ]
+  }
+});
+
+languageRegistry.registerLanguage({
+  code: 'cs',
+  name: 'Czech',
+  locale: 'cs-CZ',
+  currency: 'CZK',
+  currencySymbols: ['Kč', 'CZK'],
+  searchTerms: ['faktura', 'vyúčtování', 'platba', '"k úhradě"', 'elektřina', 'plyn', 'záloha'],
+  billTypeTerms: {
+    utility: ['elektřina', 'plyn', 'voda', 'energie', 'vyúčtování'],
+    subscription: ['předplatné', 'měsíčně'],
+    telco: ['mobil', 'internet', 't-mobile', 'o2', 'vodafone']
+  },
+  detection: {
+    characters: 'řůěŘŮĚ',
+    keywords: [
+      'faktura', 'vyúčtování', 'splatnosti', 'částka', 'k úhradě',
+      'zaplacení', 'záloh', 'variabilní symbol', 'elektřina', 'zákazník'
+    ]
+  }
+});
+
+languageRegistry.registerLanguage({
+  code: 'ro',
+  name: 'Romanian',
+  locale: 'ro-RO',
+  currency: 'RON',
+  currencySymbols: ['lei', 'RON'],
+  searchTerms: ['factura', 'factură', 'plată', 'plata', 'scadență', '"factura fiscala"', 'energie', 'gaze'],
+  billTypeTerms: {
+    utility: ['energie', 'electricitate', 'gaze', 'apă', 'utilități'],
+    subscription: ['abonament', 'lunar'],
+    telco: ['mobil', 'internet', 'orange', 'vodafone', 'digi', 'telekom']
+  },
+  detection: {
+    characters: 'ăâîșşțţĂÂÎȘŞȚŢ',
+    keywords: [
+      'factura', 'factură', 'facturii', 'scadență', 'scadenta', 'total de plată',
+      'total de plata', 'plată', 'cod client', 'furnizor', 'consum'
+    ]
+  }
+});
+
+languageRegistry.registerLanguage({
+  code: 'pl',
+  name: 'Polish',
+  locale: 'pl-PL',
+  currency: 'PLN',
+  currencySymbols: ['zł', 'PLN'],
+  searchTerms: ['faktura', 'rachunek', 'płatność', '"do zapłaty"', 'prąd', 'gaz', 'prognoza'],
+  billTypeTerms: {
+    utility: ['prąd', 'energia', 'gaz', 'woda', 'rozliczenie'],
+    subscription: ['subskrypcja', 'abonament', 'miesięcznie'],
+    telco: ['telefon', 'komórka', 'internet', 'orange', 'play', 'plus', 't-mobile']
+  },
+  detection: {
+    characters: 'łąęśźżćńŁĄĘŚŹŻĆŃ',
+    keywords: [
+      'faktura', 'rachunek', 'termin płatności', 'do zapłaty', 'kwota',
+      'numer klienta', 'prąd', 'należność', 'sprzedawca', 'nabywca'
+    ]
+  }
+});
@@ -0,0 +1,98 @@
+/**
+ * Language Sample Texts
+ *
+ * Training text for the trigram language profiles. Each sample mixes the
+ * wording of bill emails with everyday sentences so the profiles cover both
+ * the bill itself and the prose around it.
+ */
+
+import { LanguageCode } from './languageRegistry';
+
+export const LANGUAGE_SAMPLES: Record<LanguageCode, string> = {
+  en: `
+Dear customer, thank you for your payment. Your monthly statement is now available in your account.
+The total amount due is shown below and should be paid by the due date to avoid late fees.
+Please find attached your invoice for the services provided during the last billing period.
+If you have any questions about your bill, please contact our customer service team.
+We will automatically charge the card on file, so there is nothing you need to do.
+You can view your usage, download previous statements and update your payment method online at any time.
+This email was sent to you because you have an account with us. Please do not reply to this message.
+Your electricity and gas usage has been calculated from the latest meter reading.
+Your subscription renews next month and the payment will be taken on the same day.
+The weather was nice yesterday, so we went for a walk in the park with the children after work.
+Phone and internet services, insurance policy premium, account number and invoice number.
+  `,
+  hu: `
+Tisztelt Ügyfelünk! Tájékoztatjuk, hogy elkészült az Ön új számlája, amelyet a mellékletben talál.
+A fizetendő összeg és a fizetési határidő a számlán szerepel.
+Kérjük, hogy a számlát a határidőig egyenlítse ki, mert késedelmes fizetés esetén késedelmi kamatot számítunk fel.
+Az áram- és gázfogyasztás elszámolása a mérőóra leolvasása alapján történt.
+Az ügyfélazonosító és a felhasználási hely azonosító szükséges a befizetéshez.
+Köszönjük, hogy szolgáltatásainkat választotta. Ha kérdése van, forduljon ügyfélszolgálatunkhoz telefonon vagy e-mailben.
+A közös költség havi előírása a társasház közgyűlésének határozata szerint változott.
+Az előfizetés díját minden hónapban automatikusan levonjuk a bankkártyájáról.
+Ez egy automatikus üzenet, kérjük, ne válaszoljon rá.
+Tegnap este a gyerekekkel sétáltunk a parkban, mert nagyon szép idő volt.
+Mobil és internet szolgáltatás, biztosítási díj, szerződésszám és számlaszám.
+  `,
+  de: `
+Sehr geehrte Kundin, sehr geehrter Kunde, vielen Dank für Ihre Zahlung.
+Ihre aktuelle Rechnung steht ab sofort in Ihrem Kundenkonto zur Verfügung.
+Der Rechnungsbetrag wird zum Fälligkeitsdatum von Ihrem Konto abgebucht.
+Bitte überweisen Sie den offenen Betrag unter Angabe Ihrer Kundennummer bis zum angegebenen Datum.
+Ihr monatlicher Abschlag für Strom und Gas wurde nach der Jahresabrechnung neu berechnet.
+Bei Fragen zu Ihrer Rechnung wenden Sie sich bitte an unseren Kundenservice.
+Diese E-Mail wurde automatisch erstellt, bitte antworten Sie nicht darauf.
+Ihr Vertrag verlängert sich automatisch, wenn Sie ihn nicht rechtzeitig kündigen.
+Gestern sind wir nach der Arbeit mit den Kindern im Park spazieren gegangen, weil das Wetter so schön war.
+Versicherungsbeitrag, Mobilfunkvertrag, Rundfunkbeitrag, Vertragsnummer und Rechnungsnummer.
+  `,
+  sk: `
+Vážený zákazník, ďakujeme za Vašu platbu.
+Vaša nová faktúra je k dispozícii v zákazníckom účte a nájdete ju aj v prílohe tohto e-mailu.
+Suma na úhradu a dátum splatnosti sú uvedené na faktúre.
+Prosíme Vás, aby ste faktúru uhradili do dátumu splatnosti, inak Vám budeme účtovať úroky z omeškania.
+Vyúčtovanie spotreby elektriny a plynu bolo vystavené na základe odpočtu meradla.
+Pri platbe uveďte variabilný symbol a číslo zákazníka.
+Ak máte otázky, kontaktujte naše zákaznícke centrum telefonicky alebo e-mailom.
+Táto správa bola vytvorená automaticky, prosíme, neodpovedajte na ňu.
+Včera večer sme sa s deťmi prechádzali v parku, pretože bolo veľmi pekné počasie.
+Mesačný paušál za mobilné služby a internet, poistné, číslo zmluvy a číslo faktúry.
+  `,
+  cs: `
+Vážený zákazníku, děkujeme za Vaši platbu.
+Vaše nová faktura je k dispozici v zákaznickém účtu a najdete ji také v příloze tohoto e-mailu.
+Částka k úhradě a datum splatnosti jsou uvedeny na faktuře.
+Prosíme Vás, abyste fakturu uhradili do data splatnosti, jinak Vám budeme účtovat úroky z prodlení.
+Vyúčtování spotřeby elektřiny a plynu bylo vystaveno na základě odečtu měřidla.
+Při platbě uveďte variabilní symbol a zákaznické číslo.
+Pokud máte dotazy, kontaktujte naše zákaznické centrum telefonicky nebo e-mailem.
+Tato zpráva byla vytvořena automaticky, prosíme, neodpovídejte na ni.
+Včera večer jsme se s dětmi procházeli v parku, protože bylo velmi hezké počasí.
+Měsíční paušál za mobilní služby a internet, pojistné, číslo smlouvy a číslo faktury.
+  `,
+  ro: `
+Stimate client, vă mulțumim pentru plata efectuată.
+Factura dumneavoastră nouă este disponibilă în contul de client și o găsiți și atașată acestui e-mail.
+Suma de plată și data scadenței sunt menționate pe factură.
+Vă rugăm să achitați factura până la data scadenței, altfel vom calcula penalități de întârziere.
+Factura pentru consumul de energie electrică și gaze naturale a fost emisă pe baza citirii contorului.
+La plata mentionati codul de client si numarul facturii, iar totalul de plata il gasiti mai jos.
+Dacă aveți întrebări, contactați centrul nostru de relații cu clienții telefonic sau prin e-mail.
+Acest mesaj a fost generat automat, vă rugăm să nu răspundeți.
+Ieri seară ne-am plimbat cu copiii în parc, pentru că vremea a fost foarte frumoasă.
+Abonamentul lunar pentru servicii mobile și internet, prima de asigurare, numărul contractului.
+  `,
+  pl: `
+Szanowny Kliencie, dziękujemy za dokonanie płatności.
+Twoja nowa faktura jest dostępna w panelu klienta i znajdziesz ją również w załączniku do tej wiadomości.
+Kwota do zapłaty oraz termin płatności są podane na fakturze.
+Prosimy o opłacenie faktury do terminu płatności, w przeciwnym razie naliczymy odsetki za opóźnienie.
+Rozliczenie zużycia energii elektrycznej i gazu zostało wystawione na podstawie odczytu licznika.
+Przy płatności podaj numer klienta oraz numer faktury.
+Jeśli masz pytania, skontaktuj się z naszym biurem obsługi klienta telefonicznie lub mailowo.
+Ta wiadomość została wygenerowana automatycznie, prosimy na nią nie odpowiadać.
+Wczoraj wieczorem spacerowaliśmy z dziećmi po parku, ponieważ pogoda była bardzo ładna.
+Miesięczny abonament za usługi komórkowe i internet, składka ubezpieczeniowa, numer umowy.
+  `
+};
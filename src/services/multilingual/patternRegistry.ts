@@ -7,8 +7,14 @@
 
 import { BillPattern } from "../extraction/patterns";
 
+/**
+ * Language of patterns that apply whatever the email's language
+ */
+export const ANY_LANGUAGE = '*';
+
 export class BillPatternRegistry {
   private patterns: Map<string, BillPattern[]> = new Map();
+  private userPatterns: BillPattern[] = [];
   
   /**
    * Register a set of patterns for a specific language
@@ -23,13 +29,35 @@ export class BillPatternRegistry {
   }
   
   /**
-   * Get all patterns for a specific language
+   * Replace the user-defined patterns, loaded at runtime next to the
+   * built-in ones
+   * 
+   * @param patterns Compiled user patterns
+   */
+  setUserPatterns(patterns: BillPattern[]): void {
+    this.userPatterns = patterns;
+  }
+  
+  /**
+   * Get the user-defined patterns
+   * 
+   * @returns Array of user patterns
+   */
+  getUserPatterns(): BillPattern[] {
+    return this.userPatterns;
+  }
+  
+  /**
+   * Get all patterns for a specific language, user patterns first
    * 
    * @param language Language code
    * @returns Array of bill patterns for the specified language
    */
   getPatternsForLanguage(language: string): BillPattern[] {
-    return this.patterns.get(language) || [];
+    const userPatterns = this.userPatterns.filter(pattern =>
+      pattern.language === language || pattern.language === ANY_LANGUAGE
+    );
+    return [...userPatterns, ...(this.patterns.get(language) || [])];
   }
   
   /**
@@ -47,7 +75,7 @@ export class BillPatternRegistry {
    * @returns Combined array of all patterns
    */
   getAllPatterns(): BillPattern[] {
-    const allPatterns: BillPattern[] = [];
+    const allPatterns: BillPattern[] = [...this.userPatterns];
     this.patterns.forEach(patterns => {
       allPatterns.push(...patterns);
     });
@@ -8,17 +8,39 @@
 import { patternRegistry } from './patternRegistry';
 import { allEnglishPatterns } from '../extraction/patterns/englishPatterns';
 import { allHungarianPatterns } from '../extraction/patterns/hungarianPatterns';
+import { allGermanPatterns } from '../extraction/patterns/germanPatterns';
+import { allSlovakPatterns } from '../extraction/patterns/slovakPatterns';
+import { allCzechPatterns } from '../extraction/patterns/czechPatterns';
+import { allRomanianPatterns } from '../extraction/patterns/romanianPatterns';
+import { allPolishPatterns } from '../extraction/patterns/polishPatterns';
+
+// Registering twice would duplicate every pattern
+let registered = false;
 
 /**
  * Register all patterns with the registry
  */
 export function registerAllPatterns(): void {
+  if (registered) {
+    return;
+  }
+  registered = true;
+  
   // Register English patterns
   patternRegistry.registerPatterns('en', allEnglishPatterns);
   
   // Register Hungarian patterns
   patternRegistry.registerPatterns('hu', allHungarianPatterns);
   
+  // Register German patterns
+  patternRegistry.registerPatterns('de', allGermanPatterns);
+  
+  // Register Central European patterns
+  patternRegistry.registerPatterns('sk', allSlovakPatterns);
+  patternRegistry.registerPatterns('cs', allCzechPatterns);
+  patternRegistry.registerPatterns('ro', allRomanianPatterns);
+  patternRegistry.registerPatterns('pl', allPolishPatterns);
+  
   console.log('Registered patterns for languages:', patternRegistry.getAvailableLanguages());
   console.log('Total patterns registered:', patternRegistry.getAllPatterns().length);
 }
@@ -0,0 +1,103 @@
+/**
+ * OCR Service
+ *
+ * Recognizes the text of scanned PDFs and image attachments with the bundled
+ * Tesseract WebAssembly engine. The engine, its worker and the eng and hun
+ * language data ship with the extension, so recognition works offline.
+ * Needs a DOM, so it runs in extension pages and the offscreen document.
+ */
+
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import { decodeBase64Data, renderPdfPages } from '../pdf/pdfService';
+import { OcrResult } from './ocrSupport';
+
+/**
+ * Languages recognized in every attachment, Hungarian bills mix in English terms
+ */
+const OCR_LANGUAGES = ['eng', 'hun'];
+
+// Scanned bills put their totals on the first pages
+const MAX_OCR_PAGES = 3;
+
+// Render scale of PDF pages, around 200 DPI for A4
+const OCR_RENDER_SCALE = 2.8;
+
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * Get the OCR worker, creating it on first use
+ */
+function getOcrWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    // The build copies these from node_modules, see webpack.config.js
+    workerPromise = createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+      workerPath: chrome.runtime.getURL('tesseract/worker.min.js'),
+      corePath: chrome.runtime.getURL('tesseract/'),
+      langPath: chrome.runtime.getURL('tesseract/lang'),
+      workerBlobURL: false,
+      gzip: true
+    }).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+
+  return workerPromise;
+}
+
+/**
+ * Recognize the text of images, e.g. the pages of a PDF
+ *
+ * @param images Images in reading order
+ * @returns Text of all images, with the mean confidence of their words
+ */
+async function recognizeImages(images: Array<HTMLCanvasElement | Blob>): Promise<OcrResult> {
+  const worker = await getOcrWorker();
+  const texts: string[] = [];
+  let totalConfidence = 0;
+
+  for (const image of images) {
+    const { data } = await worker.recognize(image);
+    texts.push(data.text.trim());
+    totalConfidence += data.confidence;
+  }
+
+  return {
+    text: texts.join('\n\n'),
+    confidence: images.length > 0 ? totalConfidence / images.length / 100 : 0
+  };
+}
+
+/**
+ * Recognize the text of a scanned PDF
+ *
+ * @param pdfData PDF file data
+ * @param passwords Passwords to try if the PDF is encrypted
+ * @returns Text of the first pages
+ */
+export async function recognizePdf(pdfData: Uint8Array, passwords: string[] = []): Promise<OcrResult> {
+  const pages = await renderPdfPages(pdfData, MAX_OCR_PAGES, OCR_RENDER_SCALE, passwords);
+  return recognizeImages(pages);
+}
+
+/**
+ * Recognize the text of a base64-encoded attachment
+ *
+ * @param base64Data Base64 or base64url attachment data
+ * @param mimeType MIME type of the attachment, a PDF or one of OCR_IMAGE_TYPES
+ * @param passwords Passwords to try if the PDF is encrypted
+ * @returns Recognized text
+ */
+export async function recognizeBase64Attachment(
+  base64Data: string,
+  mimeType: string,
+  passwords: string[] = []
+): Promise<OcrResult> {
+  const data = decodeBase64Data(base64Data);
+
+  if (mimeType === 'application/pdf') {
+    return recognizePdf(data, passwords);
+  }
+
+  return recognizeImages([new Blob([data], { type: mimeType })]);
+}
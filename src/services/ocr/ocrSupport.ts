@@ -0,0 +1,60 @@
+/**
+ * OCR Support
+ *
+ * Decides which attachments need OCR and how far to trust its text. Kept apart
+ * from the OCR engine so the service worker can use it without loading Tesseract.
+ */
+
+// PDFs with less text than this have no usable text layer
+const MIN_TEXT_LAYER_LENGTH = 20;
+
+// Even a clean scan is less reliable than a text layer
+const MAX_OCR_CONFIDENCE_FACTOR = 0.8;
+
+/**
+ * Image attachment types the OCR engine reads, by file extension
+ */
+export const OCR_IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  bmp: 'image/bmp'
+};
+
+/**
+ * Recognized text with the engine's mean confidence
+ */
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-1
+}
+
+/**
+ * Whether extracted PDF text is too short to be a text layer, as with scans
+ *
+ * @param text Text extracted from the PDF
+ */
+export function needsOcr(text: string): boolean {
+  return text.replace(/\s+/g, '').length < MIN_TEXT_LAYER_LENGTH;
+}
+
+/**
+ * Get the MIME type of an image attachment the OCR engine reads
+ *
+ * @param fileName Attachment file name
+ * @returns MIME type, or null for other attachments
+ */
+export function getOcrImageType(fileName: string): string | null {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  return OCR_IMAGE_TYPES[extension] || null;
+}
+
+/**
+ * Get the factor scaling the confidence of bills read from OCR text
+ *
+ * @param ocrConfidence Mean confidence of the recognized words, 0-1
+ */
+export function getOcrConfidenceFactor(ocrConfidence: number): number {
+  return Math.max(0, Math.min(MAX_OCR_CONFIDENCE_FACTOR, ocrConfidence));
+}
@@ -0,0 +1,160 @@
+/**
+ * Offscreen PDF Extraction
+ *
+ * The service worker has no DOM, so PDF.js can't run there. Background scans
+ * hand attachment data to an offscreen document instead, which parses it with
+ * PDF.js, or recognizes it with OCR, and sends the text back.
+ */
+
+import { PdfLayout } from './pdfLayout';
+import { PdfPasswordError } from './pdfService';
+import { OcrResult } from '../ocr/ocrSupport';
+
+// Page created by the build from public/offscreen.html
+const OFFSCREEN_DOCUMENT_PATH = 'offscreen.html';
+
+/**
+ * Message type handled by the offscreen document
+ */
+export const EXTRACT_PDF_TEXT = 'EXTRACT_PDF_TEXT';
+
+/**
+ * Message type asking the offscreen document to OCR a scanned PDF or an image
+ */
+export const RECOGNIZE_TEXT = 'RECOGNIZE_TEXT';
+
+/**
+ * Marks messages meant for the offscreen document, other extension pages ignore them
+ */
+export const OFFSCREEN_TARGET = 'offscreen';
+
+/**
+ * Response of the offscreen document to EXTRACT_PDF_TEXT
+ */
+export interface PdfTextResponse {
+  success: boolean;
+  text?: string;
+  layout?: PdfLayout; // Positioned text, absent when PDF.js couldn't parse the PDF
+  embeddedXml?: string; // Invoice XML of ZUGFeRD and Factur-X PDFs
+  needsPassword?: boolean; // The PDF is encrypted and none of the passwords opened it
+  error?: string;
+}
+
+/**
+ * Response of the offscreen document to RECOGNIZE_TEXT
+ */
+export interface RecognizeTextResponse {
+  success: boolean;
+  result?: OcrResult;
+  needsPassword?: boolean;
+  error?: string;
+}
+
+// Check and creation in progress, so concurrent extractions don't create the document twice
+let ensuringDocument: Promise<void> | null = null;
+
+/**
+ * Whether this browser can host an offscreen document
+ */
+export function isOffscreenAvailable(): boolean {
+  return typeof chrome !== 'undefined' && !!chrome.offscreen?.createDocument;
+}
+
+/**
+ * Create the offscreen document unless it's already open
+ */
+async function ensureOffscreenDocument(): Promise<void> {
+  if (!ensuringDocument) {
+    ensuringDocument = openOffscreenDocument().finally(() => {
+      ensuringDocument = null;
+    });
+  }
+
+  await ensuringDocument;
+}
+
+/**
+ * Look for the offscreen document and create it when none is open. Callers go
+ * through ensureOffscreenDocument so the lookup and creation never interleave
+ */
+async function openOffscreenDocument(): Promise<void> {
+  const documentUrl = chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH);
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [documentUrl]
+  });
+
+  if (contexts.length > 0) {
+    return;
+  }
+
+  await chrome.offscreen.createDocument({
+    url: OFFSCREEN_DOCUMENT_PATH,
+    reasons: [chrome.offscreen.Reason.WORKERS],
+    justification: 'Parse PDF bill attachments with PDF.js during background scans'
+  });
+}
+
+/**
+ * Extract the text of a PDF in the offscreen document
+ *
+ * @param pdfData Base64-encoded PDF data
+ * @param passwords Passwords to try if the PDF is encrypted
+ * @returns Extracted text, with its layout when PDF.js parsed the PDF and any embedded invoice XML
+ * @throws PdfPasswordError when none of the passwords opens the PDF
+ */
+export async function extractTextInOffscreenDocument(
+  pdfData: string,
+  passwords: string[] = []
+): Promise<{ text: string; layout?: PdfLayout; embeddedXml?: string }> {
+  await ensureOffscreenDocument();
+
+  const response: PdfTextResponse | undefined = await chrome.runtime.sendMessage({
+    type: EXTRACT_PDF_TEXT,
+    target: OFFSCREEN_TARGET,
+    payload: { pdfData, passwords }
+  });
+
+  if (response?.needsPassword) {
+    throw new PdfPasswordError(response.error);
+  }
+
+  if (!response?.success || typeof response.text !== 'string') {
+    throw new Error(response?.error || 'No response from the offscreen document');
+  }
+
+  return { text: response.text, layout: response.layout, embeddedXml: response.embeddedXml };
+}
+
+/**
+ * Recognize the text of a scanned PDF or an image in the offscreen document
+ *
+ * @param data Base64-encoded attachment data
+ * @param mimeType MIME type of the attachment
+ * @param passwords Passwords to try if the attachment is an encrypted PDF
+ * @returns Recognized text with the OCR confidence
+ * @throws PdfPasswordError when none of the passwords opens the PDF
+ */
+export async function recognizeTextInOffscreenDocument(
+  data: string,
+  mimeType: string,
+  passwords: string[] = []
+): Promise<OcrResult> {
+  await ensureOffscreenDocument();
+
+  const response: RecognizeTextResponse | undefined = await chrome.runtime.sendMessage({
+    type: RECOGNIZE_TEXT,
+    target: OFFSCREEN_TARGET,
+    payload: { data, mimeType, passwords }
+  });
+
+  if (response?.needsPassword) {
+    throw new PdfPasswordError(response.error);
+  }
+
+  if (!response?.success || !response.result) {
+    throw new Error(response?.error || 'No response from the offscreen document');
+  }
+
+  return response.result;
+}
@@ -0,0 +1,85 @@
+import { LayoutItem, buildLayout, findValueByLabel, layoutToText } from './pdfLayout';
+import { PatternBasedExtractor } from '../extraction/strategies/patternBasedExtractor';
+import { initializePatternRegistry } from '../multilingual/registerPatterns';
+
+const item = (text: string, x: number, y: number, width: number, page = 1): LayoutItem => ({
+  text, x, y, width, height: 10, page
+});
+
+// Two-column MVM bill: the due date and customer ID sit under their labels
+const items: LayoutItem[] = [
+  item('MVM Next Energiakereskedelmi Zrt.', 50, 40, 180),
+  item('Villamos energia elszámoló számla', 50, 55, 180),
+  item('Fizetendő összeg:', 50, 100, 90),
+  item('12 345 Ft', 150, 100, 50),
+  item('Számla sorszáma:', 320, 100, 80),
+  item('E-2026/0417', 410, 100, 60),
+  item('Fizetési határidő', 50, 120, 90),
+  item('Ügyfélazonosító', 320, 120, 80),
+  // Slightly lower baseline, still the same line
+  item('2026.04.02.', 50, 136, 60),
+  item('400123456', 320, 135, 50)
+];
+
+const AMOUNT = /^(?:Ft\.?|HUF)?\s*(\d{1,3}(?:\s\d{3})*)/;
+const DATE = /^(\d{4}\.\d{2}\.\d{2})/;
+const ID = /^([A-Z0-9]{4,})/;
+
+describe('PDF Layout', () => {
+  beforeAll(() => {
+    initializePatternRegistry();
+  });
+
+  it('should rebuild lines and mark column gaps with a tab', () => {
+    const layout = buildLayout(items);
+
+    expect(layout.pages).toBe(1);
+    expect(layout.lines).toHaveLength(5);
+    expect(layout.lines[2].text).toBe('Fizetendő összeg: 12 345 Ft\tSzámla sorszáma: E-2026/0417');
+    expect(layoutToText(layout)).toContain('Fizetési határidő\tÜgyfélazonosító\n2026.04.02.\t400123456');
+  });
+
+  it('should find values to the right of and below their labels', () => {
+    const layout = buildLayout(items);
+
+    expect(findValueByLabel(layout, /fizetendő\s+összeg/i, AMOUNT)).toBe('12 345');
+    expect(findValueByLabel(layout, /fizetési\s+határid[őo]/i, DATE)).toBe('2026.04.02');
+    expect(findValueByLabel(layout, /ügyfélazonosító/i, ID)).toBe('400123456');
+    expect(findValueByLabel(layout, /ügyfélazonosító/i, ID, ['right'])).toBe(null);
+  });
+
+  it('should let patterns read layout fields that the flattened text mixes up', async () => {
+    const layout = buildLayout(items);
+    const result = await new PatternBasedExtractor().extractFromPdf({
+      messageId: 'fixture',
+      attachmentId: 'att-1',
+      filename: 'szamla.pdf',
+      text: layoutToText(layout),
+      layout,
+      language: 'hu'
+    });
+
+    const bill = result.bills.find(bill => bill.matchedPattern === 'mvm-bill-hu');
+    expect(bill).toBeDefined();
+    expect(bill?.amount).toBe(12345);
+    expect(bill?.dueDate).toBe(new Date(2026, 3, 2).toISOString());
+    expect(bill?.accountNumber).toBe('400123456');
+  });
+
+  it('should read a layout amount written without thousands separators', async () => {
+    const layout = buildLayout(items.map(entry =>
+      entry.text === '12 345 Ft' ? { ...entry, text: '12345 Ft' } : entry
+    ));
+    const result = await new PatternBasedExtractor().extractFromPdf({
+      messageId: 'fixture',
+      attachmentId: 'att-1',
+      filename: 'szamla.pdf',
+      text: layoutToText(layout),
+      layout,
+      language: 'hu'
+    });
+
+    const bill = result.bills.find(bill => bill.matchedPattern === 'mvm-bill-hu');
+    expect(bill?.amount).toBe(12345);
+  });
+});
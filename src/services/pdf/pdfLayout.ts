@@ -0,0 +1,207 @@
+/**
+ * PDF Layout
+ *
+ * Keeps the position of each PDF.js text item and rebuilds the lines and
+ * columns of a page from them, so a value can be found next to its label
+ * instead of somewhere in the flattened text
+ */
+
+/**
+ * Text item with its position on the page, y grows downwards from the top
+ */
+export interface LayoutItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  page: number;
+}
+
+/**
+ * Items sharing a baseline, ordered left to right
+ */
+export interface LayoutLine {
+  page: number;
+  y: number;
+  items: LayoutItem[];
+
+  /**
+   * Items joined by a space, or by a tab where a column gap separates them
+   */
+  text: string;
+}
+
+/**
+ * Positioned text of a PDF
+ */
+export interface PdfLayout {
+  pages: number;
+  lines: LayoutLine[];
+}
+
+/**
+ * Where a value is placed relative to its label
+ */
+export type LayoutPosition = 'right' | 'below';
+
+// Items whose baselines differ by less than this share of their height are on one line
+const LINE_TOLERANCE = 0.5;
+
+// Gaps wider than this many line heights separate columns
+const COLUMN_GAP = 1.5;
+
+// Lines under a label searched for its value
+const MAX_LINES_BELOW = 3;
+
+// Separators between a label and its value, e.g. ": " or " * "
+const VALUE_SEPARATORS = /^[\s:*=-]+/;
+
+/**
+ * Join a line's items, marking column gaps with a tab
+ */
+function joinItems(items: LayoutItem[]): string {
+  return items.reduce((text, item, index) => {
+    if (index === 0) {
+      return item.text;
+    }
+    const previous = items[index - 1];
+    const gap = item.x - (previous.x + previous.width);
+    const separator = gap > COLUMN_GAP * Math.max(item.height, previous.height, 1) ? '\t' : ' ';
+    return `${text}${separator}${item.text}`;
+  }, '');
+}
+
+/**
+ * Build the lines of a PDF from its positioned text items
+ *
+ * @param items Text items of every page
+ * @returns Layout with lines in reading order
+ */
+export function buildLayout(items: LayoutItem[]): PdfLayout {
+  const sorted = items
+    .filter(item => item.text.trim() !== '')
+    .sort((a, b) => a.page - b.page || a.y - b.y || a.x - b.x);
+
+  const lines: LayoutLine[] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    const tolerance = LINE_TOLERANCE * Math.max(item.height, 1);
+
+    if (line && line.page === item.page && Math.abs(line.y - item.y) <= tolerance) {
+      line.items.push(item);
+    } else {
+      lines.push({ page: item.page, y: item.y, items: [item], text: '' });
+    }
+  }
+
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x);
+    line.text = joinItems(line.items);
+  }
+
+  return {
+    pages: sorted.length > 0 ? sorted[sorted.length - 1].page : 0,
+    lines
+  };
+}
+
+/**
+ * Get the plain text of a layout, one line per row and a blank line between pages
+ *
+ * @param layout PDF layout
+ * @returns Text content
+ */
+export function layoutToText(layout: PdfLayout): string {
+  return layout.lines
+    .map((line, index) => (index > 0 && layout.lines[index - 1].page !== line.page ? `\n${line.text}` : line.text))
+    .join('\n');
+}
+
+/**
+ * Get the horizontal extent of the items covering part of a line's text
+ */
+function getExtent(line: LayoutLine, start: number, end: number): { left: number; right: number } {
+  let offset = 0;
+  let left = Infinity;
+  let right = -Infinity;
+
+  for (const item of line.items) {
+    const itemStart = offset;
+    const itemEnd = offset + item.text.length;
+    // Items are joined by a single space or tab
+    offset = itemEnd + 1;
+
+    if (itemStart < end && itemEnd > start) {
+      left = Math.min(left, item.x);
+      right = Math.max(right, item.x + item.width);
+    }
+  }
+
+  return { left, right };
+}
+
+/**
+ * Match a value at the start of text, after separators such as ":"
+ */
+function matchValue(text: string, valuePattern: RegExp): string | null {
+  const match = text.replace(VALUE_SEPARATORS, '').match(valuePattern);
+  if (!match || match.index !== 0) {
+    return null;
+  }
+  return (match[1] ?? match[0]).trim();
+}
+
+/**
+ * Find the value placed next to a label
+ *
+ * @param layout PDF layout
+ * @param label Label of the value, e.g. /fizetendő\s+összeg/i
+ * @param valuePattern Pattern the value must start with, its first group is returned when it has one
+ * @param positions Where to look for the value, in order
+ * @returns Value text, or null when no label has a matching value next to it
+ */
+export function findValueByLabel(
+  layout: PdfLayout,
+  label: RegExp,
+  valuePattern: RegExp,
+  positions: LayoutPosition[] = ['right', 'below']
+): string | null {
+  for (const position of positions) {
+    for (let index = 0; index < layout.lines.length; index++) {
+      const line = layout.lines[index];
+      const match = line.text.match(label);
+      if (!match || match.index === undefined) {
+        continue;
+      }
+
+      const labelEnd = match.index + match[0].length;
+
+      if (position === 'right') {
+        // The value is the first cell to the right, cells further right belong to other labels
+        const cell = line.text.slice(labelEnd).split('\t').find(text => text.replace(VALUE_SEPARATORS, '') !== '');
+        const value = cell ? matchValue(cell, valuePattern) : null;
+        if (value) {
+          return value;
+        }
+        continue;
+      }
+
+      const { left, right } = getExtent(line, match.index, labelEnd);
+      const below = layout.lines
+        .slice(index + 1, index + 1 + MAX_LINES_BELOW)
+        .filter(next => next.page === line.page);
+
+      for (const next of below) {
+        const column = next.items.filter(item => item.x < right && item.x + item.width > left);
+        const value = column.length > 0 ? matchValue(joinItems(column), valuePattern) : null;
+        if (value) {
+          return value;
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,240 @@
+/**
+ * PDF Password Vault
+ *
+ * Keeps the passwords of encrypted PDF attachments, e.g. a customer ID or a
+ * birth date, for a trusted sender's address or for a whole sender domain.
+ * The vault is stored encrypted with AES-GCM under a non-extractable key that
+ * never leaves this browser profile's IndexedDB.
+ *
+ * Attachments no stored password opens are kept as password requests until
+ * the user unlocks or dismisses them in the popup.
+ */
+
+import { PdfPasswordRequest, PdfPasswordScope } from '../../types/Message';
+import { getSenderAddress } from '../extraction/vendorTemplates';
+
+const PDF_PASSWORD_VAULT_KEY = 'pdf_password_vault';
+const PDF_PASSWORD_REQUESTS_KEY = 'pdf_password_requests';
+
+// The vault key lives in IndexedDB, chrome.storage can't hold a CryptoKey
+const KEY_DATABASE = 'pdf-password-vault';
+const KEY_STORE = 'keys';
+const VAULT_KEY_ID = 'vault';
+
+const MAX_PASSWORD_REQUESTS = 50;
+
+/**
+ * Encrypted vault as stored
+ */
+interface StoredVault {
+  iv: string;
+  data: string;
+}
+
+/**
+ * Get the domain of a sender address
+ */
+function getSenderDomain(address: string): string {
+  return address.split('@').pop() || address;
+}
+
+/**
+ * Get the vault entry a password is stored under
+ *
+ * @param from Sender address or From header
+ * @param scope Whether the password applies to the sender only or their whole domain
+ */
+function getEntryKey(from: string, scope: PdfPasswordScope): string {
+  const address = getSenderAddress(from);
+  return scope === 'domain' ? `@${getSenderDomain(address)}` : address;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Wait for an IndexedDB request
+ */
+function whenDone<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open the database holding the vault key
+ */
+function openKeyDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(KEY_DATABASE, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(KEY_STORE);
+  };
+  return whenDone(request);
+}
+
+export class PdfPasswordVault {
+  private entries: Record<string, string[]> | null = null;
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  /**
+   * Get the vault key, generating it on first use
+   */
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        const database = await openKeyDatabase();
+        try {
+          const stored = await whenDone(
+            database.transaction(KEY_STORE).objectStore(KEY_STORE).get(VAULT_KEY_ID)
+          );
+          if (stored) {
+            return stored as CryptoKey;
+          }
+
+          const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+          await whenDone(
+            database.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(key, VAULT_KEY_ID)
+          );
+          return key;
+        } finally {
+          database.close();
+        }
+      })().catch(error => {
+        this.keyPromise = null;
+        throw error;
+      });
+    }
+
+    return this.keyPromise;
+  }
+
+  /**
+   * Load and decrypt the vault once
+   */
+  private async load(): Promise<Record<string, string[]>> {
+    if (!this.entries) {
+      const stored = await chrome.storage.local.get(PDF_PASSWORD_VAULT_KEY);
+      const vault: StoredVault | undefined = stored[PDF_PASSWORD_VAULT_KEY];
+      this.entries = {};
+
+      if (vault) {
+        try {
+          const data = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+            await this.getKey(),
+            fromBase64(vault.data)
+          );
+          this.entries = JSON.parse(new TextDecoder().decode(data));
+        } catch (error) {
+          // The key is gone with the browser profile's site data, the passwords can't be recovered
+          console.error('Could not decrypt the PDF password vault:', error);
+        }
+      }
+    }
+    return this.entries!;
+  }
+
+  /**
+   * Encrypt and store the vault
+   */
+  private async save(entries: Record<string, string[]>): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(JSON.stringify(entries))
+    );
+
+    const vault: StoredVault = { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+    await chrome.storage.local.set({ [PDF_PASSWORD_VAULT_KEY]: vault });
+  }
+
+  /**
+   * Get the passwords to try on a sender's PDFs, the sender's own first
+   *
+   * @param from Sender address or From header
+   * @returns Passwords stored for the sender and their domain
+   */
+  async getPasswords(from: string): Promise<string[]> {
+    const entries = await this.load();
+    const passwords = [
+      ...(entries[getEntryKey(from, 'sender')] || []),
+      ...(entries[getEntryKey(from, 'domain')] || [])
+    ];
+    return Array.from(new Set(passwords));
+  }
+
+  /**
+   * Store a password for a sender or their domain
+   *
+   * @param from Sender address or From header
+   * @param password Password that opened one of their PDFs
+   * @param scope Whether to try it on the sender's PDFs only or on their whole domain's
+   */
+  async addPassword(from: string, password: string, scope: PdfPasswordScope): Promise<void> {
+    const entries = await this.load();
+    const key = getEntryKey(from, scope);
+    const passwords = entries[key] || [];
+
+    if (!passwords.includes(password)) {
+      entries[key] = [password, ...passwords];
+      await this.save(entries);
+    }
+  }
+
+  /**
+   * Get the attachments waiting for a password
+   *
+   * @returns Password requests, newest first
+   */
+  async getRequests(): Promise<PdfPasswordRequest[]> {
+    const stored = await chrome.storage.local.get(PDF_PASSWORD_REQUESTS_KEY);
+    return stored[PDF_PASSWORD_REQUESTS_KEY] || [];
+  }
+
+  /**
+   * Ask the user for the password of an attachment
+   *
+   * @param request Attachment no stored password opened
+   */
+  async addRequest(request: PdfPasswordRequest): Promise<void> {
+    // Gmail hands out a new attachment ID with every fetch of a message, the file name is stable
+    const requests = (await this.getRequests()).filter(
+      existing => existing.messageId !== request.messageId || existing.fileName !== request.fileName
+    );
+    await chrome.storage.local.set({
+      [PDF_PASSWORD_REQUESTS_KEY]: [request, ...requests].slice(0, MAX_PASSWORD_REQUESTS)
+    });
+  }
+
+  /**
+   * Remove the password request of an attachment
+   *
+   * @param messageId Gmail message ID
+   * @param attachmentId Attachment ID
+   * @returns The removed request, if there was one
+   */
+  async removeRequest(messageId: string, attachmentId: string): Promise<PdfPasswordRequest | undefined> {
+    const requests = await this.getRequests();
+    const removed = requests.find(request => request.messageId === messageId && request.attachmentId === attachmentId);
+
+    if (removed) {
+      await chrome.storage.local.set({
+        [PDF_PASSWORD_REQUESTS_KEY]: requests.filter(request => request !== removed)
+      });
+    }
+    return removed;
+  }
+}
+
+export const pdfPasswordVault = new PdfPasswordVault();
@@ -5,9 +5,14 @@
  * Properly integrates PDF.js library
  */
 
+import { LayoutItem, PdfLayout, buildLayout, layoutToText } from './pdfLayout';
+
 // Dynamically load PDF.js if it's not already available
 let pdfjsLibPromise: Promise<any> | null = null;
 
+// Names under which ZUGFeRD, Factur-X and XRechnung PDFs embed their invoice XML
+const EMBEDDED_INVOICE_FILE_NAME = /^(?:factur-x|zugferd-invoice|zugferd_invoice|xrechnung)\.xml$/i;
+
 /**
  * Helper function to detect if we're running in a service worker context
  * @returns boolean indicating if we're in a service worker context
@@ -60,13 +65,16 @@ async function ensurePdfjsLoaded(): Promise<any> {
     // Dynamically import PDF.js - this works in browser contexts
     pdfjsLibPromise = import('pdfjs-dist').then(module => {
       console.log('PDF.js loaded dynamically');
-      const pdfjsLib = module.default;
+      // pdfjs-dist is an ES module without a default export
+      const pdfjsLib = (module as any).default || module;
       
       // Set worker source
       if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
         try {
-          // Use a direct import path that's compatible with webpack
-          pdfjsLib.GlobalWorkerOptions.workerSrc = require.resolve('pdfjs-dist/build/pdf.worker.mjs');
+          // The build copies the worker into the extension, see webpack.config.js
+          pdfjsLib.GlobalWorkerOptions.workerSrc = typeof chrome !== 'undefined' && chrome.runtime?.getURL
+            ? chrome.runtime.getURL('pdf.worker.min.mjs')
+            : require.resolve('pdfjs-dist/build/pdf.worker.mjs');
         } catch (workerError) {
           console.warn('Failed to load PDF.js worker, falling back to single-thread mode:', workerError);
           // Explicitly disable the worker to use inline mode
@@ -84,6 +92,49 @@ async function ensurePdfjsLoaded(): Promise<any> {
   }
 }
 
+/**
+ * Thrown when a PDF is encrypted and none of the given passwords opens it
+ */
+export class PdfPasswordError extends Error {
+  constructor(message: string = 'The PDF is password protected') {
+    super(message);
+    this.name = 'PdfPasswordError';
+  }
+}
+
+/**
+ * Opens a PDF with PDF.js, trying each password if it's encrypted
+ * @param pdfData PDF file data as Uint8Array, PDF.js takes over its buffer
+ * @param passwords Passwords to try, in order
+ * @returns PDF.js document
+ */
+async function openPdfDocument(pdfData: Uint8Array, passwords: string[]): Promise<any> {
+  if (isServiceWorkerContext()) {
+    throw new Error('PDF.js is not available in the service worker');
+  }
+  
+  const pdfjsLib = await ensurePdfjsLoaded();
+  const loadingTask = pdfjsLib.getDocument({ data: pdfData });
+  let attempt = 0;
+  
+  return new Promise((resolve, reject) => {
+    // PDF.js asks again after each wrong password
+    loadingTask.onPassword = (updatePassword: (password: string) => void) => {
+      if (attempt < passwords.length) {
+        updatePassword(passwords[attempt++]);
+        return;
+      }
+      
+      reject(new PdfPasswordError(
+        passwords.length > 0 ? 'None of the stored passwords opens the PDF' : 'The PDF is password protected'
+      ));
+      loadingTask.destroy();
+    };
+    
+    loadingTask.promise.then(resolve, reject);
+  });
+}
+
 /**
  * Extracts text from a PDF file
  * @param pdfData PDF file data as Uint8Array
@@ -97,43 +148,9 @@ export async function extractTextFromPdf(pdfData: Uint8Array): Promise<string> {
       return extractTextFallback(pdfData);
     }
     
-    // Get PDF.js library instance
-    const pdfjsLib = await ensurePdfjsLoaded();
-    
     try {
-      // Load the PDF document
-      const loadingTask = pdfjsLib.getDocument({ data: pdfData });
-      const pdfDocument = await loadingTask.promise;
-      let extractedText = '';
-      
-      // Process each page
-      for (let i = 1; i <= pdfDocument.numPages; i++) {
-        const page = await pdfDocument.getPage(i);
-        const content = await page.getTextContent();
-        
-        // Concatenate the text items with better positioning
-        const items = content.items;
-        let lastY;
-        let text = '';
-        
-        for (const item of items) {
-          if (lastY !== item.transform[5] && text !== '') {
-            extractedText += text + '\n';
-            text = '';
-          }
-          
-          text += item.str + ' ';
-          lastY = item.transform[5];
-        }
-        
-        if (text !== '') {
-          extractedText += text + '\n';
-        }
-          
-        extractedText += '\n'; // Extra line between pages
-      }
-      
-      return extractedText;
+      // Rebuild lines from item positions, so labels stay next to their values
+      return layoutToText(await extractLayoutFromPdf(pdfData));
     } catch (error) {
       console.error('Error processing PDF with PDF.js:', error);
       
@@ -146,6 +163,146 @@ export async function extractTextFromPdf(pdfData: Uint8Array): Promise<string> {
   }
 }
 
+/**
+ * Text layout and embedded invoice XML of a PDF
+ */
+export interface PdfContent {
+  layout: PdfLayout;
+  embeddedXml: string | null; // Invoice XML of ZUGFeRD, Factur-X and XRechnung PDFs
+}
+
+/**
+ * Reads the positioned text of every page of an open PDF
+ */
+async function readLayout(pdfDocument: any): Promise<PdfLayout> {
+  const items: LayoutItem[] = [];
+  
+  for (let i = 1; i <= pdfDocument.numPages; i++) {
+    const page = await pdfDocument.getPage(i);
+    const { height: pageHeight } = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    
+    for (const item of content.items) {
+      // Marked content items carry no text
+      if (typeof item.str !== 'string') {
+        continue;
+      }
+      
+      items.push({
+        text: item.str,
+        x: item.transform[4],
+        // PDF coordinates start at the bottom of the page
+        y: pageHeight - item.transform[5],
+        width: item.width,
+        height: item.height || Math.abs(item.transform[3]),
+        page: i
+      });
+    }
+  }
+  
+  return buildLayout(items);
+}
+
+/**
+ * Reads the invoice XML an open PDF embeds, if any
+ */
+async function readEmbeddedInvoiceXml(pdfDocument: any): Promise<string | null> {
+  const attachments: Record<string, { filename: string; content: Uint8Array }> | null = await pdfDocument.getAttachments();
+  const invoiceFile = Object.values(attachments || {}).find(file => EMBEDDED_INVOICE_FILE_NAME.test(file.filename));
+  
+  return invoiceFile ? new TextDecoder('utf-8').decode(invoiceFile.content) : null;
+}
+
+/**
+ * Extracts the positioned text of a PDF with PDF.js
+ * @param pdfData PDF file data as Uint8Array, PDF.js takes over its buffer
+ * @param passwords Passwords to try if the PDF is encrypted
+ * @returns Layout of the text items on every page
+ */
+export async function extractLayoutFromPdf(pdfData: Uint8Array, passwords: string[] = []): Promise<PdfLayout> {
+  return readLayout(await openPdfDocument(pdfData, passwords));
+}
+
+/**
+ * Extracts the positioned text of a PDF and the invoice XML it may embed,
+ * parsing the PDF once
+ * @param pdfData PDF file data as Uint8Array, PDF.js takes over its buffer
+ * @param passwords Passwords to try if the PDF is encrypted
+ * @returns Layout of the text items, without lines for scans, and the embedded invoice XML
+ */
+export async function extractPdfContent(pdfData: Uint8Array, passwords: string[] = []): Promise<PdfContent> {
+  const pdfDocument = await openPdfDocument(pdfData, passwords);
+  return {
+    layout: await readLayout(pdfDocument),
+    embeddedXml: await readEmbeddedInvoiceXml(pdfDocument)
+  };
+}
+
+/**
+ * Extracts the positioned text and embedded invoice XML of base64-encoded PDF data
+ * @param base64Data Base64-encoded PDF data
+ * @param passwords Passwords to try if the PDF is encrypted
+ * @returns Layout and invoice XML, or null when PDF.js can't parse the data
+ * @throws PdfPasswordError when none of the passwords opens the PDF
+ */
+export async function extractPdfContentFromBase64(base64Data: string, passwords: string[] = []): Promise<PdfContent | null> {
+  try {
+    return await extractPdfContent(decodeBase64Data(base64Data), passwords);
+  } catch (error) {
+    if (error instanceof PdfPasswordError) {
+      throw error;
+    }
+    console.error('Error extracting PDF content:', error);
+    return null;
+  }
+}
+
+/**
+ * Renders the first pages of a PDF to canvases, e.g. for OCR of scans
+ * @param pdfData PDF file data as Uint8Array, PDF.js takes over its buffer
+ * @param maxPages Number of pages to render at most
+ * @param scale Render scale, 1 is 72 DPI
+ * @param passwords Passwords to try if the PDF is encrypted
+ * @returns One canvas per page
+ */
+export async function renderPdfPages(
+  pdfData: Uint8Array,
+  maxPages: number,
+  scale: number,
+  passwords: string[] = []
+): Promise<HTMLCanvasElement[]> {
+  const pdfDocument = await openPdfDocument(pdfData, passwords);
+  const canvases: HTMLCanvasElement[] = [];
+  
+  for (let i = 1; i <= Math.min(pdfDocument.numPages, maxPages); i++) {
+    const page = await pdfDocument.getPage(i);
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+    canvases.push(canvas);
+  }
+  
+  return canvases;
+}
+
+/**
+ * Decodes base64 or base64url attachment data
+ * @param base64Data Base64-encoded data, e.g. from the Gmail API
+ * @returns Decoded data
+ */
+export function decodeBase64Data(base64Data: string): Uint8Array {
+  let fixedBase64 = base64Data.replace(/-/g, '+').replace(/_/g, '/');
+  const padding = fixedBase64.length % 4;
+  if (padding) {
+    fixedBase64 += '='.repeat(4 - padding);
+  }
+  
+  return base64ToUint8Array(fixedBase64);
+}
+
 /**
  * Fallback method for extracting text without PDF.js
  * Works in both browser and service worker contexts
@@ -255,6 +412,20 @@ function extractBillInfoFromRawText(text: string): string {
   return extractedInfo.length > 0 ? extractedInfo.join('\n') : '';
 }
 
+/**
+ * Extracts text from base64-encoded PDF data without PDF.js, for PDFs it couldn't parse
+ * @param base64Data Base64-encoded PDF data
+ * @returns Extracted text content
+ */
+export function extractBasicTextFromBase64Pdf(base64Data: string): string {
+  try {
+    return extractTextFallback(decodeBase64Data(base64Data));
+  } catch (error) {
+    console.error('Error decoding PDF data:', error);
+    return emergencyBase64TextExtraction(base64Data);
+  }
+}
+
 /**
  * Extracts text content from base64-encoded PDF data
  * @param base64Data Base64-encoded PDF data
@@ -517,12 +688,15 @@ function base64Decode(base64: string): string {
     let output = '';
     let i = 0;
     
+    // Padding decodes like a missing character, so the last bytes aren't dropped
+    const decodeChar = (char: string) => (char === '=' ? 64 : chars.indexOf(char));
+    
     while (i < cleanedInput.length) {
       // Get 4 characters at a time (or less if we reach the end)
-      const enc1 = chars.indexOf(cleanedInput.charAt(i++));
-      const enc2 = i < cleanedInput.length ? chars.indexOf(cleanedInput.charAt(i++)) : 64; // padding
-      const enc3 = i < cleanedInput.length ? chars.indexOf(cleanedInput.charAt(i++)) : 64; // padding
-      const enc4 = i < cleanedInput.length ? chars.indexOf(cleanedInput.charAt(i++)) : 64; // padding
+      const enc1 = decodeChar(cleanedInput.charAt(i++));
+      const enc2 = i < cleanedInput.length ? decodeChar(cleanedInput.charAt(i++)) : 64; // padding
+      const enc3 = i < cleanedInput.length ? decodeChar(cleanedInput.charAt(i++)) : 64; // padding
+      const enc4 = i < cleanedInput.length ? decodeChar(cleanedInput.charAt(i++)) : 64; // padding
       
       // Skip invalid characters (should never happen with our clean input)
       if (enc1 === -1 || enc2 === -1 || enc3 === -1 || enc4 === -1) {
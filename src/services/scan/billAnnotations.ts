@@ -0,0 +1,164 @@
+/**
+ * Bill Annotations
+ *
+ * Summarizes the bills extracted from Gmail messages so the content script can
+ * annotate inbox rows, and tracks which bills have been exported to Sheets
+ */
+
+import { BillData } from '../../types/Message';
+import { BillFieldConflict } from '../../types/Bill';
+import { getProcessedItems } from '../supabase/client';
+
+// Storage key for message IDs whose bills were exported to Sheets
+const EXPORTED_STORAGE_KEY = 'exported_message_ids';
+
+// Storage key for the bill the popup should show when it opens
+const PENDING_DETAIL_STORAGE_KEY = 'pending_bill_detail';
+
+// Maximum number of exported message IDs kept locally
+const MAX_EXPORTED_IDS = 5000;
+
+// A pending detail request older than this is ignored by the popup
+const PENDING_DETAIL_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Summary of the bills extracted from one message
+ */
+export interface BillAnnotation {
+  messageId: string;
+  vendor?: string;
+  amount?: number;
+  currency?: string;
+  dueDate?: string;
+  billCount: number;
+  exported: boolean;
+  paid: boolean;
+  /** Fields the extraction strategies disagreed on, for the user to review */
+  conflicts?: BillFieldConflict[];
+}
+
+/**
+ * Builds an annotation from the bills of a message
+ */
+function toAnnotation(messageId: string, bills: BillData[], exported: boolean, paid: boolean): BillAnnotation {
+  const [first] = bills;
+  const dueDate = first?.dueDate instanceof Date ? first.dueDate.toISOString() : first?.dueDate;
+
+  return {
+    messageId,
+    vendor: first?.vendor,
+    amount: first?.amount,
+    currency: first?.currency,
+    dueDate,
+    billCount: bills.length,
+    exported,
+    paid,
+    conflicts: first?.conflicts
+  };
+}
+
+/**
+ * Reads the exported message IDs
+ */
+async function getExportedIds(): Promise<Set<string>> {
+  const data = await chrome.storage.local.get(EXPORTED_STORAGE_KEY);
+  return new Set(data?.[EXPORTED_STORAGE_KEY] || []);
+}
+
+/**
+ * Gets annotations for the messages that have extracted bills
+ *
+ * Bills cached by the last scan are used first, processed_items fills in the rest.
+ *
+ * @param userId Supabase user ID, or null to use only the local cache
+ * @param messageIds Gmail message IDs shown in the inbox
+ * @returns Annotations keyed by message ID, messages without bills are left out
+ */
+export async function getBillAnnotations(
+  userId: string | null,
+  messageIds: string[]
+): Promise<Record<string, BillAnnotation>> {
+  const annotations: Record<string, BillAnnotation> = {};
+
+  if (messageIds.length === 0) {
+    return annotations;
+  }
+
+  try {
+    const exported = await getExportedIds();
+    const { extractedBills } = await chrome.storage.local.get('extractedBills');
+    const cachedBills: BillData[] = extractedBills || [];
+
+    // Items are newest first, keep the latest record per message
+    const records = new Map<string, any>();
+    for (const item of userId ? await getProcessedItems(userId, messageIds) : []) {
+      if (!records.has(item.message_id)) {
+        records.set(item.message_id, item.extracted_data);
+      }
+    }
+
+    for (const messageId of messageIds) {
+      const record = records.get(messageId);
+      const cached = cachedBills.filter(bill => bill.emailId === messageId);
+      const bills: BillData[] = cached.length > 0 ? cached : record?.bills || [];
+
+      if (bills.length > 0) {
+        annotations[messageId] = toAnnotation(messageId, bills, exported.has(messageId), Boolean(record?.paid));
+      }
+    }
+  } catch (error) {
+    console.error('Error building bill annotations:', error);
+  }
+
+  return annotations;
+}
+
+/**
+ * Records that the bills of some messages were exported to Sheets
+ *
+ * @param bills Exported bills
+ */
+export async function markBillsExported(bills: BillData[]): Promise<void> {
+  const messageIds = bills.map(bill => bill.emailId).filter((id): id is string => Boolean(id));
+
+  if (messageIds.length === 0) {
+    return;
+  }
+
+  try {
+    const existing = Array.from(await getExportedIds()).filter(id => !messageIds.includes(id));
+    await chrome.storage.local.set({
+      [EXPORTED_STORAGE_KEY]: existing.concat(messageIds).slice(-MAX_EXPORTED_IDS)
+    });
+  } catch (error) {
+    console.error('Error recording exported bills:', error);
+  }
+}
+
+/**
+ * Asks the popup to show a bill's details the next time it opens
+ *
+ * @param annotation Bill to show
+ */
+export async function setPendingBillDetail(annotation: BillAnnotation): Promise<void> {
+  await chrome.storage.local.set({
+    [PENDING_DETAIL_STORAGE_KEY]: { annotation, requestedAt: Date.now() }
+  });
+}
+
+/**
+ * Takes the bill the popup was asked to show, clearing the request
+ *
+ * @returns Bill to show, or null when there is no recent request
+ */
+export async function takePendingBillDetail(): Promise<BillAnnotation | null> {
+  const data = await chrome.storage.local.get(PENDING_DETAIL_STORAGE_KEY);
+  const pending = data?.[PENDING_DETAIL_STORAGE_KEY];
+
+  if (!pending) {
+    return null;
+  }
+
+  await chrome.storage.local.remove(PENDING_DETAIL_STORAGE_KEY);
+  return Date.now() - pending.requestedAt < PENDING_DETAIL_MAX_AGE_MS ? pending.annotation : null;
+}
@@ -0,0 +1,140 @@
+/**
+ * Processed Messages Ledger
+ *
+ * Tracks which Gmail messages have already been scanned so repeated scans skip them.
+ * Uses a local cache in chrome.storage.local backed by the processed_items table.
+ */
+
+import { getProcessedMessageIds, recordProcessedItems } from '../supabase/client';
+import { isPaymentConfirmation } from '../gmail/gmailLabels';
+import { BillData } from '../../types/Message';
+
+// Storage key for the local ledger cache
+const LEDGER_STORAGE_KEY = 'processed_message_ids';
+
+// Maximum number of message IDs cached locally per user
+const MAX_CACHED_IDS = 5000;
+
+/**
+ * Per-message processing outcome stored in the ledger
+ */
+export interface ProcessedMessageRecord {
+  message_id: string;
+  source_email: string;
+  status: 'success' | 'no_bills' | 'error';
+  extracted_data?: any;
+  error_message?: string | null;
+}
+
+/**
+ * Result of filtering message IDs against the ledger
+ */
+export interface LedgerFilterResult {
+  unprocessed: string[];
+  skipped: string[];
+}
+
+/**
+ * Reads the locally cached processed message IDs for a user
+ */
+async function getCachedIds(userId: string): Promise<string[]> {
+  const data = await chrome.storage.local.get(LEDGER_STORAGE_KEY);
+  return data?.[LEDGER_STORAGE_KEY]?.[userId] || [];
+}
+
+/**
+ * Adds message IDs to the local cache, keeping only the most recent entries
+ */
+async function addCachedIds(userId: string, messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) {
+    return;
+  }
+
+  const data = await chrome.storage.local.get(LEDGER_STORAGE_KEY);
+  const ledger = data?.[LEDGER_STORAGE_KEY] || {};
+  const existing: string[] = ledger[userId] || [];
+  const merged = existing.filter(id => !messageIds.includes(id)).concat(messageIds);
+
+  ledger[userId] = merged.slice(-MAX_CACHED_IDS);
+  await chrome.storage.local.set({ [LEDGER_STORAGE_KEY]: ledger });
+}
+
+/**
+ * Splits message IDs into those that still need processing and those already processed
+ *
+ * @param userId User ID the ledger belongs to
+ * @param messageIds Candidate Gmail message IDs
+ * @returns Unprocessed and skipped message IDs, in their original order
+ * @throws Error when the processed_items lookup fails
+ */
+export async function filterUnprocessedMessages(userId: string, messageIds: string[]): Promise<LedgerFilterResult> {
+  const cached = new Set(await getCachedIds(userId));
+  const uncached = messageIds.filter(id => !cached.has(id));
+
+  // Only ask Supabase about IDs the local cache doesn't know
+  const remote = new Set(await getProcessedMessageIds(userId, uncached));
+  if (remote.size > 0) {
+    await addCachedIds(userId, Array.from(remote));
+  }
+
+  const known = (id: string) => cached.has(id) || remote.has(id);
+
+  return {
+    unprocessed: messageIds.filter(id => !known(id)),
+    skipped: messageIds.filter(known)
+  };
+}
+
+/**
+ * Records processing outcomes in the ledger
+ *
+ * Only messages with bills are stored in Supabase, every processed_items row
+ * counts against the user's bill quota. Messages without bills are only cached
+ * locally, and messages that failed aren't recorded at all so the next scan
+ * retries them.
+ *
+ * @param userId User ID the ledger belongs to
+ * @param records Per-message outcomes
+ */
+export async function recordProcessedMessages(userId: string, records: ProcessedMessageRecord[]): Promise<void> {
+  try {
+    await addCachedIds(
+      userId,
+      records.filter(record => record.status !== 'error').map(record => record.message_id)
+    );
+    await recordProcessedItems(userId, records.filter(record => record.status === 'success'));
+  } catch (error) {
+    console.error('Error recording processed messages:', error);
+  }
+}
+
+/**
+ * Records the messages of exported bills that the ledger doesn't know yet
+ *
+ * Bills extracted from a message open in Gmail aren't recorded until they are
+ * exported, scanned messages are already in the ledger.
+ *
+ * @param userId User ID the ledger belongs to
+ * @param bills Exported bills
+ */
+export async function recordExportedMessages(userId: string, bills: BillData[]): Promise<void> {
+  const messageIds = Array.from(new Set(
+    bills.map(bill => bill.emailId).filter((id): id is string => Boolean(id))
+  ));
+
+  try {
+    const { unprocessed } = await filterUnprocessedMessages(userId, messageIds);
+
+    await recordProcessedMessages(userId, unprocessed.map(messageId => {
+      const messageBills = bills.filter(bill => bill.emailId === messageId);
+      return {
+        message_id: messageId,
+        source_email: messageBills[0].sourceEmail || '',
+        status: 'success',
+        extracted_data: { bills: messageBills, paid: isPaymentConfirmation(messageBills[0].subject) }
+      };
+    }));
+  } catch (error) {
+    console.error('Error recording exported messages:', error);
+  }
+}
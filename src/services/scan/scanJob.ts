@@ -0,0 +1,228 @@
+/**
+ * Scan Job Store
+ *
+ * Persists email scans as jobs in chrome.storage.local so a scan interrupted by
+ * service worker termination can be resumed by the next worker instance
+ */
+
+import { BillData } from '../../types/Message';
+
+// Storage key for the most recent scan job
+const SCAN_JOB_STORAGE_KEY = 'scan_job';
+
+// Storage key for the per-message progress of the running job
+const SCAN_JOB_PROGRESS_STORAGE_KEY = 'scan_job_progress';
+
+// Messages processed between full saves of a running job
+export const SCAN_JOB_SAVE_INTERVAL = 25;
+
+// Resumes in a row that may stop at the same message before the job is failed
+export const MAX_STALLED_RESUMES = 3;
+
+export type ScanJobStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Persisted state of a scan
+ */
+export interface ScanJob {
+  id: string;
+  userId: string | null;
+  status: ScanJobStatus;
+  /** Message IDs to process, in order */
+  queue: string[];
+  /** Index of the next message in the queue to process */
+  cursor: number;
+  bills: BillData[];
+  errors: Array<{ messageId: string; error: string }>;
+  processedResults: Record<string, any>;
+  stats: {
+    totalProcessed: number;
+    billsFound: number;
+    errors: number;
+  };
+  /** Settings snapshot taken when the scan started */
+  settings: Record<string, any>;
+  trustedSources: Array<{ email_address: string; id?: string; description?: string }>;
+  scanMode: 'full' | 'incremental';
+  nextHistoryId: string | null;
+  skipped: number;
+  /** Number of messages matching the search, before dedup and the maxResults limit */
+  matched: number;
+  /** True when more messages matched than this job processes */
+  limitReached: boolean;
+  /** Number of times the job was resumed after the worker was terminated */
+  resumeCount: number;
+  /** Furthest cursor the job had reached when it was last resumed */
+  resumeCursor?: number;
+  /** Resumes in a row that found the job stopped at the same message */
+  stalledResumes?: number;
+  /** Gmail API quota units used by the scan so far */
+  quotaUnitsUsed: number;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+  /** Message IDs left unprocessed when the job was cancelled */
+  unprocessed?: string[];
+}
+
+/**
+ * Progress of a running job, saved after every message without the collected results
+ */
+interface ScanJobProgress {
+  id: string;
+  cursor: number;
+  stats: ScanJob['stats'];
+  quotaUnitsUsed: number;
+  updatedAt: string;
+}
+
+/**
+ * Summary of a scan job for the popup, without the collected bills and results
+ */
+export interface ScanJobSummary {
+  id: string;
+  status: ScanJobStatus;
+  total: number;
+  matched: number;
+  limitReached: boolean;
+  processed: number;
+  billsFound: number;
+  errors: number;
+  resumeCount: number;
+  quotaUnitsUsed: number;
+  unprocessed: number;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+/**
+ * Creates a new running scan job
+ *
+ * @param init Initial job values
+ * @returns New scan job (not yet persisted)
+ */
+export function createScanJob(init: {
+  userId: string | null;
+  queue: string[];
+  settings: Record<string, any>;
+  trustedSources: ScanJob['trustedSources'];
+  scanMode: ScanJob['scanMode'];
+  nextHistoryId: string | null;
+  skipped: number;
+  matched: number;
+  limitReached: boolean;
+  quotaUnitsUsed: number;
+}): ScanJob {
+  const now = new Date().toISOString();
+
+  return {
+    id: `scan-${Date.now()}`,
+    status: 'running',
+    cursor: 0,
+    bills: [],
+    errors: [],
+    processedResults: {},
+    stats: {
+      totalProcessed: init.queue.length,
+      billsFound: 0,
+      errors: 0
+    },
+    resumeCount: 0,
+    startedAt: now,
+    updatedAt: now,
+    ...init
+  };
+}
+
+/**
+ * Gets the most recent scan job as of its last full save. Its cursor matches
+ * the stored bills, so a resumed job re-processes any message after it
+ *
+ * @returns Stored scan job or null
+ */
+export async function getScanJob(): Promise<ScanJob | null> {
+  const data = await chrome.storage.local.get(SCAN_JOB_STORAGE_KEY);
+  return data?.[SCAN_JOB_STORAGE_KEY] || null;
+}
+
+/**
+ * Gets the most recent scan job with the progress saved since its last full
+ * save, for display only
+ *
+ * @returns Stored scan job or null
+ */
+export async function getScanJobWithProgress(): Promise<ScanJob | null> {
+  const data = await chrome.storage.local.get([SCAN_JOB_STORAGE_KEY, SCAN_JOB_PROGRESS_STORAGE_KEY]);
+  const job: ScanJob | undefined = data?.[SCAN_JOB_STORAGE_KEY];
+  const progress: ScanJobProgress | undefined = data?.[SCAN_JOB_PROGRESS_STORAGE_KEY];
+
+  if (!job) {
+    return null;
+  }
+
+  if (!progress || progress.id !== job.id || progress.cursor <= job.cursor) {
+    return job;
+  }
+
+  return { ...job, ...progress };
+}
+
+/**
+ * Persists a whole scan job, updating its timestamp
+ *
+ * @param job Scan job to store
+ */
+export async function saveScanJob(job: ScanJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await chrome.storage.local.set({ [SCAN_JOB_STORAGE_KEY]: job });
+  await chrome.storage.local.remove(SCAN_JOB_PROGRESS_STORAGE_KEY);
+}
+
+/**
+ * Persists only the cursor and counters of a running job, leaving its queue
+ * and collected results at their last full save
+ *
+ * @param job Scan job whose progress to store
+ */
+export async function saveScanJobProgress(job: ScanJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+
+  const progress: ScanJobProgress = {
+    id: job.id,
+    cursor: job.cursor,
+    stats: job.stats,
+    quotaUnitsUsed: job.quotaUnitsUsed,
+    updatedAt: job.updatedAt
+  };
+
+  await chrome.storage.local.set({ [SCAN_JOB_PROGRESS_STORAGE_KEY]: progress });
+}
+
+/**
+ * Builds the popup-facing summary of a job
+ *
+ * @param job Scan job
+ * @returns Job summary
+ */
+export function summarizeScanJob(job: ScanJob): ScanJobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    total: job.queue.length,
+    matched: job.matched,
+    limitReached: job.limitReached,
+    processed: job.cursor,
+    billsFound: job.stats.billsFound,
+    errors: job.stats.errors,
+    resumeCount: job.resumeCount,
+    quotaUnitsUsed: job.quotaUnitsUsed,
+    unprocessed: job.unprocessed?.length || 0,
+    startedAt: job.startedAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+    error: job.error
+  };
+}
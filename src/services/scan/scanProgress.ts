@@ -0,0 +1,102 @@
+/**
+ * Scan Progress
+ *
+ * Streams structured scan progress from the background worker to the popup
+ * over long-lived chrome.runtime ports
+ */
+
+// Port name the popup connects with to receive progress events
+export const SCAN_PROGRESS_PORT = 'scan-progress';
+
+export type ScanProgressKind =
+  | 'attached'
+  | 'messages_found'
+  | 'resumed'
+  | 'message_started'
+  | 'attachment_started'
+  | 'bill_found'
+  | 'message_error'
+  | 'paused'
+  | 'cancelled'
+  | 'completed'
+  | 'failed';
+
+/**
+ * Current state of a scan as seen by the popup
+ */
+export interface ScanProgressSnapshot {
+  jobId: string;
+  status: 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+  /** Number of messages queued for processing */
+  total: number;
+  /** 1-based index of the message being processed */
+  current: number;
+  billsFound: number;
+  errors: number;
+  /** File name of the attachment currently being parsed */
+  currentAttachment: string | null;
+}
+
+/**
+ * Progress event posted on the port
+ */
+export interface ScanProgressEvent {
+  kind: ScanProgressKind;
+  snapshot: ScanProgressSnapshot;
+  messageId?: string;
+  fileName?: string;
+  error?: string;
+}
+
+/**
+ * Keeps track of connected progress ports and the latest snapshot
+ */
+export class ScanProgressHub {
+  private ports = new Set<chrome.runtime.Port>();
+  private latest: ScanProgressSnapshot | null = null;
+
+  /**
+   * Registers a popup port and sends it the current state so it can reattach
+   *
+   * @param port Connected port
+   * @param fallback Snapshot to send when no scan has published in this worker yet
+   */
+  attach(port: chrome.runtime.Port, fallback: ScanProgressSnapshot | null = null): void {
+    this.ports.add(port);
+    port.onDisconnect.addListener(() => {
+      this.ports.delete(port);
+    });
+
+    const snapshot = this.latest || fallback;
+    if (snapshot) {
+      this.post(port, { kind: 'attached', snapshot });
+    }
+  }
+
+  /**
+   * Publishes a progress event to every connected port
+   *
+   * @param event Progress event
+   */
+  publish(event: ScanProgressEvent): void {
+    this.latest = event.snapshot;
+
+    for (const port of this.ports) {
+      this.post(port, event);
+    }
+  }
+
+  private post(port: chrome.runtime.Port, event: ScanProgressEvent): void {
+    try {
+      port.postMessage(event);
+    } catch (error) {
+      // The popup closed between the disconnect and this post
+      this.ports.delete(port);
+    }
+  }
+}
+
+/**
+ * Create and export the shared progress hub
+ */
+export const scanProgressHub = new ScanProgressHub();
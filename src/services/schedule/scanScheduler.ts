@@ -0,0 +1,209 @@
+/**
+ * Scan Scheduler
+ *
+ * Turns the schedule preferences stored in user_preferences into chrome.alarms
+ * and keeps track of when scheduled scans last ran so missed runs can be caught up
+ */
+
+import { resolveUserIdentity } from '../identity/userIdentityService';
+import { getUserSettings } from '../supabase/client';
+
+// Alarm name used for scheduled scans
+export const SCHEDULED_SCAN_ALARM = 'scheduledScan';
+
+// Storage key for the scheduler state in chrome.storage.local
+const SCHEDULE_STATE_KEY = 'scan_schedule_state';
+
+const DAYS_OF_WEEK = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Schedule settings as stored in user_preferences
+ */
+export interface ScanSchedule {
+  enabled: boolean;
+  frequency: ScheduleFrequency;
+  dayOfWeek: string;
+  dayOfMonth: string;
+  time: string;
+}
+
+/**
+ * Scheduler bookkeeping persisted between service worker restarts
+ */
+export interface ScanScheduleState {
+  lastRunAt: number | null;
+  nextRunAt: number | null;
+}
+
+/**
+ * Builds a schedule from a user_preferences / user_settings_view row
+ *
+ * @param preferences Raw preferences row
+ * @returns Normalized schedule
+ */
+export function scheduleFromPreferences(preferences: any): ScanSchedule {
+  const frequency = ['daily', 'weekly', 'monthly'].includes(preferences?.schedule_frequency)
+    ? preferences.schedule_frequency as ScheduleFrequency
+    : 'weekly';
+
+  return {
+    enabled: Boolean(preferences?.schedule_enabled),
+    frequency,
+    dayOfWeek: (preferences?.schedule_day_of_week || 'monday').toLowerCase(),
+    dayOfMonth: String(preferences?.schedule_day_of_month || '1'),
+    time: preferences?.schedule_time || '09:00'
+  };
+}
+
+/**
+ * Parses an HH:MM time string, accepting the HH:MM:SS form Postgres returns
+ */
+function parseScheduleTime(time: string): { hours: number; minutes: number } {
+  const match = time.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) {
+    return { hours: 9, minutes: 0 };
+  }
+
+  return {
+    hours: Math.min(parseInt(match[1], 10), 23),
+    minutes: Math.min(parseInt(match[2], 10), 59)
+  };
+}
+
+/**
+ * Returns the run time on the given month, clamping the day to the month length
+ */
+function monthlyRunDate(year: number, month: number, dayOfMonth: number, hours: number, minutes: number): Date {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dayOfMonth, daysInMonth), hours, minutes, 0, 0);
+}
+
+/**
+ * Computes the next scheduled run strictly after the given time
+ *
+ * @param schedule Schedule settings
+ * @param from Reference time (defaults to now)
+ * @returns Timestamp of the next run, or null if scheduling is disabled
+ */
+export function computeNextRunTime(schedule: ScanSchedule, from: Date = new Date()): number | null {
+  if (!schedule.enabled) {
+    return null;
+  }
+
+  const { hours, minutes } = parseScheduleTime(schedule.time);
+  const candidate = new Date(from.getFullYear(), from.getMonth(), from.getDate(), hours, minutes, 0, 0);
+
+  switch (schedule.frequency) {
+    case 'daily':
+      if (candidate.getTime() <= from.getTime()) {
+        candidate.setDate(candidate.getDate() + 1);
+      }
+      return candidate.getTime();
+
+    case 'weekly': {
+      const targetDay = Math.max(DAYS_OF_WEEK.indexOf(schedule.dayOfWeek), 0);
+      let offset = (targetDay - candidate.getDay() + 7) % 7;
+      if (offset === 0 && candidate.getTime() <= from.getTime()) {
+        offset = 7;
+      }
+      candidate.setDate(candidate.getDate() + offset);
+      return candidate.getTime();
+    }
+
+    case 'monthly': {
+      const dayOfMonth = Math.min(Math.max(parseInt(schedule.dayOfMonth, 10) || 1, 1), 31);
+      let runDate = monthlyRunDate(from.getFullYear(), from.getMonth(), dayOfMonth, hours, minutes);
+      if (runDate.getTime() <= from.getTime()) {
+        runDate = monthlyRunDate(from.getFullYear(), from.getMonth() + 1, dayOfMonth, hours, minutes);
+      }
+      return runDate.getTime();
+    }
+  }
+}
+
+/**
+ * Loads the schedule for the current user from Supabase
+ *
+ * @returns Schedule settings, or null if no user could be resolved
+ */
+export async function loadScanSchedule(): Promise<ScanSchedule | null> {
+  try {
+    const identity = await resolveUserIdentity();
+    if (!identity.supabaseId) {
+      console.warn('Scan scheduler: No Supabase user ID, cannot load schedule');
+      return null;
+    }
+
+    const preferences = await getUserSettings(identity.supabaseId);
+    if (!preferences) {
+      return null;
+    }
+
+    return scheduleFromPreferences(preferences);
+  } catch (error) {
+    console.error('Scan scheduler: Error loading schedule settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Reads the persisted scheduler state
+ */
+export async function getScheduleState(): Promise<ScanScheduleState> {
+  const data = await chrome.storage.local.get(SCHEDULE_STATE_KEY);
+  return {
+    lastRunAt: data?.[SCHEDULE_STATE_KEY]?.lastRunAt ?? null,
+    nextRunAt: data?.[SCHEDULE_STATE_KEY]?.nextRunAt ?? null
+  };
+}
+
+/**
+ * Persists the scheduler state
+ */
+async function setScheduleState(state: ScanScheduleState): Promise<void> {
+  await chrome.storage.local.set({ [SCHEDULE_STATE_KEY]: state });
+}
+
+/**
+ * Checks whether a scheduled run was due while the browser was closed
+ *
+ * @param state Persisted scheduler state
+ * @param now Current time
+ * @returns True if the stored next run is in the past
+ */
+export function hasMissedRun(state: ScanScheduleState, now: number = Date.now()): boolean {
+  return state.nextRunAt !== null && state.nextRunAt <= now;
+}
+
+/**
+ * Creates or clears the scheduled scan alarm to match the schedule
+ *
+ * @param schedule Schedule settings (null clears the alarm)
+ * @returns Timestamp of the next run, or null if nothing is scheduled
+ */
+export async function syncScheduledScanAlarm(schedule: ScanSchedule | null): Promise<number | null> {
+  const state = await getScheduleState();
+  const nextRunAt = schedule ? computeNextRunTime(schedule) : null;
+
+  await chrome.alarms.clear(SCHEDULED_SCAN_ALARM);
+
+  if (nextRunAt === null) {
+    console.log('Scan scheduler: Scheduled scanning disabled, alarm cleared');
+  } else {
+    chrome.alarms.create(SCHEDULED_SCAN_ALARM, { when: nextRunAt });
+    console.log(`Scan scheduler: Next scheduled scan at ${new Date(nextRunAt).toISOString()}`);
+  }
+
+  await setScheduleState({ ...state, nextRunAt });
+  return nextRunAt;
+}
+
+/**
+ * Records a completed scheduled run
+ */
+export async function markScheduledRunCompleted(): Promise<void> {
+  const state = await getScheduleState();
+  await setScheduleState({ ...state, lastRunAt: Date.now() });
+}
@@ -15,6 +15,8 @@ export interface UserSettingsView {
   // Schedule options
   schedule_enabled: boolean;
   schedule_frequency: string;
+  schedule_day_of_week: string;
+  schedule_day_of_month: string;
   schedule_time: string;
   initial_scan_date: string | null;
   // Search parameters
@@ -46,6 +48,8 @@ export const DEFAULT_USER_PREFERENCES = {
   // Schedule options
   schedule_enabled: false,
   schedule_frequency: 'weekly',
+  schedule_day_of_week: 'monday',
+  schedule_day_of_month: '1',
   schedule_time: '09:00',
   initial_scan_date: null, // No default scan date
   // Search parameters
@@ -96,6 +100,8 @@ export const ensureUserSettingsView = async (): Promise<boolean> => {
         p.capture_important_notices,
         p.schedule_enabled,
         p.schedule_frequency,
+        p.schedule_day_of_week,
+        p.schedule_day_of_month,
         p.schedule_time,
         p.initial_scan_date,
         p.search_days,
@@ -238,6 +244,8 @@ export const getFallbackUserSettings = async (userId: string): Promise<UserSetti
       // Schedule options
       schedule_enabled: prefsData?.schedule_enabled ?? DEFAULT_USER_PREFERENCES.schedule_enabled,
       schedule_frequency: prefsData?.schedule_frequency ?? DEFAULT_USER_PREFERENCES.schedule_frequency,
+      schedule_day_of_week: prefsData?.schedule_day_of_week ?? DEFAULT_USER_PREFERENCES.schedule_day_of_week,
+      schedule_day_of_month: prefsData?.schedule_day_of_month ?? DEFAULT_USER_PREFERENCES.schedule_day_of_month,
       schedule_time: prefsData?.schedule_time ?? DEFAULT_USER_PREFERENCES.schedule_time,
       initial_scan_date: prefsData?.initial_scan_date ?? DEFAULT_USER_PREFERENCES.initial_scan_date,
       // Search parameters
@@ -473,6 +481,8 @@ export const getUserSettingsWithDefaults = async (userId: string): Promise<UserS
       // Schedule options
       schedule_enabled: DEFAULT_USER_PREFERENCES.schedule_enabled,
       schedule_frequency: DEFAULT_USER_PREFERENCES.schedule_frequency,
+      schedule_day_of_week: DEFAULT_USER_PREFERENCES.schedule_day_of_week,
+      schedule_day_of_month: DEFAULT_USER_PREFERENCES.schedule_day_of_month,
       schedule_time: DEFAULT_USER_PREFERENCES.schedule_time,
       initial_scan_date: DEFAULT_USER_PREFERENCES.initial_scan_date,
       // Search parameters
@@ -531,6 +541,8 @@ export const createDefaultSettings = (userId: string): UserSettingsView => {
     // Schedule options
     schedule_enabled: DEFAULT_USER_PREFERENCES.schedule_enabled,
     schedule_frequency: DEFAULT_USER_PREFERENCES.schedule_frequency,
+    schedule_day_of_week: DEFAULT_USER_PREFERENCES.schedule_day_of_week,
+    schedule_day_of_month: DEFAULT_USER_PREFERENCES.schedule_day_of_month,
     schedule_time: DEFAULT_USER_PREFERENCES.schedule_time,
     initial_scan_date: DEFAULT_USER_PREFERENCES.initial_scan_date,
     // Search parameters
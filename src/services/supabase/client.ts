@@ -2,6 +2,7 @@
 // Rather than using Supabase Auth, we'll use Chrome's Identity API and manage sessions manually
 
 import { createClient, Session, SupabaseClient } from '@supabase/supabase-js';
+import { VendorPattern } from '../../types';
 // We'll use the full interface definition below
 type Database = {
   public: {
@@ -105,6 +106,35 @@ type Database = {
           extracted_data?: any;
         };
       };
+      user_patterns: {
+        Row: {
+          id: string;
+          user_id: string;
+          vendor_name: string;
+          definition: any;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          vendor_name: string;
+          definition: any;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          vendor_name?: string;
+          definition?: any;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       google_credentials: {
         Row: {
           id: string;
@@ -932,6 +962,234 @@ export async function recordProcessedItem(
   }
 }
 
+/**
+ * Record a batch of processed messages in processed_items, replacing the
+ * earlier record of messages processed again
+ * @param userId Supabase user ID
+ * @param items Per-message processing results
+ * @returns Whether the upsert succeeded
+ */
+export async function recordProcessedItems(
+  userId: string,
+  items: Array<{
+    message_id: string;
+    source_email: string;
+    status: string;
+    extracted_data?: any;
+    error_message?: string | null;
+  }>
+): Promise<boolean> {
+  if (items.length === 0) {
+    return true;
+  }
+  
+  try {
+    const supabase = await getSupabaseClient();
+    const processedAt = new Date().toISOString();
+    
+    const { error } = await supabase
+      .from('processed_items')
+      .upsert(items.map(item => ({
+        user_id: userId,
+        message_id: item.message_id,
+        source_email: item.source_email,
+        processed_at: processedAt,
+        status: item.status,
+        extracted_data: item.extracted_data || null,
+        error_message: item.error_message || null
+      })), { onConflict: 'user_id,message_id' });
+    
+    if (error) {
+      console.error('Error recording processed items:', error);
+      return false;
+    }
+    
+    return true;
+  } catch (error) {
+    console.error('Error recording processed items:', error);
+    return false;
+  }
+}
+
+// Message IDs per processed_items lookup, longer ID lists make a URL PostgREST rejects
+const PROCESSED_LOOKUP_CHUNK_SIZE = 150;
+
+/**
+ * Get the message IDs from a list that already have a completed processed_items record
+ * @param userId Supabase user ID
+ * @param messageIds Gmail message IDs to check
+ * @returns Message IDs that were processed successfully or had no bills
+ * @throws Error when a lookup fails, so callers don't mistake it for nothing processed
+ */
+export async function getProcessedMessageIds(userId: string, messageIds: string[]): Promise<string[]> {
+  if (messageIds.length === 0) {
+    return [];
+  }
+  
+  const supabase = await getSupabaseClient();
+  const processedIds: string[] = [];
+  
+  for (let i = 0; i < messageIds.length; i += PROCESSED_LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('processed_items')
+      .select('message_id')
+      .eq('user_id', userId)
+      .in('message_id', messageIds.slice(i, i + PROCESSED_LOOKUP_CHUNK_SIZE))
+      .in('status', ['success', 'no_bills']);
+    
+    if (error) {
+      console.error('Error looking up processed items:', error);
+      throw new Error(`Could not check which emails were already processed: ${error.message}`);
+    }
+    
+    processedIds.push(...(data || []).map((item: { message_id: string }) => item.message_id));
+  }
+  
+  return processedIds;
+}
+
+/**
+ * Get the processed_items records of messages that produced bills
+ * @param userId Supabase user ID
+ * @param messageIds Gmail message IDs to look up
+ * @returns Records with their extracted data, newest first
+ */
+export async function getProcessedItems(
+  userId: string,
+  messageIds: string[]
+): Promise<Array<{ message_id: string; status: string; extracted_data: any; processed_at: string }>> {
+  if (messageIds.length === 0) {
+    return [];
+  }
+  
+  try {
+    const supabase = await getSupabaseClient();
+    const items: Array<{ message_id: string; status: string; extracted_data: any; processed_at: string }> = [];
+    
+    for (let i = 0; i < messageIds.length; i += PROCESSED_LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('processed_items')
+        .select('message_id, status, extracted_data, processed_at')
+        .eq('user_id', userId)
+        .in('message_id', messageIds.slice(i, i + PROCESSED_LOOKUP_CHUNK_SIZE))
+        .eq('status', 'success');
+      
+      if (error) {
+        console.error('Error fetching processed items:', error);
+        return [];
+      }
+      
+      items.push(...(data || []));
+    }
+    
+    return items.sort((a, b) => b.processed_at.localeCompare(a.processed_at));
+  } catch (error) {
+    console.error('Error fetching processed items:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the active custom vendor patterns of a user
+ * @param userId Supabase user ID
+ * @returns Stored pattern definitions with their row IDs
+ */
+export async function getUserPatterns(userId: string): Promise<VendorPattern[]> {
+  try {
+    const supabase = await getSupabaseClient();
+    const { data, error } = await supabase
+      .from('user_patterns')
+      .select('id, definition')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching user patterns:', error);
+      return [];
+    }
+    
+    return (data || []).map((row: { id: string; definition: any }) => ({ ...row.definition, id: row.id }));
+  } catch (error) {
+    console.error('Error fetching user patterns:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a custom vendor pattern, updating it when it already has an ID
+ * @param userId Supabase user ID
+ * @param pattern Validated pattern definition
+ * @returns Response with the saved pattern
+ */
+export async function saveUserPattern(
+  userId: string,
+  pattern: VendorPattern
+): Promise<{ success: boolean; pattern?: VendorPattern; error?: string }> {
+  try {
+    const supabase = await getSupabaseClient();
+    const { id, ...definition } = pattern;
+    
+    const query = id
+      ? supabase
+          .from('user_patterns')
+          .update({ vendor_name: pattern.vendorName, definition, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', userId)
+      : supabase
+          .from('user_patterns')
+          .insert({ user_id: userId, vendor_name: pattern.vendorName, definition });
+    
+    const { data, error } = await query.select('id, definition').single();
+    
+    if (error) {
+      console.error('Error saving user pattern:', error);
+      return { success: false, error: error.message };
+    }
+    
+    return { success: true, pattern: { ...data.definition, id: data.id } };
+  } catch (error) {
+    console.error('Error saving user pattern:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Delete a custom vendor pattern
+ * @param userId Supabase user ID
+ * @param patternId Pattern row ID
+ * @returns Response with status
+ */
+export async function deleteUserPattern(
+  userId: string,
+  patternId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await getSupabaseClient();
+    const { error } = await supabase
+      .from('user_patterns')
+      .delete()
+      .eq('id', patternId)
+      .eq('user_id', userId);
+    
+    if (error) {
+      console.error('Error deleting user pattern:', error);
+      return { success: false, error: error.message };
+    }
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting user pattern:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
 /**
  * Get user settings
  * @param userId Supabase user ID
@@ -1194,6 +1452,7 @@ export async function deleteAccount() {
     await supabase.from('google_credentials').delete().eq('user_id', user.id);
     await supabase.from('email_sources').delete().eq('user_id', user.id);
     await supabase.from('processed_items').delete().eq('user_id', user.id);
+    await supabase.from('user_patterns').delete().eq('user_id', user.id);
     
     // Finally, delete the user account
     const { error: deleteError } = await supabase.auth.admin.deleteUser(user.id);
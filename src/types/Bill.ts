@@ -99,6 +99,26 @@ export interface Bill {
    */
   accountNumber?: string;
   
+  /**
+   * Invoice number, for bills read from e-invoices
+   */
+  invoiceNumber?: string;
+  
+  /**
+   * Date the invoice was issued
+   */
+  issueDate?: string;
+  
+  /**
+   * Net, VAT and gross totals, for bills read from e-invoices
+   */
+  totals?: BillTotals;
+  
+  /**
+   * Invoiced items, for bills read from e-invoices
+   */
+  lineItems?: BillLineItem[];
+  
   /**
    * Vendor information
    */
@@ -119,6 +139,11 @@ export interface Bill {
    */
   extractionMethod?: string;
   
+  /**
+   * ID of the bill pattern that matched, for pattern-based extraction
+   */
+  matchedPattern?: string;
+  
   /**
    * Language of the bill content
    */
@@ -128,6 +153,52 @@ export interface Bill {
    * Confidence level of extraction (0-1)
    */
   confidence?: number;
+  
+  /**
+   * Fields the extraction strategies disagreed on, for the user to review
+   */
+  conflicts?: BillFieldConflict[];
+}
+
+/**
+ * Totals of an invoice
+ */
+export interface BillTotals {
+  net?: number;
+  vat?: number;
+  gross?: number;
+}
+
+/**
+ * One invoiced item
+ */
+export interface BillLineItem {
+  description?: string;
+  quantity?: number;
+  unit?: string;
+  unitPrice?: number;
+  netAmount?: number;
+  vatRate?: number; // Percent, e.g. 27
+  grossAmount?: number;
+}
+
+/**
+ * Differing values extracted for one bill field
+ */
+export interface BillFieldConflict {
+  /**
+   * Conflicting field, e.g. 'amount' or 'dueDate'
+   */
+  field: string;
+  
+  /**
+   * Each distinct value with the strategy that extracted it, the chosen value first
+   */
+  values: Array<{
+    value: string | number;
+    confidence: number;
+    extractionMethod?: string;
+  }>;
 }
 
 /**
@@ -153,4 +224,9 @@ export interface BillExtractionResult {
    * Error message if extraction failed
    */
   error?: string;
+  
+  /**
+   * Whether the attachment is an encrypted PDF none of the passwords opened
+   */
+  needsPassword?: boolean;
 } 
\ No newline at end of file
@@ -1,3 +1,6 @@
+import { VendorPattern } from './index';
+import { BillFieldConflict } from './Bill';
+
 export interface BillData {
   [key: string]: any;
   vendor?: string;
@@ -6,6 +9,10 @@ export interface BillData {
   category?: string;
   emailId?: string;
   date?: Date | string;
+  conflicts?: BillFieldConflict[]; // Fields the extraction strategies disagreed on
+  matchedPattern?: string; // Pattern or e-invoice format the bill was read with
+  sourceEmail?: string; // Sender address of bills extracted outside a scan, recorded when they are exported
+  subject?: string;
 }
 
 export interface BillFieldConfig {
@@ -64,7 +71,7 @@ export interface DashboardStats {
   errors: number;
 }
 
-export type ScanningStatus = 'idle' | 'scanning' | 'completed';
+export type ScanningStatus = 'idle' | 'scanning' | 'paused' | 'completed';
 
 // Add missing types for background service worker
 export interface Message {
@@ -76,11 +83,107 @@ export interface ScanEmailsRequest {
   maxResults?: number;
   searchDays?: number;
   autoExportToSheets?: boolean; // Whether to automatically export to Google Sheets after scanning
+  incremental?: boolean; // Only scan messages added since the last Gmail history checkpoint
+  forceReprocess?: boolean; // Re-extract messages already recorded in processed_items
+  searchCap?: number; // Hard cap on message IDs collected from paginated search results
+  startDate?: string; // Start of an explicit date range (YYYY-MM-DD, inclusive), overrides searchDays
+  endDate?: string; // End of the date range (YYYY-MM-DD, inclusive), defaults to today
+}
+
+export interface ExtractMessageRequest {
+  messageId: string; // Gmail API message ID of the open email
+}
+
+export interface ExtractMessageResponse {
+  success: boolean;
+  error?: string;
+  messageId?: string;
+  bills?: BillData[]; // Bills found in the email body and its PDF attachments
+  confidence?: number; // Confidence of the email body extraction (0-1)
+}
+
+export interface ExtractThreadRequest {
+  threadId: string; // Gmail API thread ID of the open conversation
+}
+
+export interface ExtractThreadResponse {
+  success: boolean;
+  error?: string;
+  threadId?: string;
+  bills?: BillData[]; // Bills found in every message of the thread, with confidence and matched pattern
+}
+
+export interface SaveUserPatternRequest {
+  pattern: VendorPattern; // Custom pattern, updated when it has an ID
+}
+
+export interface DeleteUserPatternRequest {
+  patternId: string;
+}
+
+export interface UserPatternsResponse {
+  success: boolean;
+  error?: string;
+  patterns?: VendorPattern[]; // The user's custom patterns after the change
+  pattern?: VendorPattern; // The saved pattern with its ID
 }
 
+export interface RecordCorrectionRequest {
+  messageId: string;
+  original: BillData; // Bill as it was extracted
+  corrected: BillData; // Bill as the user confirmed it
+}
+
+export interface RecordCorrectionResponse {
+  success: boolean;
+  error?: string;
+  learnedFields?: string[]; // Fields whose value was located in the email
+}
+
+export interface PdfPasswordRequest {
+  messageId: string;
+  attachmentId: string;
+  fileName: string;
+  from: string; // Sender address
+  subject?: string;
+  requestedAt: string;
+}
+
+export interface PdfPasswordRequestsResponse {
+  success: boolean;
+  error?: string;
+  requests?: PdfPasswordRequest[]; // Encrypted PDFs no stored password opened
+}
+
+export interface ResolvePdfPasswordRequest {
+  messageId: string;
+  attachmentId: string;
+  password: string;
+  scope: PdfPasswordScope; // Whose PDFs the password is tried on from now on
+}
+
+export interface ResolvePdfPasswordResponse {
+  success: boolean;
+  error?: string;
+  needsPassword?: boolean; // The password didn't open the PDF
+  bills?: BillData[];
+}
+
+export type PdfPasswordScope = 'sender' | 'domain';
+
 export interface ScanEmailsResponse {
   success: boolean;
   error?: string;
   bills?: BillData[];
   stats?: DashboardStats; // Include scan statistics in the response
+  scanMode?: 'full' | 'incremental'; // Whether the history checkpoint was used
+  skipped?: number; // Messages skipped because they were already processed
+  matched?: number; // Messages matching the search query (a lower bound when limitReached)
+  limitReached?: boolean; // More messages matched than were processed
+  quotaUnitsUsed?: number; // Gmail API quota units used by the scan
+  labelled?: number; // Messages labelled in Gmail when labelling is enabled
+  jobId?: string; // ID of the persisted scan job
+  paused?: boolean; // The scan was paused and can be resumed with RESUME_SCAN
+  cancelled?: boolean; // The scan was cancelled, bills contain what was found so far
+  unprocessed?: string[]; // Message IDs left unprocessed by a cancelled scan
 } 
\ No newline at end of file
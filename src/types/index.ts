@@ -67,12 +67,28 @@ export interface EmailSource {
 }
 
 // Vendor pattern types
+// Serialisable pattern format for user-defined vendors. Regexes are stored as
+// source strings and compiled case-insensitively.
 export interface VendorPattern {
   id: string;
   vendorName: string;
   emailPattern?: string;
   subjectPattern?: string;
   contentPattern?: string;
+  // Language code, or '*' (the default) to run for every language,
+  // reading amounts and dates in the email's language
+  language?: string;
+  category?: string;
+  currency?: string;
+  fields: VendorPatternFields;
+  confirmationKeywords?: string[];
+}
+
+// Field regexes capture the value in their first group
+export interface VendorPatternFields {
+  amount: string[];
+  dueDate?: string[];
+  accountNumber?: string[];
 }
 
 // User settings
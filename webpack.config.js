@@ -23,7 +23,8 @@ module.exports = {
     popup: './src/index.js',
     options: './src/options/index.tsx',
     background: './src/background/index.ts',
-    content: './src/content/index.ts'
+    content: './src/content/index.ts',
+    offscreen: './src/offscreen/index.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -110,7 +111,14 @@ module.exports = {
           }
         },
         { from: 'public/icon.svg', to: 'icon.svg' },
-        { from: 'public/icon128.png', to: 'icon128.png' }
+        { from: 'public/icon128.png', to: 'icon128.png' },
+        // PDF.js runs its parser in a worker loaded from the extension
+        { from: 'node_modules/pdfjs-dist/build/pdf.worker.min.mjs', to: 'pdf.worker.min.mjs' },
+        // Tesseract OCR runs offline from its bundled worker, LSTM cores and language data
+        { from: 'node_modules/tesseract.js/dist/worker.min.js', to: 'tesseract/worker.min.js' },
+        { from: 'node_modules/tesseract.js-core/tesseract-core*-lstm.wasm.js', to: 'tesseract/[name][ext]' },
+        { from: 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz', to: 'tesseract/lang/eng.traineddata.gz' },
+        { from: 'node_modules/@tesseract.js-data/hun/4.0.0_best_int/hun.traineddata.gz', to: 'tesseract/lang/hun.traineddata.gz' }
       ],
     }),
     new HtmlWebpackPlugin({
@@ -125,6 +133,12 @@ module.exports = {
       chunks: ['options'],
       cache: false
     }),
+    new HtmlWebpackPlugin({
+      template: './public/offscreen.html',
+      filename: 'offscreen.html',
+      chunks: ['offscreen'],
+      cache: false
+    }),
   ],
   resolve: {
     extensions: ['.js', '.jsx', '.ts', '.tsx', '.css'],